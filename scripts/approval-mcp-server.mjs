@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+/**
+ * Minimal stdio MCP server used as Claude's `--permission-prompt-tool`.
+ *
+ * Each tool call is forwarded to the bot's local approval endpoint, which asks the
+ * task owner in Discord and answers with {"behavior":"allow"|"deny", ...}.
+ * Spawned by the Claude CLI via the `--mcp-config` built in src/core/approval-manager.ts.
+ */
+
+import readline from "node:readline";
+
+const APPROVAL_URL = process.env.RIKOCLAW_APPROVAL_URL || "";
+const APPROVAL_TOKEN = process.env.RIKOCLAW_APPROVAL_TOKEN || "";
+const TOOL_NAME = "approval_prompt";
+
+const rl = readline.createInterface({ input: process.stdin });
+
+rl.on("line", (line) => {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return;
+  }
+
+  let message;
+  try {
+    message = JSON.parse(trimmed);
+  } catch {
+    return;
+  }
+
+  void handleMessage(message).catch((error) => {
+    process.stderr.write(`[approval-mcp] ${error instanceof Error ? error.message : String(error)}\n`);
+  });
+});
+
+async function handleMessage(message) {
+  const { id, method, params } = message;
+  // Notifications (no id) need no reply.
+  if (id === undefined || id === null) {
+    return;
+  }
+
+  if (method === "initialize") {
+    reply(id, {
+      protocolVersion: params?.protocolVersion || "2024-11-05",
+      capabilities: { tools: {} },
+      serverInfo: { name: "rikoclaw-approval", version: "0.1.0" },
+    });
+    return;
+  }
+
+  if (method === "ping") {
+    reply(id, {});
+    return;
+  }
+
+  if (method === "tools/list") {
+    reply(id, {
+      tools: [
+        {
+          name: TOOL_NAME,
+          description: "Ask the Discord task owner to approve or deny a tool call.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              tool_name: { type: "string" },
+              input: { type: "object" },
+              tool_use_id: { type: "string" },
+            },
+            required: ["tool_name", "input"],
+          },
+        },
+      ],
+    });
+    return;
+  }
+
+  if (method === "tools/call") {
+    if (params?.name !== TOOL_NAME) {
+      replyError(id, -32602, `Unknown tool: ${params?.name}`);
+      return;
+    }
+    const decision = await requestDecision(params.arguments || {});
+    reply(id, { content: [{ type: "text", text: JSON.stringify(decision) }] });
+    return;
+  }
+
+  replyError(id, -32601, `Method not found: ${method}`);
+}
+
+async function requestDecision(args) {
+  if (!APPROVAL_URL || !APPROVAL_TOKEN) {
+    return { behavior: "deny", message: "Approval endpoint is not configured." };
+  }
+
+  try {
+    const response = await fetch(APPROVAL_URL, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        token: APPROVAL_TOKEN,
+        toolName: args.tool_name,
+        input: args.input,
+        toolUseId: args.tool_use_id,
+      }),
+    });
+    const body = await response.json();
+    if (body && (body.behavior === "allow" || body.behavior === "deny")) {
+      return body;
+    }
+    return { behavior: "deny", message: "Approval endpoint returned an invalid response." };
+  } catch (error) {
+    return {
+      behavior: "deny",
+      message: `Approval request failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+function reply(id, result) {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: "2.0", id, result })}\n`);
+}
+
+function replyError(id, code, message) {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: "2.0", id, error: { code, message } })}\n`);
+}
@@ -1,17 +1,27 @@
 import fs from "node:fs";
 import { Client, GatewayIntentBits, Partials } from "discord.js";
+import { ApprovalManager } from "./core/approval-manager.js";
+import { BudgetManager } from "./core/budget-manager.js";
 import { ClaudeRunner } from "./core/claude-runner.js";
 import { CodexRunner } from "./core/codex-runner.js";
 import { EngineManager } from "./core/engine-manager.js";
+import { FakeRunner, FakeScript } from "./core/fake-runner.js";
+import { HeartbeatHistory } from "./core/heartbeat-history.js";
 import { HeartbeatManager } from "./core/heartbeat-manager.js";
-import type { LLMRunner } from "./core/llm-runner.js";
+import type { EngineType, LLMRunner } from "./core/llm-runner.js";
 import { ModelManager } from "./core/model-manager.js";
 import { MechoModeManager } from "./core/mecho-mode-manager.js";
+import { OpenAICompatRunner } from "./core/openai-compat-runner.js";
 import { PersonaManager } from "./core/persona-manager.js";
+import { QueueJournal } from "./core/queue-journal.js";
 import { QueueManager } from "./core/queue-manager.js";
+import { ScheduleHistory } from "./core/schedule-history.js";
 import { ScheduleManager } from "./core/schedule-manager.js";
+import { ScheduleStateStore } from "./core/schedule-state.js";
 import { SessionManager } from "./core/session-manager.js";
 import { TeamManager } from "./core/team-manager.js";
+import { TeamRunStore } from "./core/team-run-store.js";
+import { UsageLedger } from "./core/usage-ledger.js";
 import { PTYRelayManager } from "./core/pty-relay-manager.js";
 import { VerboseManager } from "./core/verbose-manager.js";
 import { RestartManager } from "./core/restart-manager.js";
@@ -32,6 +42,8 @@ export interface BotContext {
   verbose: VerboseManager;
   ptyRelay: PTYRelayManager;
   restarts: RestartManager;
+  approvals: ApprovalManager;
+  usageLedger: UsageLedger | null;
 }
 
 export function createClient(config: Config): Client {
@@ -76,6 +88,24 @@ export async function createContext(config: Config, client: Client): Promise<Bot
     }
   }
 
+  if (config.openaiCompatEnabled) {
+    try {
+      runners.set("openai", new OpenAICompatRunner(config));
+      console.log(`[openai] runner registered baseUrl=${config.openaiCompatBaseUrl}`);
+    } catch (error: unknown) {
+      console.warn("[openai] runner initialization failed, openai engine disabled:", error);
+    }
+  }
+
+  if (config.fakeRunnerFixture) {
+    // Offline mode: every enabled engine replays the same scripted fixture instead of a real backend.
+    const script = FakeScript.fromFile(config.fakeRunnerFixture);
+    for (const engine of [...runners.keys()] as EngineType[]) {
+      runners.set(engine, new FakeRunner(engine, script));
+    }
+    console.warn(`[fake] all engines replaced by fake runner fixture=${config.fakeRunnerFixture}`);
+  }
+
   const sessions = new SessionManager(config.dbPath);
   const models = new ModelManager(config);
   const mechoModes = new MechoModeManager(config);
@@ -83,6 +113,17 @@ export async function createContext(config: Config, client: Client): Promise<Bot
   const personas = new PersonaManager(config);
   const verbose = new VerboseManager(config);
   const restarts = new RestartManager(config);
+  const queueJournal = config.queueJournalEnabled ? new QueueJournal(config.dbPath) : null;
+  const approvals = new ApprovalManager(config);
+  const usageLedger = config.usageLedgerEnabled ? new UsageLedger(config.dbPath) : null;
+  let budgets: BudgetManager | null = null;
+  if (config.budgets.length > 0) {
+    if (usageLedger) {
+      budgets = new BudgetManager(config, usageLedger, models);
+    } else {
+      console.warn("[budget] BUDGETS is set but USAGE_LEDGER_ENABLED=false; budgets are disabled");
+    }
+  }
   const queue = new QueueManager(
     runners,
     sessions,
@@ -91,10 +132,29 @@ export async function createContext(config: Config, client: Client): Promise<Bot
     personas,
     mechoModes,
     restarts,
+    queueJournal,
+    approvals,
+    usageLedger,
+    budgets,
+  );
+  const schedules = new ScheduleManager(
+    client,
+    config,
+    personas,
+    queue,
+    sessions,
+    new ScheduleStateStore(config.dbPath),
+    new ScheduleHistory(config.dbPath),
+  );
+  const heartbeat = new HeartbeatManager(
+    client,
+    config,
+    personas,
+    queue,
+    sessions,
+    new HeartbeatHistory(config.dbPath),
   );
-  const schedules = new ScheduleManager(client, personas, queue, sessions);
-  const heartbeat = new HeartbeatManager(client, config, personas, queue, sessions);
-  const team = new TeamManager(client, queue);
+  const team = new TeamManager(client, queue, new TeamRunStore(config.dbPath, config.dataDir));
   const ptyRelay = new PTYRelayManager(config, sessions);
 
   return {
@@ -112,5 +172,7 @@ export async function createContext(config: Config, client: Client): Promise<Bot
     verbose,
     ptyRelay,
     restarts,
+    approvals,
+    usageLedger,
   };
 }
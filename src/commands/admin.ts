@@ -5,6 +5,8 @@
   SlashCommandBuilder,
 } from "discord.js";
 import type { BotContext } from "../bot.js";
+import type { HeartbeatEventRecord } from "../core/heartbeat-history.js";
+import type { HeartbeatDeferral } from "../core/heartbeat-manager.js";
 import { loadConfig } from "../utils/config.js";
 
 const sessionsCommand = new SlashCommandBuilder()
@@ -23,10 +25,37 @@ const heartbeatCommand = new SlashCommandBuilder()
   .setName("heartbeat")
   .setDescription("Show heartbeat status or trigger one run")
   .addSubcommand((subcommand) =>
-    subcommand.setName("status").setDescription("Show heartbeat status"),
+    subcommand.setName("status").setDescription("Show the heartbeat of every mode"),
   )
   .addSubcommand((subcommand) =>
-    subcommand.setName("trigger").setDescription("Trigger heartbeat now"),
+    subcommand
+      .setName("trigger")
+      .setDescription("Trigger heartbeat now")
+      .addStringOption((option) =>
+        option
+          .setName("mode")
+          .setDescription("Mode whose heartbeat to run (default: default)")
+          .setRequired(false),
+      ),
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("history")
+      .setDescription("Show recent heartbeat events, including skipped runs")
+      .addStringOption((option) =>
+        option
+          .setName("mode")
+          .setDescription("Only this mode's heartbeat (default: every mode)")
+          .setRequired(false),
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName("limit")
+          .setDescription("Number of events (default 10)")
+          .setMinValue(1)
+          .setMaxValue(25)
+          .setRequired(false),
+      ),
   );
 
 export const data = [sessionsCommand, reloadCommand, queueCommand, heartbeatCommand];
@@ -105,6 +134,7 @@ async function handleReload(
   const next = loadConfig();
   Object.assign(ctx.config, next);
   ctx.personas.invalidateCache();
+  ctx.heartbeat.reload();
 
   await sendReply(interaction, {
     content: "Configuration reloaded.",
@@ -119,27 +149,45 @@ async function handleQueue(
   const { queue, config } = ctx;
   const processingText = queue.isBusy ? "yes" : "no";
   const current = queue.getCurrentTaskSnapshot();
-  const pendingKeys = queue.listPendingTaskKeys(5);
+  const pendingTasks = queue.listPendingTasks(5);
+  const lanes = queue.getLaneSnapshot();
+  const laneCounts = Object.entries(lanes.pendingByLane)
+    .map(([lane, count]) => `${lane}=${count}`)
+    .join(", ");
+  const slotLines = queue
+    .getSlotUsage()
+    .map(
+      (slot) =>
+        `- ${slot.kind} ${slot.key}: ${slot.active}/${slot.limit ?? config.maxConcurrentRuns}`,
+    );
 
   const content = [
     `Processing: ${processingText}`,
     `Active runs: ${queue.activeRunCount}`,
     `Pending: ${queue.pendingCount}`,
+    `Active lane: ${lanes.activeLane ?? "(idle)"}`,
+    `Pending by lane: ${laneCounts}`,
     `In-flight total: ${queue.totalInFlightCount}`,
     `Max queue size: ${config.maxQueueSize}`,
     `Max concurrent runs: ${config.maxConcurrentRuns}`,
+    slotLines.length > 0 ? ["Slots (active/limit):", ...slotLines].join("\n") : "",
     current
       ? [
           "",
           `Current task: \`${current.taskKey}\``,
+          `- lane: ${current.lane}`,
           `- engine: ${current.engine}`,
           `- respondTo: ${current.respondToType}`,
           `- waited: ${formatDuration(current.waitMs)}`,
           `- elapsed: ${formatDuration(current.elapsedMs)}`,
         ].join("\n")
       : "",
-    pendingKeys.length > 0
-      ? ["", "Pending keys (max 5):", ...pendingKeys.map((k) => `- \`${k}\``)].join("\n")
+    pendingTasks.length > 0
+      ? [
+          "",
+          "Next up (max 5):",
+          ...pendingTasks.map((task) => `- [${task.lane}] \`${task.taskKey}\``),
+        ].join("\n")
       : "",
   ].join("\n");
 
@@ -156,21 +204,25 @@ async function handleHeartbeat(
   const subcommand = interaction.options.getSubcommand();
 
   if (subcommand === "status") {
-    const snap = ctx.heartbeat.getSnapshot();
-    const lastStatus = snap.lastEvent
-      ? `${snap.lastEvent.status} (<t:${Math.floor(snap.lastEvent.ts / 1000)}:R>)`
-      : "none";
+    const snaps = ctx.heartbeat.getSnapshots();
+    const blocks = snaps.map((snap) => {
+      const lastStatus = snap.lastEvent
+        ? `${snap.lastEvent.status} (<t:${Math.floor(snap.lastEvent.ts / 1000)}:R>)`
+        : "none";
+      return [
+        `**${snap.modeName}**${snap.enabled ? "" : " (disabled)"}`,
+        `Channel: ${snap.channelId ? `<#${snap.channelId}>` : "(unset)"} | Interval: ${snap.intervalMinutes}m | Active hours: ${snap.activeHours.start}-${snap.activeHours.end}`,
+        `Engine: ${snap.engine}${snap.model ? ` (${snap.model})` : ""} | Runs: ${snap.runCount} | Last: ${lastStatus}`,
+        `When busy: ${snap.busyPolicy}${snap.deferral ? ` | ${formatDeferral(snap.deferral)}` : ""}`,
+        snap.lastEvent?.preview ? `Preview: ${snap.lastEvent.preview.slice(0, 200)}` : "",
+      ]
+        .filter(Boolean)
+        .join("\n");
+    });
     const content = [
-      `Enabled: ${snap.enabled ? "yes" : "no"}`,
-      `Channel: ${snap.channelId || "(unset)"}`,
-      `Interval: ${snap.intervalMinutes}m`,
-      `Active hours: ${snap.activeHours.start}-${snap.activeHours.end}`,
-      `Runs: ${snap.runCount}`,
-      `Last: ${lastStatus}`,
-      snap.lastEvent?.preview ? `Preview: ${snap.lastEvent.preview.slice(0, 200)}` : "",
-    ]
-      .filter(Boolean)
-      .join("\n");
+      `Enabled: ${ctx.config.heartbeatEnabled ? "yes" : "no"}`,
+      ...(blocks.length > 0 ? blocks : ["No heartbeats running."]),
+    ].join("\n\n");
 
     await sendReply(interaction, {
       content: content.slice(0, 1900),
@@ -179,6 +231,23 @@ async function handleHeartbeat(
     return;
   }
 
+  if (subcommand === "history") {
+    const modeName = interaction.options.getString("mode")?.trim() || null;
+    const limit = interaction.options.getInteger("limit") ?? 10;
+    const events = ctx.heartbeat.getHistory(modeName, limit);
+    const lines = [`**Heartbeat history${modeName ? ` (${modeName})` : ""}**`];
+    if (events.length === 0) {
+      lines.push("No events recorded yet.");
+    }
+    lines.push(...events.map((event) => formatHeartbeatEvent(event, modeName === null)));
+
+    await sendReply(interaction, {
+      content: lines.join("\n").slice(0, 1900),
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
   if (subcommand === "trigger") {
     if (!ctx.config.heartbeatEnabled) {
       await sendReply(interaction, {
@@ -188,12 +257,21 @@ async function handleHeartbeat(
       return;
     }
 
+    const modeName = interaction.options.getString("mode")?.trim() || "default";
+    if (!ctx.personas.modeExists(modeName)) {
+      await sendReply(interaction, {
+        content: `Unknown mode: ${modeName}`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
     await sendReply(interaction, {
-      content: "Triggering heartbeat...",
+      content: `Triggering heartbeat (${modeName})...`,
       flags: MessageFlags.Ephemeral,
     });
 
-    const event = await ctx.heartbeat.triggerNow();
+    const event = await ctx.heartbeat.triggerNow(modeName);
     const summary = `Done: ${event.status}${event.durationMs ? ` (${formatDuration(event.durationMs)})` : ""}${event.preview ? `\n${event.preview.slice(0, 300)}` : ""}`;
 
     await interaction.followUp({
@@ -203,6 +281,43 @@ async function handleHeartbeat(
   }
 }
 
+function formatHeartbeatEvent(event: HeartbeatEventRecord, showMode: boolean): string {
+  const icon =
+    event.status === "alert"
+      ? "🔔"
+      : event.status === "ok"
+        ? "✅"
+        : event.status === "failed"
+          ? "❌"
+          : event.status === "deferred"
+            ? "⏳"
+            : "⏭️";
+  const parts = [`${icon} <t:${Math.floor(event.ts / 1000)}:f>`];
+  if (showMode) {
+    parts.push(`\`${event.modeName}\``);
+  }
+  parts.push(event.status);
+  if (event.durationMs) {
+    parts.push(formatDuration(event.durationMs));
+  }
+  if (event.messageUrl) {
+    const extra = event.messageIds.length > 1 ? ` +${event.messageIds.length - 1}` : "";
+    parts.push(`[message](${event.messageUrl})${extra}`);
+  }
+
+  const preview = event.preview ? ` — ${event.preview.replace(/\s+/g, " ").slice(0, 120)}` : "";
+  return `- ${parts.join(" ")}${preview}`;
+}
+
+function formatDeferral(deferral: HeartbeatDeferral): string {
+  const since = `<t:${Math.floor(deferral.since / 1000)}:R>`;
+  if (deferral.policy === "queue") {
+    return `Waiting in queue since ${since}`;
+  }
+  const next = deferral.nextAttemptAt ? `, next check <t:${Math.floor(deferral.nextAttemptAt / 1000)}:R>` : "";
+  return `Deferred since ${since} (attempt ${deferral.attempts}${next})`;
+}
+
 function formatDuration(ms: number): string {
   if (!Number.isFinite(ms) || ms <= 0) {
     return "0s";
@@ -11,11 +11,12 @@ import { checkAccess } from "../utils/access-control.js";
 const ENGINE_CHOICES = [
   { name: "claude", value: "claude" },
   { name: "codex", value: "codex" },
+  { name: "openai (OpenAI 호환 서버)", value: "openai" },
 ] as const;
 
 export const data = new SlashCommandBuilder()
   .setName("engine")
-  .setDescription("LLM 엔진을 선택합니다 (Claude / Codex)")
+  .setDescription("LLM 엔진을 선택합니다 (Claude / Codex / OpenAI 호환)")
   .addStringOption((option) =>
     option
       .setName("engine")
@@ -46,7 +47,7 @@ export async function execute(
     await interaction.reply({
       content:
         `현재 엔진(이 대화): \`${current}\`\n` +
-        "변경하려면 `/engine engine:claude` 또는 `/engine engine:codex`를 사용하세요.",
+        "변경하려면 `/engine engine:claude`, `/engine engine:codex`, `/engine engine:openai` 중 하나를 사용하세요.",
       flags: MessageFlags.Ephemeral,
     });
     return;
@@ -1,6 +1,7 @@
 import {
   REST,
   Routes,
+  type AutocompleteInteraction,
   type ChatInputCommandInteraction,
 } from "discord.js";
 import type { BotContext } from "../bot.js";
@@ -12,6 +13,7 @@ import * as newChat from "./new-chat.js";
 import * as schedule from "./schedule.js";
 import * as stop from "./stop.js";
 import * as team from "./team.js";
+import * as usage from "./usage.js";
 import * as verbose from "./verbose.js";
 
 interface CommandData {
@@ -25,6 +27,10 @@ interface CommandModule {
     interaction: ChatInputCommandInteraction,
     ctx: BotContext,
   ) => Promise<void>;
+  autocomplete?: (
+    interaction: AutocompleteInteraction,
+    ctx: BotContext,
+  ) => Promise<void>;
 }
 
 export const commands: CommandModule[] = [
@@ -37,8 +43,16 @@ export const commands: CommandModule[] = [
   admin,
   team,
   mode,
+  usage,
 ];
 
+export function findCommand(commandName: string): CommandModule | undefined {
+  return commands.find((entry) => {
+    const data = Array.isArray(entry.data) ? entry.data : [entry.data];
+    return data.some((item) => item.name === commandName);
+  });
+}
+
 export async function registerCommands(
   clientId: string,
   token: string,
@@ -5,23 +5,22 @@ import {
 } from "discord.js";
 import type { BotContext } from "../bot.js";
 import { resolveContextIdFromInteraction } from "../core/context-id.js";
+import type { EngineType } from "../core/llm-runner.js";
+import {
+  CLAUDE_MODEL_CHOICES,
+  CODEX_MODEL_CHOICES,
+  defaultModelEnvName,
+  defaultModelForEngine,
+} from "../core/model-manager.js";
 import { checkAccess } from "../utils/access-control.js";
 
 const MODEL_DEFAULT = "__default__";
 
-const CLAUDE_MODEL_CHOICES = [
-  { name: "Claude: claude-opus-4-6", value: "claude-opus-4-6" },
-  { name: "Claude: claude-sonnet-4-6", value: "claude-sonnet-4-6" },
-  { name: "Claude: claude-sonnet-4-5", value: "claude-sonnet-4-5" },
-  { name: "Claude: claude-opus-4-1", value: "claude-opus-4-1" },
-  { name: "Claude: claude-haiku-4-5", value: "claude-haiku-4-5" },
-] as const;
-
-// NOTE: Codex CLI model names available in this environment.
-const CODEX_MODEL_CHOICES = [
-  { name: "Codex: gpt-5.3-codex", value: "gpt-5.3-codex" },
-  { name: "Codex: gpt-5.2", value: "gpt-5.2" },
-] as const;
+const ENGINE_LABELS: Record<EngineType, string> = {
+  claude: "Claude",
+  codex: "Codex",
+  openai: "OpenAI 호환",
+};
 
 const MODEL_CHOICES = [
   { name: "기본값(현재 엔진)", value: MODEL_DEFAULT },
@@ -65,7 +64,9 @@ export async function execute(
   const contextId = resolveContextIdFromInteraction(interaction);
   const userId = interaction.user.id;
   const engine = ctx.engines.getEngine(userId, contextId);
-  const engineLabel = engine === "codex" ? "Codex" : "Claude";
+  const engineLabel = ENGINE_LABELS[engine];
+  // The OpenAI-compatible engine sends the model in the request body instead of a CLI flag.
+  const isHttpEngine = engine === "openai";
 
   const preset = interaction.options.getString("preset");
   const customRaw = interaction.options.getString("custom");
@@ -73,20 +74,22 @@ export async function execute(
 
   if (!preset && !custom) {
     const userOverride = ctx.models.getModel(userId, contextId, engine);
-    const envDefault =
-      engine === "codex" ? ctx.config.codexModel || "" : ctx.config.claudeModel || "";
-    // What actually gets passed as --model to the CLI
+    const envDefault = defaultModelForEngine(ctx.config, engine);
+    // What actually gets passed as --model to the CLI (or `model` in the HTTP request)
     const cliModel = userOverride || envDefault || null;
-    const cliModelDisplay = cliModel || "(플래그 없음 → CLI 내부 기본값)";
+    const cliModelDisplay =
+      cliModel || (isHttpEngine ? "(미지정 → 서버 기본 모델)" : "(플래그 없음 → CLI 내부 기본값)");
 
     const lines: string[] = [
       `**엔진:** ${engineLabel}`,
-      `**CLI에 넘어가는 모델:** \`${cliModelDisplay}\``,
+      `**${isHttpEngine ? "요청에 쓰이는" : "CLI에 넘어가는"} 모델:** \`${cliModelDisplay}\``,
     ];
     if (userOverride) {
       lines.push(`  ↳ 출처: 사용자 오버라이드 (\`/model\`로 설정)`);
     } else if (envDefault) {
-      lines.push(`  ↳ 출처: 환경변수 \`${engine === "codex" ? "CODEX_MODEL" : "CLAUDE_MODEL"}\``);
+      lines.push(`  ↳ 출처: 환경변수 \`${defaultModelEnvName(engine)}\``);
+    } else if (isHttpEngine) {
+      lines.push(`  ↳ 출처: \`model\` 필드 미전달 (서버에 로드된 모델 사용)`);
     } else {
       lines.push(`  ↳ 출처: \`--model\` 플래그 미전달 (CLI 자체 기본값 사용)`);
     }
@@ -114,9 +117,7 @@ export async function execute(
   if (preset === MODEL_DEFAULT) {
     ctx.models.setModel(userId, contextId, engine, null);
     const fallback =
-      engine === "codex"
-        ? ctx.config.codexModel || "(CLI 기본값)"
-        : ctx.config.claudeModel || "(CLI 기본값)";
+      defaultModelForEngine(ctx.config, engine) || (isHttpEngine ? "(서버 기본값)" : "(CLI 기본값)");
     console.log(`[model] reset user=${userId} engine=${engine} fallback=${fallback}`);
     await interaction.reply({
       content: `모델(${engineLabel}) 설정을 기본값으로 되돌렸습니다. 현재 기본: \`${fallback}\``,
@@ -128,6 +129,15 @@ export async function execute(
   if (preset) {
     const isClaudePreset = CLAUDE_MODEL_VALUES.has(preset);
     const isCodexPreset = CODEX_MODEL_VALUES.has(preset);
+    if (isHttpEngine) {
+      await interaction.reply({
+        content:
+          "OpenAI 호환 엔진에는 프리셋이 없습니다.\n" +
+          "`/model custom:...`으로 서버에 로드된 모델명을 입력하세요.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
     if (engine === "claude" && isCodexPreset) {
       await interaction.reply({
         content:
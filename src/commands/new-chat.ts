@@ -81,6 +81,13 @@ export async function execute(
       });
       return;
     }
+    if (enqueueResult.reason === "budget_exceeded") {
+      await interaction.followUp({
+        content: enqueueResult.message || "사용 예산을 초과했습니다.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
 
     await interaction.followUp({
       content: `대기열이 가득 찼습니다 (${config.maxQueueSize}개). 잠시 후 다시 시도해주세요.`,
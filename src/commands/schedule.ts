@@ -1,11 +1,42 @@
 import {
+  ActionRowBuilder,
+  AutocompleteInteraction,
   ChannelType,
   ChatInputCommandInteraction,
   MessageFlags,
+  ModalBuilder,
+  ModalSubmitInteraction,
   SlashCommandBuilder,
+  SlashCommandSubcommandBuilder,
+  TextInputBuilder,
+  TextInputStyle,
 } from "discord.js";
 import type { BotContext } from "../bot.js";
-import type { ScheduleMutationResult } from "../core/schedule-manager.js";
+import type { ScheduleRunRecord } from "../core/schedule-history.js";
+import {
+  CATCH_UP_POLICIES,
+  type CatchUpPolicy,
+  type EditScheduleInput,
+  type ScheduleListItem,
+  type ScheduleMutationResult,
+} from "../core/schedule-manager.js";
+import { MechoClient } from "../integrations/mecho-client.js";
+import { formatWallClock } from "../utils/time-zone.js";
+
+const PROMPT_MODAL_PREFIX = "schedule-prompt:";
+const PROMPT_INPUT_ID = "prompt";
+const MODAL_PROMPT_MAX_LENGTH = 4000;
+// Discord drops autocomplete responses slower than 3 seconds.
+const AUTOCOMPLETE_MECHO_TIMEOUT_MS = 2000;
+const AUTOCOMPLETE_CHOICE_LIMIT = 25;
+// Passing this to a clearable edit option resets the field to its default.
+const CLEAR_VALUE = "-";
+const TARGET_CHANNEL_TYPES = [
+  ChannelType.GuildText,
+  ChannelType.PublicThread,
+  ChannelType.PrivateThread,
+  ChannelType.AnnouncementThread,
+] as const;
 
 export const data = new SlashCommandBuilder()
   .setName("schedule")
@@ -13,57 +44,232 @@ export const data = new SlashCommandBuilder()
   .addSubcommand((subcommand) =>
     subcommand.setName("list").setDescription("List loaded schedules"),
   )
+  .addSubcommand((subcommand) =>
+    addTimingOptions(
+      subcommand
+        .setName("add")
+        .setDescription("Add a cron schedule")
+        .addStringOption((option) =>
+          option
+            .setName("id")
+            .setDescription("Unique schedule id")
+            .setRequired(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("cron")
+            .setDescription("Cron expression (5 fields, in the schedule timezone)")
+            .setRequired(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("prompt")
+            .setDescription("Prompt to run")
+            .setRequired(true),
+        ),
+    ),
+  )
+  .addSubcommand((subcommand) =>
+    addTimingOptions(
+      subcommand
+        .setName("once")
+        .setDescription("Run a prompt once at a given time")
+        .addStringOption((option) =>
+          option
+            .setName("id")
+            .setDescription("Unique schedule id")
+            .setRequired(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("at")
+            .setDescription("When to run, e.g. 2026-01-31T09:00 (schedule timezone unless an offset is given)")
+            .setRequired(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("prompt")
+            .setDescription("Prompt to run")
+            .setRequired(true),
+        ),
+    ),
+  )
+  .addSubcommand((subcommand) =>
+    addTimingOptions(
+      subcommand
+        .setName("every")
+        .setDescription("Run a prompt at a fixed interval")
+        .addStringOption((option) =>
+          option
+            .setName("id")
+            .setDescription("Unique schedule id")
+            .setRequired(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("interval")
+            .setDescription("Interval, e.g. 90m, 2h, 1d12h")
+            .setRequired(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("prompt")
+            .setDescription("Prompt to run")
+            .setRequired(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("anchor")
+            .setDescription("First run time the interval counts from (default: now)")
+            .setRequired(false),
+        ),
+    ),
+  )
+  .addSubcommand((subcommand) =>
+    addTargetOptions(
+      subcommand
+        .setName("after")
+        .setDescription("Run a prompt whenever another schedule finishes")
+        .addStringOption((option) =>
+          option
+            .setName("id")
+            .setDescription("Unique schedule id")
+            .setRequired(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("upstream")
+            .setDescription("Schedule id or key to follow")
+            .setRequired(true)
+            .setAutocomplete(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("prompt")
+            .setDescription("Prompt to run; the upstream output is prepended")
+            .setRequired(true),
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName("only_on_success")
+            .setDescription("Skip when the upstream run failed (default: false)")
+            .setRequired(false),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("match")
+            .setDescription("Only run when the upstream output matches this regex")
+            .setRequired(false),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("unless")
+            .setDescription("Skip when the upstream replied with only this token, e.g. NOTHING_FOUND")
+            .setRequired(false),
+        ),
+    ),
+  )
   .addSubcommand((subcommand) =>
     subcommand
-      .setName("add")
-      .setDescription("Add a schedule")
+      .setName("edit")
+      .setDescription("Change fields of an existing schedule")
       .addStringOption((option) =>
         option
           .setName("id")
-          .setDescription("Unique schedule id")
-          .setRequired(true),
+          .setDescription("Schedule id or key")
+          .setRequired(true)
+          .setAutocomplete(true),
       )
       .addStringOption((option) =>
         option
           .setName("cron")
-          .setDescription("Cron expression (5 fields, KST)")
-          .setRequired(true),
+          .setDescription("New cron expression (replaces the current trigger)")
+          .setRequired(false),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("at")
+          .setDescription("New one-shot time (replaces the current trigger)")
+          .setRequired(false),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("interval")
+          .setDescription("New interval, e.g. 90m (replaces the current trigger)")
+          .setRequired(false),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("after")
+          .setDescription("Schedule to follow instead (replaces the current trigger)")
+          .setRequired(false)
+          .setAutocomplete(true),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("anchor")
+          .setDescription("First run time the interval counts from")
+          .setRequired(false),
       )
       .addStringOption((option) =>
         option
           .setName("prompt")
-          .setDescription("Prompt to run")
-          .setRequired(true),
+          .setDescription("New prompt")
+          .setRequired(false),
+      )
+      .addBooleanOption((option) =>
+        option
+          .setName("edit_prompt")
+          .setDescription("Edit the prompt in a multi-line form")
+          .setRequired(false),
       )
       .addStringOption((option) =>
         option
           .setName("mode_id")
-          .setDescription("Mecho mode id (optional; letters/numbers/_/-)")
-          .setRequired(false),
+          .setDescription("Mecho mode id (`-` for context default)")
+          .setRequired(false)
+          .setAutocomplete(true),
       )
       .addChannelOption((option) =>
         option
           .setName("channel")
-          .setDescription("Target channel (defaults to current channel)")
-          .addChannelTypes(
-            ChannelType.GuildText,
-            ChannelType.PublicThread,
-            ChannelType.PrivateThread,
-            ChannelType.AnnouncementThread,
-          )
+          .setDescription("Target channel")
+          .addChannelTypes(...TARGET_CHANNEL_TYPES)
           .setRequired(false),
       )
       .addStringOption((option) =>
         option
           .setName("mode")
-          .setDescription("Mode name (default: default)")
-          .setRequired(false),
+          .setDescription("Mode name (`-` for the source default)")
+          .setRequired(false)
+          .setAutocomplete(true),
       )
       .addBooleanOption((option) =>
         option
           .setName("enabled")
           .setDescription("Whether the schedule is enabled")
           .setRequired(false),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("timezone")
+          .setDescription("IANA timezone (`-` for SCHEDULE_TIMEZONE)")
+          .setRequired(false),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("catch_up")
+          .setDescription("Runs missed while the bot was down")
+          .setRequired(false)
+          .addChoices(...CATCH_UP_POLICIES.map((policy) => ({ name: policy, value: policy }))),
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName("catch_up_limit")
+          .setDescription("Max missed runs replayed with catch_up=all")
+          .setMinValue(1)
+          .setMaxValue(100)
+          .setRequired(false),
       ),
   )
   .addSubcommand((subcommand) =>
@@ -74,7 +280,8 @@ export const data = new SlashCommandBuilder()
         option
           .setName("id")
           .setDescription("Schedule id or key")
-          .setRequired(true),
+          .setRequired(true)
+          .setAutocomplete(true),
       ),
   )
   .addSubcommand((subcommand) =>
@@ -85,7 +292,28 @@ export const data = new SlashCommandBuilder()
         option
           .setName("id")
           .setDescription("Schedule id or key")
-          .setRequired(true),
+          .setRequired(true)
+          .setAutocomplete(true),
+      ),
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("history")
+      .setDescription("Show recent runs of a schedule")
+      .addStringOption((option) =>
+        option
+          .setName("id")
+          .setDescription("Schedule id or key")
+          .setRequired(true)
+          .setAutocomplete(true),
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName("limit")
+          .setDescription("Number of runs (default 10)")
+          .setMinValue(1)
+          .setMaxValue(25)
+          .setRequired(false),
       ),
   )
   .addSubcommand((subcommand) =>
@@ -96,7 +324,8 @@ export const data = new SlashCommandBuilder()
         option
           .setName("id")
           .setDescription("Schedule id or key")
-          .setRequired(true),
+          .setRequired(true)
+          .setAutocomplete(true),
       ),
   );
 
@@ -126,7 +355,7 @@ export async function execute(
 
     const lines = items.map(
       (item) =>
-        `- \`${item.key}\` (${item.enabled ? "on" : "off"}) cron=\`${item.cron}\` tz=\`KST\` mode=\`${item.modeName}\` mode_id=\`${item.modeId || "context-default"}\` channel=<#${item.channelId}> source=\`${item.source}\``,
+        `- \`${item.key}\` (${item.enabled ? "on" : "off"})${formatFailureStreak(item)} ${item.kind}=\`${item.spec}\` tz=\`${item.timezone}\` next=${formatNextRun(item)} last=${item.lastFiredAt ? `<t:${Math.floor(item.lastFiredAt / 1000)}:R>` : "`never`"} catch_up=\`${item.catchUp}\` mode=\`${item.modeName}\` mode_id=\`${item.modeId || "context-default"}\` channel=<#${item.channelId}>${item.output === "channel" ? "" : ` output=\`${item.output}\``} source=\`${item.source}\``,
     );
     await interaction.reply({
       content: lines.join("\n").slice(0, 1900),
@@ -135,13 +364,13 @@ export async function execute(
     return;
   }
 
-  if (subcommand === "add") {
+  if (subcommand === "add" || subcommand === "once" || subcommand === "every" || subcommand === "after") {
     const id = interaction.options.getString("id", true).trim();
-    const cron = interaction.options.getString("cron", true).trim();
     const prompt = interaction.options.getString("prompt", true).trim();
     const modeId = interaction.options.getString("mode_id")?.trim() || undefined;
     const modeName = interaction.options.getString("mode")?.trim() || undefined;
     const enabled = interaction.options.getBoolean("enabled") ?? true;
+    const timezone = interaction.options.getString("timezone")?.trim() || undefined;
 
     const channel = interaction.options.getChannel("channel");
     const channelId = channel?.id || interaction.channelId;
@@ -155,12 +384,24 @@ export async function execute(
 
     const result = ctx.schedules.addSchedule({
       id,
-      cron,
+      cron: interaction.options.getString("cron") ?? undefined,
+      at: interaction.options.getString("at") ?? undefined,
+      every: interaction.options.getString("interval") ?? undefined,
+      anchor: interaction.options.getString("anchor") ?? undefined,
+      after: interaction.options.getString("upstream") ?? undefined,
+      afterStatus: interaction.options.getBoolean("only_on_success") ? "success" : undefined,
+      when: {
+        match: interaction.options.getString("match") ?? undefined,
+        unless: interaction.options.getString("unless") ?? undefined,
+      },
+      catchUp: (interaction.options.getString("catch_up") as CatchUpPolicy | null) ?? undefined,
+      catchUpLimit: interaction.options.getInteger("catch_up_limit") ?? undefined,
       channelId,
       prompt,
       modeId,
       modeName,
       enabled,
+      timezone,
     });
 
     await interaction.reply({
@@ -170,6 +411,65 @@ export async function execute(
     return;
   }
 
+  if (subcommand === "edit") {
+    const id = interaction.options.getString("id", true).trim();
+    const patch: EditScheduleInput = {
+      cron: interaction.options.getString("cron") ?? undefined,
+      at: interaction.options.getString("at") ?? undefined,
+      every: interaction.options.getString("interval") ?? undefined,
+      after: interaction.options.getString("after") ?? undefined,
+      anchor: interaction.options.getString("anchor") ?? undefined,
+      prompt: interaction.options.getString("prompt") ?? undefined,
+      channelId: interaction.options.getChannel("channel")?.id,
+      modeId: toClearable(interaction.options.getString("mode_id")),
+      modeName: toClearable(interaction.options.getString("mode")),
+      enabled: interaction.options.getBoolean("enabled") ?? undefined,
+      timezone: toClearable(interaction.options.getString("timezone")),
+      catchUp: (interaction.options.getString("catch_up") as CatchUpPolicy | null) ?? undefined,
+      catchUpLimit: interaction.options.getInteger("catch_up_limit") ?? undefined,
+    };
+
+    if (!interaction.options.getBoolean("edit_prompt")) {
+      const result = ctx.schedules.editSchedule(id, patch);
+      await interaction.reply({
+        content: formatMutationResult(result),
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    if (patch.prompt !== undefined) {
+      await interaction.reply({
+        content: "Use either `prompt` or `edit_prompt`, not both.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    // The other fields are applied now; the prompt follows when the form is submitted.
+    const hasOtherFields = Object.values(patch).some((value) => value !== undefined);
+    const result = hasOtherFields
+      ? ctx.schedules.editSchedule(id, patch)
+      : ctx.schedules.getSchedule(id);
+    if (!result.ok || !result.item) {
+      await interaction.reply({
+        content: formatMutationResult(result),
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+    if (result.item.prompt.length > MODAL_PROMPT_MAX_LENGTH) {
+      await interaction.reply({
+        content: `${hasOtherFields ? `${result.message}\n` : ""}The prompt is longer than ${MODAL_PROMPT_MAX_LENGTH} characters; edit \`${result.item.source}\` schedules.json directly.`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await interaction.showModal(buildPromptModal(result.item));
+    return;
+  }
+
   if (subcommand === "toggle") {
     const id = interaction.options.getString("id", true).trim();
     const result = ctx.schedules.toggleSchedule(id);
@@ -192,6 +492,30 @@ export async function execute(
     return;
   }
 
+  if (subcommand === "history") {
+    const id = interaction.options.getString("id", true).trim();
+    const limit = interaction.options.getInteger("limit") ?? 10;
+    const result = ctx.schedules.getHistory(id, limit);
+    if (!result.ok || !result.runs) {
+      await interaction.reply({
+        content: formatMutationResult(result),
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    const lines = [`**${result.message}**`];
+    if (result.runs.length === 0) {
+      lines.push("No runs recorded yet.");
+    }
+    lines.push(...result.runs.map(formatRun));
+    await interaction.reply({
+      content: lines.join("\n").slice(0, 1900),
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
   if (subcommand === "run") {
     const id = interaction.options.getString("id", true).trim();
     const result = await ctx.schedules.runScheduleNow(id);
@@ -204,6 +528,204 @@ export async function execute(
   }
 }
 
+export async function autocomplete(
+  interaction: AutocompleteInteraction,
+  ctx: BotContext,
+): Promise<void> {
+  if (interaction.user.id !== ctx.config.ownerId) {
+    await interaction.respond([]);
+    return;
+  }
+
+  const focused = interaction.options.getFocused(true);
+  const query = focused.value.trim().toLowerCase();
+  let choices: Array<{ name: string; value: string }> = [];
+
+  if (focused.name === "id" || focused.name === "upstream" || focused.name === "after") {
+    choices = ctx.schedules.listSchedules().map((item) => ({
+      name: `${item.key} · ${item.kind} ${item.spec}${item.enabled ? "" : " (off)"}`,
+      value: item.key,
+    }));
+  } else if (focused.name === "mode") {
+    choices = ctx.personas.listModeNames().map((name) => ({ name, value: name }));
+  } else if (focused.name === "mode_id") {
+    choices = (await listModeIds(ctx)).map((modeId) => ({ name: modeId, value: modeId }));
+  }
+
+  await interaction.respond(
+    choices
+      .filter((choice) => choice.value.toLowerCase().includes(query) || choice.name.toLowerCase().includes(query))
+      .slice(0, AUTOCOMPLETE_CHOICE_LIMIT)
+      .map((choice) => ({ name: choice.name.slice(0, 100), value: choice.value.slice(0, 100) })),
+  );
+}
+
+/** Handles the prompt form opened by `/schedule edit edit_prompt:true`. Returns false when the modal is not ours. */
+export async function handleScheduleModal(
+  interaction: ModalSubmitInteraction,
+  ctx: BotContext,
+): Promise<boolean> {
+  if (!interaction.customId.startsWith(PROMPT_MODAL_PREFIX)) {
+    return false;
+  }
+  if (interaction.user.id !== ctx.config.ownerId) {
+    await interaction.reply({
+      content: "Only the owner can manage schedules.",
+      flags: MessageFlags.Ephemeral,
+    });
+    return true;
+  }
+
+  const key = interaction.customId.slice(PROMPT_MODAL_PREFIX.length);
+  const prompt = interaction.fields.getTextInputValue(PROMPT_INPUT_ID);
+  const result = ctx.schedules.editSchedule(key, { prompt });
+  await interaction.reply({
+    content: formatMutationResult(result),
+    flags: MessageFlags.Ephemeral,
+  });
+  return true;
+}
+
+function buildPromptModal(item: ScheduleListItem): ModalBuilder {
+  const input = new TextInputBuilder()
+    .setCustomId(PROMPT_INPUT_ID)
+    .setLabel("Prompt")
+    .setStyle(TextInputStyle.Paragraph)
+    .setMaxLength(MODAL_PROMPT_MAX_LENGTH)
+    .setRequired(true)
+    .setValue(item.prompt);
+
+  return new ModalBuilder()
+    .setCustomId(`${PROMPT_MODAL_PREFIX}${item.key}`)
+    .setTitle(`Edit schedule: ${item.key}`.slice(0, 45))
+    .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(input));
+}
+
+/** Mecho modes plus ids already used by schedules, so suggestions work with mecho down. */
+async function listModeIds(ctx: BotContext): Promise<string[]> {
+  const ids = new Set<string>();
+  for (const item of ctx.schedules.listSchedules()) {
+    if (item.modeId) {
+      ids.add(item.modeId);
+    }
+  }
+
+  if (ctx.config.mechoEnabled) {
+    const mecho = new MechoClient({
+      ...ctx.config,
+      mechoTimeoutMs: Math.min(ctx.config.mechoTimeoutMs, AUTOCOMPLETE_MECHO_TIMEOUT_MS),
+    });
+    try {
+      for (const modeId of (await mecho.listModes()).modes) {
+        ids.add(modeId);
+      }
+    } catch (error: unknown) {
+      console.warn("[schedule] mode_id autocomplete could not reach mecho:", error);
+    }
+  }
+
+  return Array.from(ids).sort();
+}
+
+function toClearable(value: string | null): string | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  return value.trim() === CLEAR_VALUE ? "" : value;
+}
+
+/** Options shared by every subcommand that creates a schedule. */
+function addTargetOptions(subcommand: SlashCommandSubcommandBuilder): SlashCommandSubcommandBuilder {
+  return subcommand
+    .addStringOption((option) =>
+      option
+        .setName("mode_id")
+        .setDescription("Mecho mode id (optional; letters/numbers/_/-)")
+        .setRequired(false)
+        .setAutocomplete(true),
+    )
+    .addChannelOption((option) =>
+      option
+        .setName("channel")
+        .setDescription("Target channel (defaults to current channel)")
+        .addChannelTypes(...TARGET_CHANNEL_TYPES)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("mode")
+        .setDescription("Mode name (default: default)")
+        .setRequired(false)
+        .setAutocomplete(true),
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName("enabled")
+        .setDescription("Whether the schedule is enabled")
+        .setRequired(false),
+    );
+}
+
+/** Options for schedules fired by the clock. */
+function addTimingOptions(subcommand: SlashCommandSubcommandBuilder): SlashCommandSubcommandBuilder {
+  return addTargetOptions(subcommand)
+    .addStringOption((option) =>
+      option
+        .setName("timezone")
+        .setDescription("IANA timezone, e.g. America/New_York (default: SCHEDULE_TIMEZONE)")
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("catch_up")
+        .setDescription("Runs missed while the bot was down (default: once for `once`, else skip)")
+        .setRequired(false)
+        .addChoices(...CATCH_UP_POLICIES.map((policy) => ({ name: policy, value: policy }))),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("catch_up_limit")
+        .setDescription("Max missed runs replayed with catch_up=all (default: 5)")
+        .setMinValue(1)
+        .setMaxValue(100)
+        .setRequired(false),
+    );
+}
+
+function formatFailureStreak(item: ScheduleListItem): string {
+  return item.failureStreak > 0 ? ` ⚠️ failing x${item.failureStreak}` : "";
+}
+
+function formatRun(run: ScheduleRunRecord): string {
+  const status = run.success === null ? "⏳" : run.success ? "✅" : "❌";
+  const parts = [`${status} <t:${Math.floor((run.startedAt ?? run.queuedAt) / 1000)}:f>`];
+  if (run.trigger !== "schedule") {
+    parts.push(`(${run.trigger})`);
+  }
+  if (run.durationMs !== null && run.success !== null) {
+    parts.push(`${(run.durationMs / 1000).toFixed(1)}s`);
+  }
+  if (run.inputTokens !== null || run.outputTokens !== null) {
+    parts.push(`in ${run.inputTokens ?? 0} / out ${run.outputTokens ?? 0}`);
+  }
+  if (run.messageUrl) {
+    parts.push(`[message](${run.messageUrl})`);
+  }
+
+  const detail = run.success === false ? run.error : run.outputPreview;
+  const preview = detail ? ` — ${detail.replace(/\s+/g, " ").slice(0, 120)}` : "";
+  return `- ${parts.join(" ")}${preview}`;
+}
+
+/** Wall clock in the schedule's zone plus a Discord timestamp, which renders in the viewer's zone. */
+function formatNextRun(item: ScheduleListItem): string {
+  if (item.nextRunAt === null) {
+    return "`never`";
+  }
+  const unix = Math.floor(item.nextRunAt / 1000);
+  return `\`${formatWallClock(item.nextRunAt, item.timezone)}\` (<t:${unix}:f>)`;
+}
+
 function formatMutationResult(result: ScheduleMutationResult): string {
   if (result.ok) {
     return result.message;
@@ -34,10 +34,12 @@ export async function execute(
   // 2) 팀 파이프라인 취소
   const teamRun = ctx.team.getActiveRun(interaction.channelId, interaction.user.id);
   if (teamRun) {
+    const runningSteps = teamRun.steps.filter(
+      (step) => teamRun.stepStates[step.index]?.status === "running",
+    );
     ctx.team.cancelRun(teamRun.id);
-    const stepInfo = teamRun.steps[teamRun.currentStep];
-    const progress = stepInfo
-      ? `Step ${stepInfo.index + 1}/${teamRun.steps.length}`
+    const progress = runningSteps.length > 0
+      ? `Step ${runningSteps.map((step) => step.index + 1).join(", ")}/${teamRun.steps.length}`
       : "";
     lines.push(`Team 파이프라인을 중단했습니다. ${progress ? `(${progress}에서 중단)` : ""}`);
   }
@@ -0,0 +1,251 @@
+import { MessageFlags, type ButtonInteraction, type TextBasedChannel } from "discord.js";
+import type { BotContext } from "../bot.js";
+import { parseApprovalButtonId } from "../core/approval-manager.js";
+import { ENGINE_TYPES } from "../core/llm-runner.js";
+import type { DiscordAttachmentInfo, LastPromptSnapshot } from "../core/queue-manager.js";
+import { checkAccess } from "../utils/access-control.js";
+import { formatQueueStatus } from "../utils/formatter.js";
+import { parseTaskButtonId, type TaskButtonTarget } from "../utils/task-buttons.js";
+
+const CONTINUE_PROMPT = "계속 진행해줘.";
+
+/**
+ * Handle Stop / verbose / Retry / Continue / New session / Switch engine buttons
+ * attached to live and final responses. Returns false when the button is not ours.
+ */
+export async function handleTaskButton(
+  interaction: ButtonInteraction,
+  ctx: BotContext,
+): Promise<boolean> {
+  const target = parseTaskButtonId(interaction.customId);
+  if (!target) {
+    return false;
+  }
+
+  const access = checkAccess(ctx.config, interaction.user.id, interaction.channelId);
+  if (!access.allowed) {
+    await replyEphemeral(interaction, access.reason || "권한이 없습니다.");
+    return true;
+  }
+  if (interaction.user.id !== target.userId && interaction.user.id !== ctx.config.ownerId) {
+    await replyEphemeral(interaction, "본인 대화의 버튼만 사용할 수 있습니다.");
+    return true;
+  }
+
+  console.log(
+    `[button] action=${target.action} key=${target.taskKey} user=${interaction.user.id}`,
+  );
+
+  switch (target.action) {
+    case "stop":
+      await handleStop(interaction, ctx, target);
+      break;
+    case "verbose":
+      await handleVerboseToggle(interaction, ctx, target);
+      break;
+    case "retry":
+      await handleRetry(interaction, ctx, target);
+      break;
+    case "continue":
+      await enqueueFromButton(interaction, ctx, target, CONTINUE_PROMPT, ctx.queue.getLastPrompt(target.taskKey));
+      break;
+    case "new":
+      await handleNewSession(interaction, ctx, target);
+      break;
+    case "engine":
+      await handleSwitchEngine(interaction, ctx, target);
+      break;
+  }
+  return true;
+}
+
+/** Approve/deny buttons posted by ApprovalManager for risky tool calls. */
+export async function handleApprovalButton(
+  interaction: ButtonInteraction,
+  ctx: BotContext,
+): Promise<boolean> {
+  const target = parseApprovalButtonId(interaction.customId);
+  if (!target) {
+    return false;
+  }
+
+  const access = checkAccess(ctx.config, interaction.user.id, interaction.channelId);
+  if (!access.allowed) {
+    await replyEphemeral(interaction, access.reason || "권한이 없습니다.");
+    return true;
+  }
+
+  const outcome = ctx.approvals.resolveFromButton(
+    target.requestId,
+    target.decision,
+    interaction.user.id,
+  );
+  if (outcome === "forbidden") {
+    await replyEphemeral(interaction, "작업 요청자만 승인/거부할 수 있습니다.");
+    return true;
+  }
+  if (outcome === "not_found") {
+    await replyEphemeral(interaction, "이미 처리되었거나 만료된 승인 요청입니다.");
+    return true;
+  }
+
+  // The prompt message itself is edited by ApprovalManager; just acknowledge the click.
+  try {
+    await interaction.deferUpdate();
+  } catch (error: unknown) {
+    console.warn("[button] approval deferUpdate failed:", error);
+  }
+  return true;
+}
+
+async function handleStop(
+  interaction: ButtonInteraction,
+  ctx: BotContext,
+  target: TaskButtonTarget,
+): Promise<void> {
+  const result = ctx.queue.cancel(target.taskKey);
+  if (!result.cancelledRunning && result.removedPending === 0) {
+    await replyEphemeral(interaction, "중단할 작업이 없습니다.");
+    return;
+  }
+  await replyEphemeral(interaction, "중단 요청을 보냈습니다.");
+}
+
+async function handleVerboseToggle(
+  interaction: ButtonInteraction,
+  ctx: BotContext,
+  target: TaskButtonTarget,
+): Promise<void> {
+  if (!ctx.queue.hasTask(target.taskKey)) {
+    await replyEphemeral(interaction, "실행 중인 작업이 없습니다.");
+    return;
+  }
+
+  if (ctx.queue.isLiveUpdateEnabled(target.taskKey)) {
+    ctx.queue.disableLiveUpdates(target.taskKey);
+    await replyEphemeral(interaction, "이번 작업의 진행 표시를 일시정지했습니다.");
+    return;
+  }
+
+  const applied = await ctx.queue.enableLiveUpdates(target.taskKey);
+  await replyEphemeral(
+    interaction,
+    applied ? "이번 작업의 진행 표시를 다시 켰습니다." : "진행 표시를 켤 수 없습니다.",
+  );
+}
+
+async function handleRetry(
+  interaction: ButtonInteraction,
+  ctx: BotContext,
+  target: TaskButtonTarget,
+): Promise<void> {
+  const last = ctx.queue.getLastPrompt(target.taskKey);
+  if (!last) {
+    await replyEphemeral(
+      interaction,
+      "다시 시도할 요청을 찾지 못했습니다. (봇 재시작 전 응답에는 사용할 수 없습니다)",
+    );
+    return;
+  }
+  await enqueueFromButton(interaction, ctx, target, last.prompt, last, last.attachments);
+}
+
+async function handleNewSession(
+  interaction: ButtonInteraction,
+  ctx: BotContext,
+  target: TaskButtonTarget,
+): Promise<void> {
+  if (ctx.queue.hasTask(target.taskKey)) {
+    await replyEphemeral(interaction, "처리 중에는 세션을 초기화할 수 없습니다. 먼저 중단해주세요.");
+    return;
+  }
+
+  ctx.sessions.deleteSession(target.userId, target.contextId);
+  await replyEphemeral(interaction, "세션을 초기화했습니다. 다음 메시지부터 새 대화로 시작합니다.");
+}
+
+async function handleSwitchEngine(
+  interaction: ButtonInteraction,
+  ctx: BotContext,
+  target: TaskButtonTarget,
+): Promise<void> {
+  const current = ctx.engines.getEngine(target.userId, target.contextId);
+  // Cycle through the registered engines in declaration order.
+  const start = ENGINE_TYPES.indexOf(current);
+  const next = [...ENGINE_TYPES.slice(start + 1), ...ENGINE_TYPES.slice(0, start)].find(
+    (engine) => ctx.runners.has(engine),
+  );
+  if (!next) {
+    await replyEphemeral(
+      interaction,
+      "전환할 수 있는 다른 엔진이 없습니다. 봇 오너에게 활성화를 요청해주세요.",
+    );
+    return;
+  }
+
+  ctx.engines.setEngine(target.userId, target.contextId, next);
+  console.log(`[engine] set user=${target.userId} context=${target.contextId} engine=${next}`);
+  await replyEphemeral(interaction, `엔진(이 대화)을 \`${next}\`(으)로 설정했습니다.`);
+}
+
+async function enqueueFromButton(
+  interaction: ButtonInteraction,
+  ctx: BotContext,
+  target: TaskButtonTarget,
+  prompt: string,
+  last: LastPromptSnapshot | null,
+  attachments?: DiscordAttachmentInfo[],
+): Promise<void> {
+  const channel = interaction.channel as TextBasedChannel | null;
+  if (!channel) {
+    await replyEphemeral(interaction, "이 채널에서는 버튼으로 요청을 보낼 수 없습니다.");
+    return;
+  }
+
+  const { userId, contextId, taskKey } = target;
+  const engine = ctx.engines.getEngine(userId, contextId);
+  const effectiveEngine = ctx.runners.has(engine) ? engine : "claude";
+  const enqueueResult = ctx.queue.enqueue({
+    prompt,
+    sessionId: ctx.sessions.getSession(userId, contextId, effectiveEngine),
+    sessionUserId: userId,
+    // Stay in the mode the previous turn ran in instead of the context default.
+    mechoModeId: last?.mechoModeId,
+    model: ctx.models.getModel(userId, contextId, effectiveEngine),
+    taskKey,
+    respondTo: { type: "channel", channel },
+    createdAt: Date.now(),
+    engine: effectiveEngine,
+    attachments: attachments && attachments.length > 0 ? attachments : undefined,
+    modeName: last?.modeName,
+  });
+
+  if (!enqueueResult.accepted) {
+    await replyEphemeral(
+      interaction,
+      enqueueResult.reason === "duplicate"
+        ? "이 대화는 이미 처리 중입니다. 이전 응답이 끝난 뒤 다시 눌러주세요."
+        : enqueueResult.reason === "budget_exceeded"
+          ? enqueueResult.message || "사용 예산을 초과했습니다."
+          : `대기열이 가득 찼습니다 (${ctx.config.maxQueueSize}개). 잠시 후 다시 시도해주세요.`,
+    );
+    return;
+  }
+
+  await replyEphemeral(
+    interaction,
+    enqueueResult.position > 1 ? formatQueueStatus(enqueueResult.position) : "요청을 보냈습니다.",
+  );
+}
+
+async function replyEphemeral(interaction: ButtonInteraction, content: string): Promise<void> {
+  try {
+    if (interaction.deferred || interaction.replied) {
+      await interaction.followUp({ content, flags: MessageFlags.Ephemeral });
+      return;
+    }
+    await interaction.reply({ content, flags: MessageFlags.Ephemeral });
+  } catch (error: unknown) {
+    console.error("[button] failed to reply:", error);
+  }
+}
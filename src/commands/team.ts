@@ -1,14 +1,74 @@
-import { ChatInputCommandInteraction, MessageFlags, SlashCommandBuilder } from "discord.js";
+import {
+  ActionRowBuilder,
+  ButtonInteraction,
+  ChatInputCommandInteraction,
+  MessageFlags,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  SlashCommandBuilder,
+  StringSelectMenuInteraction,
+  TextInputBuilder,
+  TextInputStyle,
+} from "discord.js";
 import type { BotContext } from "../bot.js";
+import { ENGINE_TYPES, isEngineType } from "../core/llm-runner.js";
+import {
+  parseTeamComponentId,
+  type TeamRun,
+  type TeamStep,
+  type TeamStepPatch,
+} from "../core/team-manager.js";
+
+const STEP_MODAL_PREFIX = "team-step:";
+const STEP_MODAL_ACTIONS = ["edit", "insert", "retry"] as const;
+type StepModalAction = (typeof STEP_MODAL_ACTIONS)[number];
+const MODAL_TASK_MAX_LENGTH = 4000;
+
+const RUN_STATUS_ICONS: Record<TeamRun["status"], string> = {
+  planning: "📝",
+  awaiting_approval: "⏸️",
+  running: "🔄",
+  done: "✅",
+  failed: "❌",
+};
 
 export const data = new SlashCommandBuilder()
   .setName("team")
   .setDescription("멀티스텝 파이프라인을 실행합니다")
-  .addStringOption((opt) =>
-    opt
-      .setName("instruction")
-      .setDescription("자연어로 작업 지시 (모델, 모드, 작업 포함)")
-      .setRequired(true),
+  .addSubcommand((sub) =>
+    sub
+      .setName("start")
+      .setDescription("새 파이프라인을 계획하고 승인 후 실행합니다")
+      .addStringOption((opt) =>
+        opt
+          .setName("instruction")
+          .setDescription("자연어로 작업 지시 (모델, 모드, 작업 포함)")
+          .setRequired(true),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("resume")
+      .setDescription("실패했거나 재시작으로 중단된 파이프라인을 이어서 실행합니다")
+      .addStringOption((opt) =>
+        opt
+          .setName("run_id")
+          .setDescription("파이프라인 ID (/team list 참고)")
+          .setRequired(true),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("list")
+      .setDescription("최근 파이프라인 목록")
+      .addIntegerOption((opt) =>
+        opt
+          .setName("limit")
+          .setDescription("표시할 개수 (기본 10)")
+          .setMinValue(1)
+          .setMaxValue(25)
+          .setRequired(false),
+      ),
   );
 
 export async function execute(
@@ -23,6 +83,34 @@ export async function execute(
     return;
   }
 
+  const subcommand = interaction.options.getSubcommand();
+
+  if (subcommand === "list") {
+    const limit = interaction.options.getInteger("limit") ?? 10;
+    const runs = ctx.team.listRuns(limit);
+    const content = runs.length > 0
+      ? runs.map(formatRunLine).join("\n")
+      : "기록된 파이프라인이 없습니다.";
+    await interaction.reply({
+      content: content.slice(0, 1900),
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  if (subcommand === "resume") {
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    const runId = interaction.options.getString("run_id", true).trim();
+    try {
+      const run = await ctx.team.resumeRun(runId, ctx);
+      await interaction.editReply(`파이프라인을 재개했습니다: <#${run.threadId}>`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      await interaction.editReply(`파이프라인 재개 실패: ${message}`);
+    }
+    return;
+  }
+
   await interaction.deferReply();
 
   const instruction = interaction.options.getString("instruction", true);
@@ -40,3 +128,233 @@ export async function execute(
     await interaction.editReply(`파이프라인 생성 실패: ${message}`);
   }
 }
+
+function formatRunLine(run: TeamRun): string {
+  const done = run.stepStates.filter((state) => state.status === "done").length;
+  const thread = run.threadId ? ` <#${run.threadId}>` : "";
+  const prompt = run.originalPrompt.replace(/\s+/g, " ");
+  const preview = prompt.length > 60 ? `${prompt.slice(0, 60)}…` : prompt;
+  return `${RUN_STATUS_ICONS[run.status]} \`${run.id}\` ${done}/${run.steps.length} steps <t:${Math.floor(run.startedAt / 1000)}:R>${thread} — ${preview}`;
+}
+
+/**
+ * Handles the plan review controls (approve, cancel, edit / insert / remove a step) and the
+ * retry / skip / edit-and-retry buttons on a failed step. Returns false when the component is not ours.
+ */
+export async function handleTeamComponent(
+  interaction: ButtonInteraction | StringSelectMenuInteraction,
+  ctx: BotContext,
+): Promise<boolean> {
+  const target = parseTeamComponentId(interaction.customId);
+  if (!target) {
+    return false;
+  }
+
+  const run = ctx.team.getRun(target.runId);
+  if (!run) {
+    await replyEphemeral(interaction, "파이프라인을 찾을 수 없습니다.");
+    return true;
+  }
+  if (interaction.user.id !== run.userId) {
+    await replyEphemeral(interaction, "파이프라인 요청자만 조작할 수 있습니다.");
+    return true;
+  }
+
+  const selected = interaction.isStringSelectMenu() ? Number(interaction.values[0]) : null;
+  const stepIndex = target.stepIndex ?? selected;
+
+  try {
+    switch (target.action) {
+      case "approve": {
+        await interaction.deferUpdate();
+        const approved = await ctx.team.approveRun(run.id, ctx);
+        await interaction.editReply({
+          content: `승인되었습니다. 진행 상황: <#${approved.threadId}>`,
+          embeds: [ctx.team.buildPlanEmbed(approved)],
+          components: [],
+        });
+        break;
+      }
+      case "cancel":
+        ctx.team.cancelRun(run.id);
+        await interaction.update({
+          content: "플랜이 취소되었습니다.",
+          embeds: [ctx.team.buildPlanEmbed(run)],
+          components: [],
+        });
+        break;
+      case "edit":
+      case "editretry": {
+        const step = stepIndex === null ? undefined : run.steps[stepIndex];
+        if (!step) {
+          await replyEphemeral(interaction, "step을 찾을 수 없습니다.");
+          break;
+        }
+        await interaction.showModal(
+          buildStepModal(target.action === "edit" ? "edit" : "retry", run.id, step.index, step),
+        );
+        break;
+      }
+      case "insert":
+        await interaction.showModal(buildStepModal("insert", run.id, stepIndex ?? -1, null));
+        break;
+      case "remove": {
+        const updated = ctx.team.removeStep(run.id, stepIndex ?? -1);
+        await interaction.update({
+          embeds: [ctx.team.buildPlanEmbed(updated)],
+          components: ctx.team.buildReviewComponents(updated),
+        });
+        break;
+      }
+      case "retry":
+      case "skip": {
+        await interaction.deferUpdate();
+        const resumed = target.action === "retry"
+          ? await ctx.team.resumeRun(run.id, ctx)
+          : await ctx.team.skipStep(run.id, stepIndex ?? -1, ctx);
+        await closeFailurePrompt(interaction, resumed, target.action === "retry" ? "재시도합니다." : "건너뛰고 계속합니다.");
+        break;
+      }
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    await replyEphemeral(interaction, `처리 실패: ${message}`);
+  }
+  return true;
+}
+
+/** Handles the step form opened from the review or failure controls. Returns false when the modal is not ours. */
+export async function handleTeamModal(
+  interaction: ModalSubmitInteraction,
+  ctx: BotContext,
+): Promise<boolean> {
+  if (!interaction.customId.startsWith(STEP_MODAL_PREFIX)) {
+    return false;
+  }
+
+  const [action, runId, index] = interaction.customId.slice(STEP_MODAL_PREFIX.length).split(":");
+  const run = runId ? ctx.team.getRun(runId) : null;
+  if (!run || !STEP_MODAL_ACTIONS.includes(action as StepModalAction)) {
+    await replyEphemeral(interaction, "파이프라인을 찾을 수 없습니다.");
+    return true;
+  }
+  if (interaction.user.id !== run.userId) {
+    await replyEphemeral(interaction, "파이프라인 요청자만 조작할 수 있습니다.");
+    return true;
+  }
+
+  try {
+    const patch = readStepPatch(interaction, ctx);
+    const stepIndex = Number(index);
+    if (action === "retry") {
+      await interaction.deferUpdate();
+      ctx.team.editStep(run.id, stepIndex, patch);
+      const resumed = await ctx.team.resumeRun(run.id, ctx);
+      await closeFailurePrompt(interaction, resumed, "수정 후 재시도합니다.");
+      return true;
+    }
+
+    const updated = action === "edit"
+      ? ctx.team.editStep(run.id, stepIndex, patch)
+      : ctx.team.insertStep(run.id, stepIndex, patch);
+    const payload = {
+      embeds: [ctx.team.buildPlanEmbed(updated)],
+      components: ctx.team.buildReviewComponents(updated),
+    };
+    if (interaction.isFromMessage()) {
+      await interaction.update(payload);
+    } else {
+      await interaction.reply({ ...payload, flags: MessageFlags.Ephemeral });
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    await replyEphemeral(interaction, `처리 실패: ${message}`);
+  }
+  return true;
+}
+
+function buildStepModal(
+  action: StepModalAction,
+  runId: string,
+  stepIndex: number,
+  step: TeamStep | null,
+): ModalBuilder {
+  const input = (id: string, label: string, value: string | undefined, required: boolean): TextInputBuilder => {
+    const builder = new TextInputBuilder()
+      .setCustomId(id)
+      .setLabel(label)
+      .setStyle(id === "task" ? TextInputStyle.Paragraph : TextInputStyle.Short)
+      .setRequired(required);
+    if (id === "task") {
+      builder.setMaxLength(MODAL_TASK_MAX_LENGTH);
+    }
+    if (value) {
+      builder.setValue(value);
+    }
+    return builder;
+  };
+
+  const title = action === "insert"
+    ? stepIndex === -1 ? "맨 앞에 step 추가" : `Step ${stepIndex + 1} 뒤에 step 추가`
+    : `Step ${stepIndex + 1} ${action === "retry" ? "수정 후 재시도" : "수정"}`;
+
+  return new ModalBuilder()
+    .setCustomId(`${STEP_MODAL_PREFIX}${action}:${runId}:${stepIndex}`)
+    .setTitle(title.slice(0, 45))
+    .addComponents(
+      [
+        input("label", "이름", step?.label, true),
+        input("task", "작업 지시", step?.task, true),
+        input("model", "모델", step?.model, false),
+        input("mode", "모드", step?.modeName, false),
+        input("engine", `엔진 (${ENGINE_TYPES.join(" / ")})`, step?.engine ?? "claude", false),
+      ].map((component) => new ActionRowBuilder<TextInputBuilder>().addComponents(component)),
+    );
+}
+
+function readStepPatch(interaction: ModalSubmitInteraction, ctx: BotContext): TeamStepPatch {
+  const field = (id: string): string | undefined =>
+    interaction.fields.getTextInputValue(id).trim() || undefined;
+
+  const engine = field("engine");
+  if (engine !== undefined && (!isEngineType(engine) || !ctx.runners.has(engine))) {
+    throw new Error(`사용할 수 없는 엔진입니다: ${engine} (사용 가능: ${[...ctx.runners.keys()].join(", ")})`);
+  }
+  return {
+    label: field("label"),
+    task: field("task"),
+    // An empty model means the engine default, so clearing the field must reach the step.
+    model: field("model") ?? "",
+    modeName: field("mode"),
+    engine,
+  };
+}
+
+/** Drops the buttons from a step failure message once the user picked what to do. */
+async function closeFailurePrompt(
+  interaction: ButtonInteraction | StringSelectMenuInteraction | ModalSubmitInteraction,
+  run: TeamRun,
+  note: string,
+): Promise<void> {
+  const content = interaction.message?.content ?? "";
+  try {
+    await interaction.editReply({ content: `${content}\n→ ${note}`.slice(0, 2000), components: [] });
+  } catch (error: unknown) {
+    console.warn(`[team] failure prompt update failed run=${run.id}:`, error);
+  }
+}
+
+async function replyEphemeral(
+  interaction: ButtonInteraction | StringSelectMenuInteraction | ModalSubmitInteraction,
+  content: string,
+): Promise<void> {
+  try {
+    if (interaction.deferred || interaction.replied) {
+      await interaction.followUp({ content, flags: MessageFlags.Ephemeral });
+      return;
+    }
+    await interaction.reply({ content, flags: MessageFlags.Ephemeral });
+  } catch (error: unknown) {
+    console.error("[team] failed to reply:", error);
+  }
+}
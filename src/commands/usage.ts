@@ -0,0 +1,193 @@
+import {
+  ChatInputCommandInteraction,
+  MessageFlags,
+  SlashCommandBuilder,
+} from "discord.js";
+import type { BotContext } from "../bot.js";
+import type { UsageBreakdownRow, UsageGroupBy } from "../core/usage-ledger.js";
+import { checkAccess } from "../utils/access-control.js";
+
+const PERIOD_CHOICES = [
+  { name: "오늘", value: "today" },
+  { name: "최근 7일", value: "7d" },
+  { name: "최근 30일", value: "30d" },
+  { name: "전체", value: "all" },
+] as const;
+
+const GROUP_CHOICES: Array<{ name: string; value: UsageGroupBy }> = [
+  { name: "사용자별", value: "user" },
+  { name: "채널별", value: "channel" },
+  { name: "모델별", value: "model" },
+  { name: "일자별", value: "day" },
+  { name: "작업 종류별 (대화/팀/스케줄/하트비트)", value: "lane" },
+  { name: "엔진별", value: "engine" },
+];
+
+const GROUP_LABELS: Record<UsageGroupBy, string> = {
+  user: "사용자별",
+  channel: "채널별",
+  model: "모델별",
+  day: "일자별",
+  lane: "작업 종류별",
+  engine: "엔진별",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const data = new SlashCommandBuilder()
+  .setName("usage")
+  .setDescription("토큰 사용량과 예상 비용을 봅니다")
+  .addStringOption((option) =>
+    option
+      .setName("by")
+      .setDescription("집계 기준 (미지정 시 요약)")
+      .setRequired(false)
+      .addChoices(...GROUP_CHOICES),
+  )
+  .addStringOption((option) =>
+    option
+      .setName("period")
+      .setDescription("기간 (기본: 최근 7일)")
+      .setRequired(false)
+      .addChoices(...PERIOD_CHOICES),
+  )
+  .addUserOption((option) =>
+    option
+      .setName("user")
+      .setDescription("특정 사용자만 보기 (오너 전용)")
+      .setRequired(false),
+  );
+
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+  ctx: BotContext,
+): Promise<void> {
+  const access = checkAccess(ctx.config, interaction.user.id, interaction.channelId);
+  if (!access.allowed) {
+    await interaction.reply({
+      content: access.reason || "권한이 없습니다.",
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const ledger = ctx.usageLedger;
+  if (!ledger) {
+    await interaction.reply({
+      content: "사용량 기록이 꺼져 있습니다. (`USAGE_LEDGER_ENABLED=false`)",
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const isOwner = interaction.user.id === ctx.config.ownerId;
+  const requestedUser = interaction.options.getUser("user");
+  if (requestedUser && !isOwner && requestedUser.id !== interaction.user.id) {
+    await interaction.reply({
+      content: "다른 사용자의 사용량은 오너만 볼 수 있습니다.",
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  // Non-owners only ever see their own runs.
+  const userId = isOwner ? requestedUser?.id : interaction.user.id;
+  const period = interaction.options.getString("period") || "7d";
+  const since = resolveSince(period);
+  const groupBy = interaction.options.getString("by") as UsageGroupBy | null;
+
+  const totals = ledger.totals({ since, userId });
+  const periodLabel = PERIOD_CHOICES.find((choice) => choice.value === period)?.name || period;
+  const scopeLabel = userId ? `<@${userId}>` : "전체 사용자";
+  const lines: string[] = [
+    `**사용량** · ${periodLabel} · ${scopeLabel}`,
+    `합계: ${formatRow(totals)}`,
+  ];
+
+  if (totals.runs === 0) {
+    lines.push("", "기록된 실행이 없습니다.");
+  } else {
+    // Without `by`, show a compact overview: top models, lanes and (for owners) users.
+    const sections: Array<{ group: UsageGroupBy; limit: number }> = groupBy
+      ? [{ group: groupBy, limit: 15 }]
+      : [
+          { group: "model", limit: 5 },
+          { group: "lane", limit: 5 },
+          ...(isOwner && !userId ? [{ group: "user" as const, limit: 5 }] : []),
+        ];
+    for (const { group, limit } of sections) {
+      const rows = ledger.breakdown({ groupBy: group, since, userId, limit });
+      lines.push("", `**${GROUP_LABELS[group]}**`);
+      lines.push(...rows.map((row) => `- ${formatKey(row.key, group)}: ${formatRow(row)}`));
+    }
+  }
+
+  if (totals.unpricedRuns > 0) {
+    lines.push(
+      "",
+      `※ 가격표에 없는 모델 실행 ${totals.unpricedRuns}건은 비용에서 제외됨 (\`MODEL_PRICES\`)`,
+    );
+  }
+
+  await interaction.reply({
+    content: lines.join("\n").slice(0, 1900),
+    flags: MessageFlags.Ephemeral,
+    allowedMentions: { parse: [] },
+  });
+}
+
+function resolveSince(period: string): number | null {
+  const now = Date.now();
+  switch (period) {
+    case "today": {
+      const start = new Date(now);
+      start.setHours(0, 0, 0, 0);
+      return start.getTime();
+    }
+    case "30d":
+      return now - 30 * DAY_MS;
+    case "all":
+      return null;
+    default:
+      return now - 7 * DAY_MS;
+  }
+}
+
+function formatKey(key: string, groupBy: UsageGroupBy): string {
+  // Schedule/heartbeat runs use synthetic user ids (e.g. `schedule:<channelId>`).
+  if (groupBy === "user" && /^\d+$/.test(key)) {
+    return `<@${key}>`;
+  }
+  if (groupBy === "channel" && /^\d+$/.test(key)) {
+    return `<#${key}>`;
+  }
+  return `\`${key}\``;
+}
+
+function formatRow(row: UsageBreakdownRow): string {
+  const extras: string[] = [];
+  if (row.failures > 0) {
+    extras.push(`실패 ${row.failures}`);
+  }
+  if (row.retries > 0) {
+    extras.push(`재시도 ${row.retries}`);
+  }
+  const extraText = extras.length > 0 ? ` (${extras.join(", ")})` : "";
+  const cacheText = row.cacheReadTokens > 0 || row.cacheCreationTokens > 0
+    ? ` / cache ${formatTokens(row.cacheReadTokens + row.cacheCreationTokens)}`
+    : "";
+  return (
+    `${row.runs}회${extraText} · in ${formatTokens(row.inputTokens)} / out ${formatTokens(row.outputTokens)}` +
+    `${cacheText} · $${row.costUsd.toFixed(2)}`
+  );
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) {
+    return `${(count / 1_000_000).toFixed(1)}M`;
+  }
+  if (count >= 1_000) {
+    return `${(count / 1_000).toFixed(1)}k`;
+  }
+  return String(count);
+}
@@ -0,0 +1,436 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  type Message,
+  type TextBasedChannel,
+} from "discord.js";
+import type { Config } from "../utils/config.js";
+
+export const APPROVAL_MCP_SERVER_NAME = "rikoclaw_approval";
+export const APPROVAL_PERMISSION_TOOL = `mcp__${APPROVAL_MCP_SERVER_NAME}__approval_prompt`;
+
+const APPROVAL_MCP_SCRIPT = fileURLToPath(
+  new URL("../../scripts/approval-mcp-server.mjs", import.meta.url),
+);
+const APPROVAL_BUTTON_PREFIX = "approval";
+const FILE_WRITE_TOOLS = new Set(["Write", "Edit", "MultiEdit", "NotebookEdit"]);
+const MAX_BODY_BYTES = 256 * 1024;
+
+export type ApprovalDecision = "allow" | "deny";
+
+export interface ApprovalSessionInput {
+  taskKey: string;
+  /** Discord user allowed to answer prompts (the bot owner can always answer). */
+  ownerId: string;
+  /** Where prompts are posted; null means nobody is watching and the timeout default applies. */
+  channel: TextBasedChannel | null;
+  workspaceRoots: string[];
+}
+
+export interface ApprovalLogEntry {
+  ts: number;
+  taskKey: string;
+  toolName: string;
+  decision: ApprovalDecision;
+  /** Discord user id, or "policy" / "timeout" for automatic decisions. */
+  decidedBy: string;
+  inputPreview: string;
+}
+
+interface ApprovalSession extends ApprovalSessionInput {
+  token: string;
+}
+
+interface PendingApproval {
+  id: string;
+  session: ApprovalSession;
+  toolName: string;
+  timer: NodeJS.Timeout;
+  message: Message | null;
+  settle: (decision: ApprovalDecision, decidedBy: string) => void;
+}
+
+interface PermissionPromptResponse {
+  behavior: ApprovalDecision;
+  updatedInput?: unknown;
+  message?: string;
+}
+
+/**
+ * Hosts the local endpoint behind Claude's `--permission-prompt-tool` and turns
+ * risky tool calls into approve/deny prompts in Discord.
+ */
+export class ApprovalManager {
+  private server: http.Server | null = null;
+  private listening = false;
+  private readonly sessions = new Map<string, ApprovalSession>();
+  private readonly pending = new Map<string, PendingApproval>();
+  private readonly logPath: string;
+
+  constructor(private readonly config: Config) {
+    this.logPath = path.join(config.dataDir, "approval-log.jsonl");
+  }
+
+  get enabled(): boolean {
+    return this.config.toolApprovalEnabled && this.listening;
+  }
+
+  start(): void {
+    if (!this.config.toolApprovalEnabled) {
+      console.log("[approval] disabled via config");
+      return;
+    }
+
+    this.server = http.createServer((req, res) => {
+      void this.handleHttpRequest(req, res);
+    });
+    this.server.on("error", (error: unknown) => {
+      const err = error as { code?: string; message?: string };
+      console.error(
+        `[approval] server error on port ${this.config.toolApprovalPort}; tool approval disabled:`,
+        err.code || err.message || String(error),
+      );
+      this.listening = false;
+      try {
+        this.server?.close();
+      } catch {
+        // ignore (server may not be listening)
+      }
+      this.server = null;
+    });
+    this.server.listen(this.config.toolApprovalPort, "127.0.0.1", () => {
+      this.listening = true;
+      console.log(`[approval] listening on 127.0.0.1:${this.config.toolApprovalPort}`);
+    });
+  }
+
+  stop(): void {
+    for (const pending of this.pending.values()) {
+      pending.settle("deny", "shutdown");
+    }
+    this.sessions.clear();
+    this.listening = false;
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+  }
+
+  /** Register a run; the returned token is handed to the runner and identifies the task on callbacks. */
+  openSession(input: ApprovalSessionInput): string | null {
+    if (!this.enabled) {
+      return null;
+    }
+    const token = crypto.randomBytes(24).toString("hex");
+    this.sessions.set(token, { ...input, token });
+    return token;
+  }
+
+  closeSession(token: string): void {
+    this.sessions.delete(token);
+    for (const pending of this.pending.values()) {
+      if (pending.session.token === token) {
+        pending.settle("deny", "run-ended");
+      }
+    }
+  }
+
+  /** Apply a button click. Only the task owner or the bot owner may answer. */
+  resolveFromButton(
+    requestId: string,
+    decision: ApprovalDecision,
+    userId: string,
+  ): "ok" | "not_found" | "forbidden" {
+    const pending = this.pending.get(requestId);
+    if (!pending) {
+      return "not_found";
+    }
+    if (userId !== pending.session.ownerId && userId !== this.config.ownerId) {
+      return "forbidden";
+    }
+    pending.settle(decision, userId);
+    return "ok";
+  }
+
+  private async handleHttpRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    if (req.method !== "POST" || req.url !== "/approval") {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    let body: { token?: unknown; toolName?: unknown; input?: unknown };
+    try {
+      body = JSON.parse(await readBody(req)) as typeof body;
+    } catch {
+      res.writeHead(400);
+      res.end();
+      return;
+    }
+
+    const session = typeof body.token === "string" ? this.sessions.get(body.token) : undefined;
+    if (!session) {
+      res.writeHead(401, { "content-type": "application/json" });
+      res.end(JSON.stringify({ behavior: "deny", message: "Unknown or expired approval session." }));
+      return;
+    }
+
+    const toolName = typeof body.toolName === "string" ? body.toolName : "unknown";
+    const input = body.input ?? {};
+    const response = await this.decide(session, toolName, input);
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify(response));
+  }
+
+  private async decide(
+    session: ApprovalSession,
+    toolName: string,
+    input: unknown,
+  ): Promise<PermissionPromptResponse> {
+    const risky = isRiskyToolCall(
+      toolName,
+      input,
+      session.workspaceRoots,
+      this.config.toolApprovalTools,
+    );
+
+    let decision: ApprovalDecision;
+    let decidedBy: string;
+    if (!risky) {
+      decision = "allow";
+      decidedBy = "policy";
+    } else if (!session.channel) {
+      decision = this.config.toolApprovalTimeoutDecision;
+      decidedBy = "policy";
+    } else {
+      ({ decision, decidedBy } = await this.askInDiscord(session, toolName, input));
+    }
+
+    this.logDecision({
+      ts: Date.now(),
+      taskKey: session.taskKey,
+      toolName,
+      decision,
+      decidedBy,
+      inputPreview: previewInput(input),
+    });
+
+    if (decision === "allow") {
+      return { behavior: "allow", updatedInput: input };
+    }
+    return { behavior: "deny", message: describeDenial(decidedBy) };
+  }
+
+  private askInDiscord(
+    session: ApprovalSession,
+    toolName: string,
+    input: unknown,
+  ): Promise<{ decision: ApprovalDecision; decidedBy: string }> {
+    const id = crypto.randomBytes(8).toString("hex");
+    const timeoutMs = this.config.toolApprovalTimeoutSec * 1000;
+
+    return new Promise((resolve) => {
+      const pending: PendingApproval = {
+        id,
+        session,
+        toolName,
+        message: null,
+        timer: setTimeout(() => {
+          pending.settle(this.config.toolApprovalTimeoutDecision, "timeout");
+        }, timeoutMs),
+        settle: (decision, decidedBy) => {
+          if (!this.pending.delete(id)) {
+            return;
+          }
+          clearTimeout(pending.timer);
+          void this.markPromptResolved(pending, decision, decidedBy);
+          resolve({ decision, decidedBy });
+        },
+      };
+      pending.timer.unref?.();
+      this.pending.set(id, pending);
+      void this.postPrompt(pending, input);
+    });
+  }
+
+  private async postPrompt(pending: PendingApproval, input: unknown): Promise<void> {
+    const channel = pending.session.channel as {
+      send?: (options: unknown) => Promise<unknown>;
+    } | null;
+    if (!channel || typeof channel.send !== "function") {
+      pending.settle(this.config.toolApprovalTimeoutDecision, "policy");
+      return;
+    }
+
+    const timeoutSec = this.config.toolApprovalTimeoutSec;
+    const fallback = this.config.toolApprovalTimeoutDecision === "allow" ? "승인" : "거부";
+    const content = [
+      `🔐 <@${pending.session.ownerId}> 도구 실행 승인이 필요합니다.`,
+      `도구: \`${pending.toolName}\``,
+      "```",
+      previewInput(input, 1200).replace(/```/g, "ˋˋˋ"),
+      "```",
+      `${timeoutSec}초 안에 응답이 없으면 자동 ${fallback}됩니다.`,
+    ].join("\n");
+
+    try {
+      pending.message = (await channel.send.call(pending.session.channel, {
+        content,
+        components: [buildApprovalButtons(pending.id)],
+      })) as Message;
+    } catch (error: unknown) {
+      console.error(`[approval] failed to post prompt key=${pending.session.taskKey}:`, error);
+      pending.settle(this.config.toolApprovalTimeoutDecision, "policy");
+    }
+  }
+
+  private async markPromptResolved(
+    pending: PendingApproval,
+    decision: ApprovalDecision,
+    decidedBy: string,
+  ): Promise<void> {
+    if (!pending.message) {
+      return;
+    }
+    const verdict = decision === "allow" ? "✅ 승인됨" : "⛔ 거부됨";
+    const who = /^\d+$/.test(decidedBy) ? `<@${decidedBy}>` : decidedBy;
+    try {
+      await pending.message.edit({
+        content: `${verdict} · \`${pending.toolName}\` (${who})`,
+        components: [],
+      });
+    } catch (error: unknown) {
+      console.warn("[approval] failed to update prompt message:", error);
+    }
+  }
+
+  private logDecision(entry: ApprovalLogEntry): void {
+    console.log(
+      `[approval] key=${entry.taskKey} tool=${entry.toolName} decision=${entry.decision} by=${entry.decidedBy}`,
+    );
+    try {
+      fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+      fs.appendFileSync(this.logPath, `${JSON.stringify(entry)}\n`, "utf8");
+    } catch (error: unknown) {
+      console.warn("[approval] failed to append log:", error);
+    }
+  }
+}
+
+/** `--mcp-config` JSON that points Claude at the bundled permission-prompt MCP server. */
+export function buildApprovalMcpConfig(port: number, token: string): string {
+  return JSON.stringify({
+    mcpServers: {
+      [APPROVAL_MCP_SERVER_NAME]: {
+        command: process.execPath,
+        args: [APPROVAL_MCP_SCRIPT],
+        env: {
+          RIKOCLAW_APPROVAL_URL: `http://127.0.0.1:${port}/approval`,
+          RIKOCLAW_APPROVAL_TOKEN: token,
+        },
+      },
+    },
+  });
+}
+
+export function isRiskyToolCall(
+  toolName: string,
+  input: unknown,
+  workspaceRoots: string[],
+  alwaysAskTools: string[],
+): boolean {
+  if (alwaysAskTools.includes(toolName)) {
+    return true;
+  }
+  if (!FILE_WRITE_TOOLS.has(toolName)) {
+    return false;
+  }
+
+  const record = typeof input === "object" && input !== null ? (input as Record<string, unknown>) : {};
+  const target = [record.file_path, record.notebook_path, record.path].find(
+    (value): value is string => typeof value === "string" && value.trim().length > 0,
+  );
+  // A relative path would resolve against the CLI's cwd, which is the bot's own checkout.
+  if (!target || !path.isAbsolute(target)) {
+    return true;
+  }
+  return !workspaceRoots.some((root) => isInsideDir(target, root));
+}
+
+export function parseApprovalButtonId(
+  customId: string,
+): { decision: ApprovalDecision; requestId: string } | null {
+  const [prefix, decision, requestId] = customId.split(":");
+  if (prefix !== APPROVAL_BUTTON_PREFIX || !requestId) {
+    return null;
+  }
+  if (decision !== "allow" && decision !== "deny") {
+    return null;
+  }
+  return { decision, requestId };
+}
+
+function buildApprovalButtons(requestId: string): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`${APPROVAL_BUTTON_PREFIX}:allow:${requestId}`)
+      .setLabel("승인")
+      .setStyle(ButtonStyle.Success),
+    new ButtonBuilder()
+      .setCustomId(`${APPROVAL_BUTTON_PREFIX}:deny:${requestId}`)
+      .setLabel("거부")
+      .setStyle(ButtonStyle.Danger),
+  );
+}
+
+function describeDenial(decidedBy: string): string {
+  if (decidedBy === "timeout") {
+    return "Tool call was not approved in time.";
+  }
+  if (/^\d+$/.test(decidedBy)) {
+    return "Tool call was denied by the Discord operator.";
+  }
+  return "Tool call was denied by the bot's approval policy (no operator available).";
+}
+
+function isInsideDir(target: string, root: string): boolean {
+  const relative = path.relative(path.resolve(root), path.resolve(target));
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+function previewInput(input: unknown, maxChars = 300): string {
+  let text: string;
+  try {
+    text = typeof input === "string" ? input : JSON.stringify(input, null, 2);
+  } catch {
+    text = String(input);
+  }
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("approval request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
@@ -0,0 +1,184 @@
+import type { BudgetRule, Config } from "../utils/config.js";
+import type { EngineType } from "./llm-runner.js";
+import type { ModelManager } from "./model-manager.js";
+import type { UsageLedger, UsageQuery } from "./usage-ledger.js";
+
+/** What the queue knows about a task when deciding whether it may run. */
+export interface BudgetSubject {
+  taskKey: string;
+  userId: string;
+  channelId: string | null;
+  /** Effective model ("" when the engine picks its own default). */
+  model: string;
+  engine: EngineType;
+}
+
+export interface BudgetStatus {
+  rule: BudgetRule;
+  label: string;
+  spent: number;
+  ratio: number;
+}
+
+export type BudgetDecision =
+  | { action: "allow" }
+  | { action: "downgrade"; model: string; notice: string }
+  | { action: "reject"; message: string };
+
+type LedgerFilter = Pick<UsageQuery, "userId" | "channelId" | "taskKeyPrefix">;
+
+const SCHEDULE_KEY_PREFIX = "schedule:";
+
+/**
+ * Daily/monthly token or cost caps from `BUDGETS`, measured against the usage ledger.
+ * The owner is only ever checked against `owner=` rules, so they are exempt by default.
+ */
+export class BudgetManager {
+  constructor(
+    private readonly config: Config,
+    private readonly ledger: UsageLedger,
+    private readonly models: ModelManager,
+  ) {}
+
+  get enabled(): boolean {
+    return this.config.budgets.length > 0;
+  }
+
+  evaluate(subject: BudgetSubject, now = Date.now()): BudgetDecision {
+    const statuses = this.status(subject, now);
+    if (statuses.length === 0) {
+      return { action: "allow" };
+    }
+
+    const worst = statuses.reduce((a, b) => (b.ratio > a.ratio ? b : a));
+    if (worst.ratio >= 1) {
+      return {
+        action: "reject",
+        message:
+          `⛔ ${worst.label} 한도를 모두 사용했습니다 ` +
+          `(${formatAmount(worst.spent, worst.rule)} / ${formatAmount(worst.rule.limit, worst.rule)}). ` +
+          (worst.rule.period === "daily"
+            ? "내일 0시에 초기화됩니다."
+            : "다음 달 1일에 초기화됩니다."),
+      };
+    }
+
+    const threshold = this.config.budgetDowngradeThreshold;
+    if (worst.ratio < threshold) {
+      return { action: "allow" };
+    }
+
+    const fallbacks = this.models.fallbacksFor(subject.model, subject.engine);
+    if (fallbacks.length === 0) {
+      return { action: "allow" };
+    }
+
+    // Spread the remaining headroom evenly over the chain: the closer to the cap, the cheaper.
+    const band = 1 - threshold;
+    const position = band > 0 ? Math.floor(((worst.ratio - threshold) / band) * fallbacks.length) : 0;
+    const model = fallbacks[Math.min(position, fallbacks.length - 1)]!;
+    return {
+      action: "downgrade",
+      model,
+      notice:
+        `💸 ${worst.label} ${Math.round(worst.ratio * 100)}% 사용 — ` +
+        `모델을 \`${subject.model || "기본 모델"}\` → \`${model}\`(으)로 낮춰 실행했습니다.`,
+    };
+  }
+
+  /** Spend against every rule that applies to the subject. */
+  status(subject: BudgetSubject, now = Date.now()): BudgetStatus[] {
+    const statuses: BudgetStatus[] = [];
+    for (const rule of this.config.budgets) {
+      const filter = this.filterFor(rule, subject);
+      if (!filter) {
+        continue;
+      }
+      const totals = this.ledger.totals({ since: periodStart(rule.period, now), ...filter });
+      const spent = rule.unit === "usd" ? totals.costUsd : totals.inputTokens + totals.outputTokens;
+      statuses.push({ rule, label: describeRule(rule, subject), spent, ratio: spent / rule.limit });
+    }
+    return statuses;
+  }
+
+  private filterFor(rule: BudgetRule, subject: BudgetSubject): LedgerFilter | null {
+    const isOwner = subject.userId === this.config.ownerId;
+    if (rule.scope === "owner") {
+      return isOwner ? { userId: this.config.ownerId } : null;
+    }
+    if (isOwner) {
+      return null;
+    }
+
+    switch (rule.scope) {
+      case "user":
+        // Schedules, heartbeats and team steps run under synthetic ids; only humans have user budgets.
+        if (!/^\d+$/.test(subject.userId) || !matchesTarget(rule, subject.userId)) {
+          return null;
+        }
+        return { userId: subject.userId };
+      case "channel":
+        if (!subject.channelId || !matchesTarget(rule, subject.channelId)) {
+          return null;
+        }
+        return { channelId: subject.channelId };
+      case "schedule": {
+        const scheduleKey = extractScheduleKey(subject.taskKey);
+        if (!scheduleKey || !matchesTarget(rule, scheduleKey)) {
+          return null;
+        }
+        return { taskKeyPrefix: `${SCHEDULE_KEY_PREFIX}${scheduleKey}:` };
+      }
+    }
+  }
+}
+
+function matchesTarget(rule: BudgetRule, value: string): boolean {
+  return rule.target === "*" || rule.target === value;
+}
+
+/** `schedule:<key>:<channelId>` → `<key>`. */
+function extractScheduleKey(taskKey: string): string | null {
+  if (!taskKey.startsWith(SCHEDULE_KEY_PREFIX)) {
+    return null;
+  }
+  const rest = taskKey.slice(SCHEDULE_KEY_PREFIX.length);
+  const separator = rest.lastIndexOf(":");
+  return separator > 0 ? rest.slice(0, separator) : null;
+}
+
+function periodStart(period: BudgetRule["period"], now: number): number {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  if (period === "monthly") {
+    start.setDate(1);
+  }
+  return start.getTime();
+}
+
+function describeRule(rule: BudgetRule, subject: BudgetSubject): string {
+  const period = rule.period === "daily" ? "일일" : "월간";
+  switch (rule.scope) {
+    case "owner":
+      return `오너 ${period} 예산`;
+    case "user":
+      return `사용자 ${period} 예산`;
+    case "channel":
+      return `채널 ${period} 예산`;
+    case "schedule":
+      return `스케줄 \`${extractScheduleKey(subject.taskKey)}\` ${period} 예산`;
+  }
+}
+
+function formatAmount(value: number, rule: BudgetRule): string {
+  if (rule.unit === "usd") {
+    return `$${value.toFixed(2)}`;
+  }
+  if (value >= 1_000_000) {
+    return `${(value / 1_000_000).toFixed(1)}M 토큰`;
+  }
+  if (value >= 1_000) {
+    return `${(value / 1_000).toFixed(1)}k 토큰`;
+  }
+  return `${Math.round(value)} 토큰`;
+}
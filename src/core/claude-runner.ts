@@ -1,5 +1,6 @@
 import { spawn } from "node:child_process";
 import type { Config } from "../utils/config.js";
+import { APPROVAL_PERMISSION_TOOL, buildApprovalMcpConfig } from "./approval-manager.js";
 import type { EngineType, LLMRunner, RunEvent, RunOptions, RunResult, UsageInfo } from "./llm-runner.js";
 
 export type { RunOptions };
@@ -74,16 +75,26 @@ export class ClaudeRunner implements LLMRunner {
       args.push("--verbose", "--include-partial-messages");
     }
 
-    if (this.config.claudeDangerouslySkipPermissions) {
+    if (options.approvalToken) {
+      // Approval mode: risky tool calls go through the bot instead of being skipped wholesale.
+      args.push(
+        "--mcp-config",
+        buildApprovalMcpConfig(this.config.toolApprovalPort, options.approvalToken),
+        "--permission-prompt-tool",
+        APPROVAL_PERMISSION_TOOL,
+      );
+    } else if (this.config.claudeDangerouslySkipPermissions) {
       args.push("--dangerously-skip-permissions");
     }
 
-    if (this.config.claudePermissionMode) {
-      args.push("--permission-mode", this.config.claudePermissionMode);
+    const permissionMode = this.config.claudePermissionMode;
+    if (permissionMode && !(options.approvalToken && permissionMode === "bypassPermissions")) {
+      args.push("--permission-mode", permissionMode);
     }
 
-    if (this.config.claudeAddDirs.length > 0) {
-      args.push("--add-dir", ...this.config.claudeAddDirs);
+    const addDirs = [...this.config.claudeAddDirs, ...(options.addDirs ?? [])];
+    if (addDirs.length > 0) {
+      args.push("--add-dir", ...addDirs);
     }
 
     const selectedMaxTurns =
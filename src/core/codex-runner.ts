@@ -29,14 +29,18 @@ export class CodexRunner implements LLMRunner {
 
   // Discord bot runs non-interactively; configure Codex CLI to run with full permissions so
   // it can actually write files / run installs without getting stuck on approval prompts.
-  private readonly sandboxMode = "danger-full-access";
+  // `codex exec` has no prompt hook, so tool approval mode falls back to the workspace sandbox.
+  private readonly sandboxMode: string;
   private readonly approvalPolicy = "never";
-  private readonly bypassApprovalsAndSandbox = true;
+  private readonly bypassApprovalsAndSandbox: boolean;
 
   private activeRunId = 0;
   private activeAbort: (() => void) | null = null;
 
-  constructor(private readonly config: Config) {}
+  constructor(private readonly config: Config) {
+    this.sandboxMode = config.toolApprovalEnabled ? "workspace-write" : "danger-full-access";
+    this.bypassApprovalsAndSandbox = !config.toolApprovalEnabled;
+  }
 
   cancelCurrentRun(): boolean {
     const abort = this.activeAbort;
@@ -82,6 +86,13 @@ export class CodexRunner implements LLMRunner {
       args.push("--search");
     }
 
+    // The workspace sandbox only writes under the cwd unless extra dirs are granted.
+    if (this.sandboxMode === "workspace-write") {
+      for (const dir of options.addDirs ?? []) {
+        args.push("--add-dir", dir);
+      }
+    }
+
     args.push("exec");
 
     // Resume an existing session if a thread_id is available.
@@ -1,7 +1,7 @@
 import fs from "node:fs";
 import path from "node:path";
 import type { Config } from "../utils/config.js";
-import type { EngineType } from "./llm-runner.js";
+import { isEngineType, type EngineType } from "./llm-runner.js";
 
 interface EngineOverridesFile {
   overrides?: Record<string, string>;
@@ -54,11 +54,11 @@ export class EngineManager {
       const entries = Object.entries(parsed.overrides || {});
       for (const [key, value] of entries) {
         const normalizedKey = this.normalizeKey(key);
-        const cleanValue = (value || "").trim() as EngineType;
+        const cleanValue = (value || "").trim();
         if (!normalizedKey || !cleanValue) {
           continue;
         }
-        if (cleanValue === "claude" || cleanValue === "codex") {
+        if (isEngineType(cleanValue)) {
           this.overrides.set(normalizedKey, cleanValue);
         }
       }
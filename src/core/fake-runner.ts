@@ -0,0 +1,267 @@
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  EngineType,
+  LLMRunner,
+  RunEvent,
+  RunOptions,
+  RunResult,
+  UsageInfo,
+} from "./llm-runner.js";
+
+/** Canned failures worded so retry-policy.ts classifies them like the real CLIs. */
+export type FakeFailure = "timeout" | "max_turns" | "session_resume" | "transient" | "cancelled";
+
+export interface FakeTurn {
+  /** Regex (case-insensitive) tested against the prompt; omitted = matches any prompt. */
+  match?: string;
+  /** Only serve this turn to the given engine. */
+  engine?: EngineType;
+  /** Keep the turn after it is served (useful as a catch-all reply). */
+  repeat?: boolean;
+  events?: RunEvent[];
+  /** Pause between streamed events. */
+  eventDelayMs?: number;
+  /** Pause before the result is returned; cancellable via the abort handle. */
+  delayMs?: number;
+  /** Final text; defaults to the concatenated `assistant_delta` events. */
+  text?: string;
+  /** Custom error text (success=false). */
+  error?: string;
+  fail?: FakeFailure;
+  /** Session id to report; defaults to the resumed id or a generated `fake-<n>`. */
+  sessionId?: string | null;
+  usage?: Partial<UsageInfo>;
+  /** Files written into the turn output dir before the result is returned. */
+  files?: Array<{ name: string; content: string }>;
+}
+
+export interface FakeScriptFile {
+  supportsMaxTurnsRetry?: boolean;
+  supportsSessionResume?: boolean;
+  turns: FakeTurn[];
+}
+
+/** Options recorded for each run (callbacks stripped) so tests can assert on them. */
+export type FakeRunCall = Omit<RunOptions, "onEvent" | "onAbortReady"> & {
+  engine: EngineType;
+};
+
+const FAILURE_ERRORS: Record<FakeFailure, string> = {
+  timeout: "응답 시간 초과 (fake)",
+  max_turns: "error_max_turns: 내부 작업 턴 제한(max_turns)에 도달했습니다.",
+  session_resume: "Failed to resume session: session not found",
+  transient: 'API Error: 500 {"type":"error","error":{"type":"api_error","message":"Internal server error"}}',
+  cancelled: "요청이 중단되었습니다.",
+};
+
+/**
+ * Shared, consumable turn list. Every FakeRunner built from the same script draws from it,
+ * so a fixture can describe a whole conversation across engines, retries and team steps.
+ */
+export class FakeScript {
+  readonly supportsMaxTurnsRetry: boolean;
+  readonly supportsSessionResume: boolean;
+  readonly calls: FakeRunCall[] = [];
+  private readonly turns: FakeTurn[];
+  private sessionSequence = 0;
+
+  constructor(file: FakeScriptFile) {
+    if (!file || !Array.isArray(file.turns)) {
+      throw new Error("Fake runner fixture must contain a `turns` array.");
+    }
+    this.supportsMaxTurnsRetry = file.supportsMaxTurnsRetry ?? true;
+    this.supportsSessionResume = file.supportsSessionResume ?? true;
+    this.turns = [...file.turns];
+  }
+
+  static fromFile(filePath: string): FakeScript {
+    const raw = fs.readFileSync(filePath, "utf8");
+    return new FakeScript(JSON.parse(raw) as FakeScriptFile);
+  }
+
+  get remaining(): number {
+    return this.turns.filter((turn) => !turn.repeat).length;
+  }
+
+  take(engine: EngineType, prompt: string): FakeTurn | null {
+    const index = this.turns.findIndex(
+      (turn) =>
+        (!turn.engine || turn.engine === engine) &&
+        (!turn.match || new RegExp(turn.match, "i").test(prompt)),
+    );
+    if (index < 0) {
+      return null;
+    }
+
+    const turn = this.turns[index]!;
+    if (!turn.repeat) {
+      this.turns.splice(index, 1);
+    }
+    return turn;
+  }
+
+  nextSessionId(): string {
+    this.sessionSequence += 1;
+    return `fake-${this.sessionSequence}`;
+  }
+}
+
+/** Offline LLMRunner that replays scripted events and results from a FakeScript. */
+export class FakeRunner implements LLMRunner {
+  readonly supportsMaxTurnsRetry: boolean;
+  readonly supportsSessionResume: boolean;
+
+  private activeAbort: (() => void) | null = null;
+
+  constructor(
+    readonly engineName: EngineType,
+    private readonly script: FakeScript,
+  ) {
+    this.supportsMaxTurnsRetry = script.supportsMaxTurnsRetry;
+    this.supportsSessionResume = script.supportsSessionResume;
+  }
+
+  cancelCurrentRun(): boolean {
+    const abort = this.activeAbort;
+    if (!abort) {
+      return false;
+    }
+
+    abort();
+    return true;
+  }
+
+  async run(options: RunOptions): Promise<RunResult> {
+    const startTime = Date.now();
+    const { onEvent, onAbortReady, ...recorded } = options;
+    this.script.calls.push({ ...recorded, engine: this.engineName });
+
+    const turn = this.script.take(this.engineName, options.prompt);
+    console.log(
+      `[fake] run engine=${this.engineName} resume=${options.sessionId ? "yes" : "no"} matched=${turn ? "yes" : "no"}`,
+    );
+    if (!turn) {
+      return {
+        success: false,
+        text: "",
+        sessionId: null,
+        error: "FakeRunner: 프롬프트에 맞는 스크립트 턴이 없습니다.",
+        durationMs: 0,
+        isTimeout: false,
+        usage: null,
+      };
+    }
+
+    let cancelled = false;
+    let wake: (() => void) | null = null;
+    const abort = (): void => {
+      cancelled = true;
+      wake?.();
+    };
+    this.activeAbort = abort;
+    onAbortReady?.(abort);
+
+    const wait = async (ms: number | undefined): Promise<void> => {
+      if (!ms || ms <= 0 || cancelled) {
+        return;
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, ms);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = null;
+    };
+
+    try {
+      let streamed = "";
+      for (const event of turn.events || []) {
+        await wait(turn.eventDelayMs);
+        if (cancelled) {
+          break;
+        }
+        if (event.type === "assistant_delta") {
+          streamed += event.text;
+        }
+        onEvent?.(event);
+      }
+      await wait(turn.delayMs);
+
+      const durationMs = Date.now() - startTime;
+      if (cancelled || turn.fail === "cancelled") {
+        return this.failure(FAILURE_ERRORS.cancelled, durationMs, false);
+      }
+      if (turn.fail) {
+        return this.failure(FAILURE_ERRORS[turn.fail], durationMs, turn.fail === "timeout");
+      }
+
+      this.writeFiles(turn, options.outputDir);
+      const text = turn.text ?? streamed;
+      const sessionId =
+        turn.sessionId !== undefined
+          ? turn.sessionId
+          : options.sessionId || this.script.nextSessionId();
+      return {
+        success: !turn.error,
+        text,
+        sessionId,
+        error: turn.error ?? null,
+        durationMs,
+        isTimeout: false,
+        usage: turn.usage ? toUsageInfo(turn.usage) : null,
+      };
+    } finally {
+      if (this.activeAbort === abort) {
+        this.activeAbort = null;
+      }
+    }
+  }
+
+  private failure(error: string, durationMs: number, isTimeout: boolean): RunResult {
+    return {
+      success: false,
+      text: "",
+      sessionId: null,
+      error,
+      durationMs,
+      isTimeout,
+      usage: null,
+    };
+  }
+
+  private writeFiles(turn: FakeTurn, outputDir: string | undefined): void {
+    if (!turn.files || turn.files.length === 0) {
+      return;
+    }
+    if (!outputDir) {
+      console.warn("[fake] turn has files but the run has no output dir; skipping");
+      return;
+    }
+
+    for (const file of turn.files) {
+      // Keep fixtures from writing outside the turn workspace.
+      const target = path.resolve(outputDir, file.name);
+      if (!target.startsWith(path.resolve(outputDir) + path.sep)) {
+        console.warn(`[fake] refusing to write outside output dir: ${file.name}`);
+        continue;
+      }
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, file.content, "utf8");
+    }
+  }
+}
+
+function toUsageInfo(usage: Partial<UsageInfo>): UsageInfo {
+  const inputTokens = usage.inputTokens ?? 0;
+  return {
+    inputTokens,
+    cacheCreationInputTokens: usage.cacheCreationInputTokens ?? 0,
+    cacheReadInputTokens: usage.cacheReadInputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+    contextWindow: usage.contextWindow ?? null,
+    totalContextTokens: usage.totalContextTokens ?? inputTokens,
+  };
+}
@@ -0,0 +1,163 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type { HeartbeatEvent, HeartbeatStatus } from "./heartbeat-manager.js";
+
+export interface HeartbeatEventRecord extends HeartbeatEvent {
+  id: number;
+  modeName: string;
+  /** 1-based run number of the mode; survives pruning of older rows. */
+  runNo: number;
+  channelId: string | null;
+  messageIds: string[];
+  messageUrl: string | null;
+}
+
+interface EventRow {
+  id: number;
+  mode_name: string;
+  run_no: number;
+  ts: number;
+  status: string;
+  duration_ms: number | null;
+  preview: string | null;
+  channel_id: string | null;
+  message_ids: string | null;
+  message_url: string | null;
+}
+
+const PREVIEW_LIMIT = 300;
+// Events per mode kept in the table; older rows are pruned on insert.
+const HISTORY_LIMIT = 500;
+
+/** Heartbeat events and the content hashes of delivered alerts, stored next to the sessions table. */
+export class HeartbeatHistory {
+  private readonly db: Database.Database;
+  private readonly insertStmt: Database.Statement;
+  private readonly pruneStmt: Database.Statement;
+  private readonly addMessageStmt: Database.Statement;
+  private readonly listStmt: Database.Statement;
+  private readonly listAllStmt: Database.Statement;
+  private readonly deliveredStmt: Database.Statement;
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 3000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS heartbeat_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        mode_name TEXT NOT NULL,
+        run_no INTEGER NOT NULL,
+        ts REAL NOT NULL,
+        status TEXT NOT NULL,
+        duration_ms INTEGER,
+        preview TEXT,
+        content_hash TEXT,
+        channel_id TEXT,
+        message_ids TEXT,
+        message_url TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_heartbeat_events_mode ON heartbeat_events(mode_name, id);
+      CREATE INDEX IF NOT EXISTS idx_heartbeat_events_hash ON heartbeat_events(mode_name, content_hash);
+    `);
+
+    this.insertStmt = this.db.prepare(`
+      INSERT INTO heartbeat_events (mode_name, run_no, ts, status, duration_ms, preview, content_hash, channel_id)
+      VALUES (?, COALESCE((SELECT MAX(run_no) FROM heartbeat_events WHERE mode_name = ?), 0) + 1, ?, ?, ?, ?, ?, ?)
+    `);
+    this.pruneStmt = this.db.prepare(`
+      DELETE FROM heartbeat_events
+      WHERE mode_name = ? AND id <= (
+        SELECT id FROM heartbeat_events WHERE mode_name = ? ORDER BY id DESC LIMIT 1 OFFSET ?
+      )
+    `);
+    this.addMessageStmt = this.db.prepare(`
+      UPDATE heartbeat_events
+      SET message_ids = COALESCE(message_ids || ',', '') || ?, message_url = COALESCE(message_url, ?)
+      WHERE id = ?
+    `);
+    this.listStmt = this.db.prepare(
+      "SELECT * FROM heartbeat_events WHERE mode_name = ? ORDER BY id DESC LIMIT ?",
+    );
+    this.listAllStmt = this.db.prepare("SELECT * FROM heartbeat_events ORDER BY id DESC LIMIT ?");
+    this.deliveredStmt = this.db.prepare(`
+      SELECT 1 FROM heartbeat_events
+      WHERE mode_name = ? AND content_hash = ? AND status = 'alert' AND ts >= ?
+      LIMIT 1
+    `);
+  }
+
+  /** Stores an event and returns its row id, or null if the write failed. */
+  record(
+    modeName: string,
+    event: HeartbeatEvent,
+    extra: { contentHash?: string; channelId?: string } = {},
+  ): number | null {
+    try {
+      const info = this.insertStmt.run(
+        modeName,
+        modeName,
+        event.ts,
+        event.status,
+        event.durationMs === undefined ? null : Math.round(event.durationMs),
+        event.preview ? event.preview.slice(0, PREVIEW_LIMIT) : null,
+        extra.contentHash ?? null,
+        extra.channelId ?? null,
+      );
+      this.pruneStmt.run(modeName, modeName, HISTORY_LIMIT);
+      return Number(info.lastInsertRowid);
+    } catch (error: unknown) {
+      // History is best-effort; never block a heartbeat on it.
+      console.warn(`[heartbeat] history write failed mode=${modeName}:`, error);
+      return null;
+    }
+  }
+
+  /** Appends a delivered Discord message to an alert event. */
+  addMessage(eventId: number, messageId: string, url: string | null): void {
+    try {
+      this.addMessageStmt.run(messageId, url, eventId);
+    } catch (error: unknown) {
+      console.warn(`[heartbeat] history message update failed event=${eventId}:`, error);
+    }
+  }
+
+  /** Whether an alert with this content hash was delivered at or after `since`. */
+  wasDelivered(modeName: string, contentHash: string, since: number): boolean {
+    return this.deliveredStmt.get(modeName, contentHash, since) !== undefined;
+  }
+
+  /** Most recent events first; every mode when `modeName` is null. */
+  list(modeName: string | null, limit = 10): HeartbeatEventRecord[] {
+    const rows = (
+      modeName === null ? this.listAllStmt.all(limit) : this.listStmt.all(modeName, limit)
+    ) as EventRow[];
+    return rows.map(toRecord);
+  }
+
+  latest(modeName: string): HeartbeatEventRecord | null {
+    return this.list(modeName, 1)[0] ?? null;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toRecord(row: EventRow): HeartbeatEventRecord {
+  return {
+    id: row.id,
+    modeName: row.mode_name,
+    runNo: row.run_no,
+    ts: row.ts,
+    status: row.status as HeartbeatStatus,
+    ...(row.duration_ms !== null ? { durationMs: row.duration_ms } : {}),
+    ...(row.preview !== null ? { preview: row.preview } : {}),
+    channelId: row.channel_id,
+    messageIds: row.message_ids ? row.message_ids.split(",") : [],
+    messageUrl: row.message_url,
+  };
+}
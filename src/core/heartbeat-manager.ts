@@ -1,10 +1,14 @@
+import { createHash } from "node:crypto";
 import type { Client, TextBasedChannel } from "discord.js";
-import type { Config } from "../utils/config.js";
+import { HEARTBEAT_BUSY_POLICIES, type Config, type HeartbeatBusyPolicy } from "../utils/config.js";
+import type { HeartbeatEventRecord, HeartbeatHistory } from "./heartbeat-history.js";
+import { isEngineType, type EngineType } from "./llm-runner.js";
 import type { PersonaManager } from "./persona-manager.js";
-import type { QueueManager } from "./queue-manager.js";
+import type { EnqueueResult, QueueManager } from "./queue-manager.js";
 import type { SessionManager } from "./session-manager.js";
 
-const DEDUP_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MODE = "default";
+const DEFAULT_HEARTBEAT_MODEL = "claude-sonnet-4-6";
 
 export type HeartbeatStatus =
   | "ok"
@@ -13,7 +17,11 @@ export type HeartbeatStatus =
   | "skipped-no-channel"
   | "skipped-outside-hours"
   | "skipped-busy"
+  | "skipped-queue-full"
+  | "skipped-budget"
+  | "deferred"
   | "skipped-empty-checklist"
+  | "skipped-duplicate"
   | "failed";
 
 export interface HeartbeatEvent {
@@ -23,23 +31,63 @@ export interface HeartbeatEvent {
   preview?: string;
 }
 
-export interface HeartbeatSnapshot {
+/** Effective settings of one mode's heartbeat: HEARTBEAT.md front matter over the HEARTBEAT_* env. */
+export interface HeartbeatSettings {
+  modeName: string;
   enabled: boolean;
   channelId: string;
   intervalMinutes: number;
   activeHours: { start: number; end: number };
+  engine: EngineType;
+  model: string | null;
+  busyPolicy: HeartbeatBusyPolicy;
+}
+
+/** A run held back by a busy queue: polling again (`retry`) or waiting in the heartbeat lane (`queue`). */
+export interface HeartbeatDeferral {
+  policy: Exclude<HeartbeatBusyPolicy, "skip">;
+  since: number;
+  attempts: number;
+  /** Next busy check for `retry`; null for `queue`. */
+  nextAttemptAt: number | null;
+}
+
+export interface HeartbeatSnapshot extends HeartbeatSettings {
   lastEvent: HeartbeatEvent | null;
   runCount: number;
+  deferral: HeartbeatDeferral | null;
 }
 
+interface HeartbeatFile {
+  settings: HeartbeatSettings;
+  checklist: string;
+  /** Whether HEARTBEAT.md opens with a front matter block. */
+  configured: boolean;
+}
+
+interface ModeHeartbeat {
+  settings: HeartbeatSettings;
+  timer: NodeJS.Timeout | null;
+  alignTimer: NodeJS.Timeout | null;
+  retryTimer: NodeJS.Timeout | null;
+  deferral: HeartbeatDeferral | null;
+  running: boolean;
+  lastEvent: HeartbeatEvent | null;
+  runCount: number;
+}
+
+interface HeartbeatDecision {
+  event: HeartbeatEvent;
+  contentHash?: string;
+}
+
+/**
+ * Runs one heartbeat per mode. The default mode always has one (as before); other modes
+ * join when their HEARTBEAT.md has front matter or a non-empty checklist.
+ */
 export class HeartbeatManager {
-  private timer: NodeJS.Timeout | null = null;
-  private alignTimer: NodeJS.Timeout | null = null;
-  private running = false;
-  private lastEvent: HeartbeatEvent | null = null;
-  private lastDeliveredText = "";
-  private lastDeliveredAt = 0;
-  private runCount = 0;
+  private readonly heartbeats = new Map<string, ModeHeartbeat>();
+  private started = false;
 
   constructor(
     private readonly client: Client,
@@ -47,137 +95,190 @@ export class HeartbeatManager {
     private readonly personas: PersonaManager,
     private readonly queue: QueueManager,
     private readonly sessions: SessionManager,
+    private readonly history: HeartbeatHistory,
   ) {}
 
   start(): void {
-    if (this.timer) {
+    if (this.started) {
       return;
     }
     if (!this.config.heartbeatEnabled) {
       console.log("[heartbeat] disabled via config");
       return;
     }
-    if (!this.config.heartbeatChannelId) {
-      console.warn("[heartbeat] HEARTBEAT_CHANNEL_ID not set, heartbeat disabled");
-      return;
+    this.started = true;
+
+    for (const modeName of this.personas.listModeNames()) {
+      const file = this.readHeartbeatFile(modeName);
+      if (modeName !== DEFAULT_MODE && !file.configured && !this.hasSubstantiveContent(file.checklist)) {
+        continue;
+      }
+      if (!file.settings.channelId) {
+        console.warn(
+          `[heartbeat] mode=${modeName} has no channel (HEARTBEAT_CHANNEL_ID or front matter \`channel\`), skipped`,
+        );
+        continue;
+      }
+      this.startTimer(this.getOrCreate(modeName, file.settings));
+    }
+  }
+
+  stop(): void {
+    for (const heartbeat of this.heartbeats.values()) {
+      if (heartbeat.alignTimer) {
+        clearTimeout(heartbeat.alignTimer);
+        heartbeat.alignTimer = null;
+      }
+      if (heartbeat.timer) {
+        clearInterval(heartbeat.timer);
+        heartbeat.timer = null;
+      }
+      this.takeDeferral(heartbeat);
+    }
+    this.started = false;
+  }
+
+  close(): void {
+    this.stop();
+    this.history.close();
+  }
+
+  /** Re-reads every mode's HEARTBEAT.md and restarts the timers. */
+  reload(): void {
+    this.stop();
+    this.start();
+  }
+
+  getSnapshots(): HeartbeatSnapshot[] {
+    return Array.from(this.heartbeats.values())
+      .map((heartbeat) => ({
+        ...heartbeat.settings,
+        lastEvent: heartbeat.lastEvent,
+        runCount: heartbeat.runCount,
+        deferral: heartbeat.deferral,
+      }))
+      .sort((a, b) => a.modeName.localeCompare(b.modeName));
+  }
+
+  /** Recorded events, most recent first; every mode when `modeName` is null. */
+  getHistory(modeName: string | null, limit = 10): HeartbeatEventRecord[] {
+    return this.history.list(modeName, limit);
+  }
+
+  /** Trigger a heartbeat run on demand (e.g. from a slash command). */
+  async triggerNow(modeName: string = DEFAULT_MODE): Promise<HeartbeatEvent> {
+    const heartbeat =
+      this.heartbeats.get(modeName) ?? this.getOrCreate(modeName, this.readHeartbeatFile(modeName).settings);
+    return await this.run(heartbeat);
+  }
+
+  private getOrCreate(modeName: string, settings: HeartbeatSettings): ModeHeartbeat {
+    let heartbeat = this.heartbeats.get(modeName);
+    if (!heartbeat) {
+      const latest = this.history.latest(modeName);
+      heartbeat = {
+        settings,
+        timer: null,
+        alignTimer: null,
+        retryTimer: null,
+        deferral: null,
+        running: false,
+        lastEvent: latest,
+        runCount: latest?.runNo ?? 0,
+      };
+      this.heartbeats.set(modeName, heartbeat);
     }
+    heartbeat.settings = settings;
+    return heartbeat;
+  }
 
-    const intervalMs = this.config.heartbeatIntervalMinutes * 60 * 1000;
+  private startTimer(heartbeat: ModeHeartbeat): void {
+    const { settings } = heartbeat;
+    const intervalMs = settings.intervalMinutes * 60 * 1000;
     console.log(
-      `[heartbeat] started interval=${this.config.heartbeatIntervalMinutes}m channel=${this.config.heartbeatChannelId} activeHours=${this.config.heartbeatActiveHoursStart}-${this.config.heartbeatActiveHoursEnd}`,
+      `[heartbeat] started mode=${settings.modeName} interval=${settings.intervalMinutes}m channel=${settings.channelId} activeHours=${settings.activeHours.start}-${settings.activeHours.end} engine=${settings.engine}`,
     );
 
     // Align execution to the clock so heartbeats fire at fixed wall-clock
     // times (e.g. every hour on the hour) regardless of when the process starts.
     const msUntilNextSlot = this.msUntilNextAlignedSlot(intervalMs);
     console.log(
-      `[heartbeat] next aligned run in ${Math.round(msUntilNextSlot / 1000)}s`,
+      `[heartbeat] mode=${settings.modeName} next aligned run in ${Math.round(msUntilNextSlot / 1000)}s`,
     );
 
-    this.alignTimer = setTimeout(() => {
-      this.alignTimer = null;
-      void this.runSafely();
+    heartbeat.alignTimer = setTimeout(() => {
+      heartbeat.alignTimer = null;
+      void this.runSafely(heartbeat);
 
       // After the first aligned run, use setInterval for subsequent runs.
-      this.timer = setInterval(() => {
-        void this.runSafely();
+      heartbeat.timer = setInterval(() => {
+        void this.runSafely(heartbeat);
       }, intervalMs);
-      this.timer.unref?.();
+      heartbeat.timer.unref?.();
     }, msUntilNextSlot);
-    this.alignTimer.unref?.();
+    heartbeat.alignTimer.unref?.();
   }
 
-  stop(): void {
-    if (this.alignTimer) {
-      clearTimeout(this.alignTimer);
-      this.alignTimer = null;
-    }
-    if (this.timer) {
-      clearInterval(this.timer);
-      this.timer = null;
-    }
-  }
-
-  getSnapshot(): HeartbeatSnapshot {
-    return {
-      enabled: this.config.heartbeatEnabled,
-      channelId: this.config.heartbeatChannelId,
-      intervalMinutes: this.config.heartbeatIntervalMinutes,
-      activeHours: {
-        start: this.config.heartbeatActiveHoursStart,
-        end: this.config.heartbeatActiveHoursEnd,
-      },
-      lastEvent: this.lastEvent,
-      runCount: this.runCount,
-    };
-  }
-
-  /** Trigger a heartbeat run on demand (e.g. from a slash command). */
-  async triggerNow(): Promise<HeartbeatEvent> {
-    return await this.run();
-  }
-
-  private async runSafely(): Promise<void> {
-    if (this.running) {
-      console.warn("[heartbeat] skipped because a previous run is still in progress");
+  private async runSafely(heartbeat: ModeHeartbeat): Promise<void> {
+    if (heartbeat.running) {
+      console.warn(
+        `[heartbeat] mode=${heartbeat.settings.modeName} skipped because a previous run is still in progress`,
+      );
       return;
     }
-    this.running = true;
+    heartbeat.running = true;
     try {
-      await this.run();
+      await this.run(heartbeat);
     } catch (error: unknown) {
-      console.error("[heartbeat] unexpected error:", error);
-      this.recordEvent({ ts: Date.now(), status: "failed" });
+      console.error(`[heartbeat] mode=${heartbeat.settings.modeName} unexpected error:`, error);
+      this.record(heartbeat, { ts: Date.now(), status: "failed" });
     } finally {
-      this.running = false;
+      heartbeat.running = false;
     }
   }
 
-  private async run(): Promise<HeartbeatEvent> {
-    this.runCount += 1;
+  private async run(heartbeat: ModeHeartbeat): Promise<HeartbeatEvent> {
+    const record = (event: HeartbeatEvent): HeartbeatEvent => {
+      this.record(heartbeat, event);
+      return event;
+    };
+
+    // Front matter edits apply from the next run; interval changes need a reload.
+    const { settings, checklist } = this.readHeartbeatFile(heartbeat.settings.modeName);
+    heartbeat.settings = { ...settings, intervalMinutes: heartbeat.settings.intervalMinutes };
+    const tag = `[heartbeat] mode=${settings.modeName}`;
+    const deferred = this.takeDeferral(heartbeat);
 
     // 1. Check if enabled
-    if (!this.config.heartbeatEnabled) {
-      const event: HeartbeatEvent = { ts: Date.now(), status: "skipped-disabled" };
-      this.recordEvent(event);
-      return event;
+    if (!this.config.heartbeatEnabled || !settings.enabled) {
+      return record({ ts: Date.now(), status: "skipped-disabled" });
     }
 
     // 2. Check channel availability
-    const channel = await this.resolveChannel();
+    const channel = await this.resolveChannel(settings.channelId);
     if (!channel) {
-      const event: HeartbeatEvent = { ts: Date.now(), status: "skipped-no-channel" };
-      console.warn(`[heartbeat] channel ${this.config.heartbeatChannelId} unavailable`);
-      this.recordEvent(event);
-      return event;
+      console.warn(`${tag} channel ${settings.channelId || "(unset)"} unavailable`);
+      return record({ ts: Date.now(), status: "skipped-no-channel" });
     }
 
     // 3. Check active hours
-    if (!this.isWithinActiveHours()) {
-      const event: HeartbeatEvent = { ts: Date.now(), status: "skipped-outside-hours" };
+    if (!isWithinActiveHours(settings.activeHours)) {
       console.log(
-        `[heartbeat] skipped: outside active hours (${this.config.heartbeatActiveHoursStart}-${this.config.heartbeatActiveHoursEnd}, current=${new Date().getHours()})`,
+        `${tag} skipped: outside active hours (${settings.activeHours.start}-${settings.activeHours.end}, current=${new Date().getHours()})`,
       );
-      this.recordEvent(event);
-      return event;
+      return record({ ts: Date.now(), status: "skipped-outside-hours" });
     }
 
-    // 4. Check if queue is busy
-    if (this.queue.isBusy) {
-      const event: HeartbeatEvent = { ts: Date.now(), status: "skipped-busy" };
-      console.log("[heartbeat] skipped: queue is busy");
-      this.recordEvent(event);
-      return event;
+    // 4. Check if queue is busy; the `queue` policy waits in the heartbeat lane instead
+    const busy = this.queue.isBusy;
+    if (busy && settings.busyPolicy !== "queue") {
+      return this.deferOrSkip(heartbeat, deferred, record);
     }
 
-    // 5. Read HEARTBEAT.md
-    const checklist = this.personas.getHeartbeatContent().trim();
-    const hasSubstantive = this.hasSubstantiveContent(checklist);
-    if (!hasSubstantive) {
-      const event: HeartbeatEvent = { ts: Date.now(), status: "skipped-empty-checklist" };
-      console.log("[heartbeat] skipped: HEARTBEAT.md has no substantive content");
-      this.recordEvent(event);
-      return event;
+    // 5. Check the checklist
+    if (!this.hasSubstantiveContent(checklist)) {
+      console.log(`${tag} skipped: HEARTBEAT.md has no substantive content`);
+      return record({ ts: Date.now(), status: "skipped-empty-checklist" });
     }
 
     // 6. Build heartbeat prompt
@@ -186,81 +287,149 @@ export class HeartbeatManager {
     // 7. Enqueue the heartbeat task
     const startedAt = Date.now();
     const contextId = `ch_${channel.id}`;
-    const heartbeatUserId = "heartbeat:system";
-    const sessionId = this.sessions.getSession(heartbeatUserId, contextId, "claude");
+    // The default mode keeps its original session user so existing sessions carry over.
+    const heartbeatUserId =
+      settings.modeName === DEFAULT_MODE ? "heartbeat:system" : `heartbeat:${settings.modeName}`;
+    const sessionId = this.sessions.getSession(heartbeatUserId, contextId, settings.engine);
 
     return await new Promise<HeartbeatEvent>((resolve) => {
-      const taskKey = `heartbeat:${channel.id}`;
-
-      // We need to intercept the response. Use a wrapper channel approach:
-      // enqueue with a channel target and then inspect the result via events.
-      // Since QueueManager handles everything, we enqueue and wait for completion
-      // by polling. But a simpler approach: just use the queue directly.
+      const taskKey = `heartbeat:${settings.modeName}:${channel.id}`;
+      let eventId: number | null = null;
+      const onResponse = (text: string): HeartbeatEvent => {
+        heartbeat.deferral = null;
+        const { event, contentHash } = this.handleResponse(heartbeat, text, startedAt);
+        eventId = this.record(heartbeat, event, { contentHash, channelId: channel.id });
+        return event;
+      };
+      const onDelivered = (message: unknown): void => {
+        const sent = message as { id?: unknown; url?: unknown } | null;
+        if (eventId !== null && typeof sent?.id === "string") {
+          this.history.addMessage(eventId, sent.id, typeof sent.url === "string" ? sent.url : null);
+        }
+      };
 
       const result = this.queue.enqueue({
         prompt,
         sessionId,
         sessionUserId: heartbeatUserId,
-        model: "claude-sonnet-4-6",
+        model: settings.model,
         taskKey,
-        respondTo: { type: "channel", channel: new HeartbeatInterceptChannel(channel, this, startedAt, resolve) as unknown as TextBasedChannel },
+        respondTo: {
+          type: "channel",
+          channel: new HeartbeatInterceptChannel(channel, onResponse, onDelivered, resolve) as unknown as TextBasedChannel,
+        },
         createdAt: Date.now(),
-        engine: "claude",
-        modeName: "default",
+        engine: settings.engine,
+        modeName: settings.modeName,
       });
 
       if (!result.accepted) {
-        const event: HeartbeatEvent = {
-          ts: Date.now(),
-          status: "skipped-busy",
-        };
-        console.log(`[heartbeat] enqueue rejected: ${result.reason}`);
-        this.recordEvent(event);
-        resolve(event);
+        console.log(`${tag} enqueue rejected: ${result.reason}`);
+        resolve(record({ ts: Date.now(), status: rejectionStatus(result.reason) }));
       } else {
-        console.log(`[heartbeat] enqueued task key=${taskKey}`);
+        if (busy) {
+          heartbeat.deferral = { policy: "queue", since: startedAt, attempts: 0, nextAttemptAt: null };
+        }
+        console.log(`${tag} enqueued task key=${taskKey}${busy ? " (waiting for the queue to drain)" : ""}`);
       }
     });
   }
 
-  /** Called by HeartbeatInterceptChannel when the response arrives. */
-  handleResponse(
-    text: string,
-    channel: TextBasedChannel,
-    startedAt: number,
+  /**
+   * Busy queue under the `skip` or `retry` policy. `retry` checks again every
+   * HEARTBEAT_BUSY_RETRY_MINUTES until HEARTBEAT_BUSY_GRACE_MINUTES after the first
+   * busy slot, then gives up as `skipped-busy`. Only the first deferral is recorded.
+   */
+  private deferOrSkip(
+    heartbeat: ModeHeartbeat,
+    previous: HeartbeatDeferral | null,
+    record: (event: HeartbeatEvent) => HeartbeatEvent,
   ): HeartbeatEvent {
+    const tag = `[heartbeat] mode=${heartbeat.settings.modeName}`;
+    const now = Date.now();
+    const since = previous?.since ?? now;
+    const graceEnd = since + this.config.heartbeatBusyGraceMinutes * 60 * 1000;
+
+    if (heartbeat.settings.busyPolicy === "skip" || now >= graceEnd) {
+      console.log(
+        previous
+          ? `${tag} skipped: queue still busy after ${this.config.heartbeatBusyGraceMinutes}m of retries`
+          : `${tag} skipped: queue is busy`,
+      );
+      return record({ ts: now, status: "skipped-busy" });
+    }
+
+    const delayMs = Math.min(this.config.heartbeatBusyRetryMinutes * 60 * 1000, graceEnd - now);
+    const attempts = (previous?.attempts ?? 0) + 1;
+    heartbeat.deferral = { policy: "retry", since, attempts, nextAttemptAt: now + delayMs };
+    heartbeat.retryTimer = setTimeout(() => {
+      heartbeat.retryTimer = null;
+      void this.runSafely(heartbeat);
+    }, delayMs);
+    heartbeat.retryTimer.unref?.();
+    console.log(`${tag} queue is busy; retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempts})`);
+
+    const event: HeartbeatEvent = { ts: now, status: "deferred" };
+    return previous ? event : record(event);
+  }
+
+  /** Clears a pending deferral (and its retry timer), returning it. */
+  private takeDeferral(heartbeat: ModeHeartbeat): HeartbeatDeferral | null {
+    if (heartbeat.retryTimer) {
+      clearTimeout(heartbeat.retryTimer);
+      heartbeat.retryTimer = null;
+    }
+    const deferral = heartbeat.deferral;
+    heartbeat.deferral = null;
+    return deferral;
+  }
+
+  /** Persists an event and makes it the mode's latest; returns the history row id. */
+  private record(
+    heartbeat: ModeHeartbeat,
+    event: HeartbeatEvent,
+    extra: { contentHash?: string; channelId?: string } = {},
+  ): number | null {
+    heartbeat.lastEvent = event;
+    heartbeat.runCount += 1;
+    return this.history.record(heartbeat.settings.modeName, event, extra);
+  }
+
+  /** Decides whether a heartbeat reply is delivered (alert) or swallowed (ok / duplicate). */
+  private handleResponse(heartbeat: ModeHeartbeat, text: string, startedAt: number): HeartbeatDecision {
     const durationMs = Date.now() - startedAt;
     const stripped = stripHeartbeatToken(text);
+    const modeName = heartbeat.settings.modeName;
+    const tag = `[heartbeat] mode=${modeName}`;
 
     // Check if it's an OK acknowledgment
     if (isHeartbeatOk(text)) {
-      const event: HeartbeatEvent = { ts: Date.now(), status: "ok", durationMs };
-      console.log(`[heartbeat] ok (nothing to report) durationMs=${durationMs}`);
-      this.recordEvent(event);
-      return event;
+      console.log(`${tag} ok (nothing to report) durationMs=${durationMs}`);
+      return { event: { ts: Date.now(), status: "ok", durationMs } };
     }
 
-    // Check for duplicate within 24h
-    if (stripped === this.lastDeliveredText && Date.now() - this.lastDeliveredAt < DEDUP_WINDOW_MS) {
-      const event: HeartbeatEvent = { ts: Date.now(), status: "ok", durationMs, preview: stripped.slice(0, 100) };
-      console.log(`[heartbeat] dedup: same content within 24h, skipping delivery`);
-      this.recordEvent(event);
-      return event;
+    // Check for the same alert within the dedup window, across restarts
+    const contentHash = hashContent(stripped);
+    const windowMs = this.config.heartbeatDedupWindowHours * 60 * 60 * 1000;
+    if (windowMs > 0 && this.history.wasDelivered(modeName, contentHash, Date.now() - windowMs)) {
+      console.log(
+        `${tag} dedup: same content within ${this.config.heartbeatDedupWindowHours}h, skipping delivery`,
+      );
+      return {
+        event: { ts: Date.now(), status: "skipped-duplicate", durationMs, preview: stripped.slice(0, 100) },
+        contentHash,
+      };
     }
 
     // Deliver the alert to the channel
-    this.lastDeliveredText = stripped;
-    this.lastDeliveredAt = Date.now();
-
     const event: HeartbeatEvent = {
       ts: Date.now(),
       status: "alert",
       durationMs,
       preview: stripped.slice(0, 200),
     };
-    console.log(`[heartbeat] alert delivered durationMs=${durationMs} preview="${event.preview}"`);
-    this.recordEvent(event);
-    return event;
+    console.log(`${tag} alert delivered durationMs=${durationMs} preview="${event.preview}"`);
+    return { event, contentHash };
   }
 
   private buildHeartbeatPrompt(checklist: string): string {
@@ -276,6 +445,88 @@ export class HeartbeatManager {
     ].join("\n");
   }
 
+  /** Reads a mode's HEARTBEAT.md, layering its front matter over the HEARTBEAT_* settings. */
+  private readHeartbeatFile(modeName: string): HeartbeatFile {
+    const { fields, body, hasFrontMatter } = parseFrontMatter(this.personas.getHeartbeatContent(modeName));
+    const warn = (key: string, value: string) =>
+      console.warn(`[heartbeat] mode=${modeName} ignoring invalid ${key}: ${value}`);
+
+    const settings: HeartbeatSettings = {
+      modeName,
+      enabled: true,
+      channelId: this.config.heartbeatChannelId,
+      intervalMinutes: this.config.heartbeatIntervalMinutes,
+      activeHours: {
+        start: this.config.heartbeatActiveHoursStart,
+        end: this.config.heartbeatActiveHoursEnd,
+      },
+      engine: "claude",
+      model: null,
+      busyPolicy: this.config.heartbeatBusyPolicy,
+    };
+
+    for (const [key, value] of fields) {
+      switch (key) {
+        case "enabled":
+          settings.enabled = !/^(false|no|off|0)$/i.test(value);
+          break;
+        case "channel":
+          if (/^\d+$/.test(value)) {
+            settings.channelId = value;
+          } else {
+            warn(key, value);
+          }
+          break;
+        case "interval": {
+          const minutes = parseIntervalMinutes(value);
+          if (minutes) {
+            settings.intervalMinutes = minutes;
+          } else {
+            warn(key, value);
+          }
+          break;
+        }
+        case "active_hours": {
+          const match = value.match(/^(\d{1,2})\s*-\s*(\d{1,2})$/);
+          const start = match ? Number(match[1]) : NaN;
+          const end = match ? Number(match[2]) : NaN;
+          if (start >= 0 && start <= 24 && end >= 0 && end <= 24) {
+            settings.activeHours = { start, end };
+          } else {
+            warn(key, value);
+          }
+          break;
+        }
+        case "engine":
+          if (isEngineType(value)) {
+            settings.engine = value;
+          } else {
+            warn(key, value);
+          }
+          break;
+        case "model":
+          settings.model = value || null;
+          break;
+        case "busy": {
+          const policy = HEARTBEAT_BUSY_POLICIES.find((entry) => entry === value.toLowerCase());
+          if (policy) {
+            settings.busyPolicy = policy;
+          } else {
+            warn(key, value);
+          }
+          break;
+        }
+        default:
+          warn(key, value);
+      }
+    }
+
+    if (!settings.model && settings.engine === "claude") {
+      settings.model = DEFAULT_HEARTBEAT_MODEL;
+    }
+    return { settings, checklist: body.trim(), configured: hasFrontMatter };
+  }
+
   /**
    * Calculate ms until the next wall-clock slot aligned to `intervalMs`.
    * E.g. with a 60-minute interval, the next slot is the next full hour.
@@ -291,25 +542,12 @@ export class HeartbeatManager {
     return remaining + buffer;
   }
 
-  private isWithinActiveHours(): boolean {
-    const hour = new Date().getHours();
-    const { heartbeatActiveHoursStart: start, heartbeatActiveHoursEnd: end } = this.config;
-
-    // 0-24 means always active
-    if (start === 0 && end === 24) {
-      return true;
-    }
-
-    // Handle wraparound (e.g. 22-6 means 22:00 to 06:00)
-    if (start <= end) {
-      return hour >= start && hour < end;
+  private async resolveChannel(channelId: string): Promise<TextBasedChannel | null> {
+    if (!channelId) {
+      return null;
     }
-    return hour >= start || hour < end;
-  }
-
-  private async resolveChannel(): Promise<TextBasedChannel | null> {
     try {
-      const channel = await this.client.channels.fetch(this.config.heartbeatChannelId);
+      const channel = await this.client.channels.fetch(channelId);
       if (!channel || !channel.isTextBased()) {
         return null;
       }
@@ -330,17 +568,13 @@ export class HeartbeatManager {
       .filter((line) => line.length > 0 && !line.startsWith("#"));
     return stripped.length > 0;
   }
-
-  private recordEvent(event: HeartbeatEvent): void {
-    this.lastEvent = event;
-  }
 }
 
 /**
  * A proxy channel that intercepts `send()` calls from QueueManager
  * to inspect the heartbeat response before deciding whether to actually deliver it.
  *
- * On the first chunk we decide the disposition (ok / dedup / alert).
+ * On the first chunk we decide the disposition (ok / duplicate / alert).
  * For alerts, all chunks are forwarded to the real channel.
  * For ok/dedup, all chunks are swallowed silently.
  */
@@ -351,8 +585,8 @@ class HeartbeatInterceptChannel {
 
   constructor(
     private readonly realChannel: TextBasedChannel,
-    private readonly manager: HeartbeatManager,
-    private readonly startedAt: number,
+    private readonly onResponse: (text: string) => HeartbeatEvent,
+    private readonly onDelivered: (message: unknown) => void,
     private readonly resolve: (event: HeartbeatEvent) => void,
   ) {
     this.id = realChannel.id;
@@ -363,7 +597,7 @@ class HeartbeatInterceptChannel {
 
     if (!this.decided) {
       this.decided = true;
-      const event = this.manager.handleResponse(text, this.realChannel, this.startedAt);
+      const event = this.onResponse(text);
       this.disposition = event.status;
       this.resolve(event);
     }
@@ -371,7 +605,9 @@ class HeartbeatInterceptChannel {
     if (this.disposition === "alert") {
       const realSend = (this.realChannel as { send?: (opts: unknown) => Promise<unknown> }).send;
       if (typeof realSend === "function") {
-        return await realSend.call(this.realChannel, options);
+        const message = await realSend.call(this.realChannel, options);
+        this.onDelivered(message);
+        return message;
       }
     }
 
@@ -386,6 +622,68 @@ class HeartbeatInterceptChannel {
   }
 }
 
+/** A `duplicate` rejection means this heartbeat is already queued, which is the busy case. */
+function rejectionStatus(reason: EnqueueResult["reason"]): HeartbeatStatus {
+  switch (reason) {
+    case "queue_full":
+      return "skipped-queue-full";
+    case "budget_exceeded":
+      return "skipped-budget";
+    default:
+      return "skipped-busy";
+  }
+}
+
+/** `key: value` lines between leading `---` fences; keys are lower-cased. */
+function parseFrontMatter(text: string): { fields: Map<string, string>; body: string; hasFrontMatter: boolean } {
+  const fields = new Map<string, string>();
+  const match = text.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { fields, body: text, hasFrontMatter: false };
+  }
+
+  for (const line of match[1]!.split(/\r?\n/)) {
+    const clean = line.replace(/\s+#.*$/, "").trim();
+    if (!clean || clean.startsWith("#")) {
+      continue;
+    }
+    const separator = clean.indexOf(":");
+    if (separator <= 0) {
+      continue;
+    }
+    const key = clean.slice(0, separator).trim().toLowerCase();
+    const value = clean.slice(separator + 1).trim().replace(/^["']|["']$/g, "");
+    fields.set(key, value);
+  }
+  return { fields, body: text.slice(match[0].length), hasFrontMatter: true };
+}
+
+/** `30`, `30m`, `2h` → minutes; null when invalid. */
+function parseIntervalMinutes(value: string): number | null {
+  const match = value.match(/^(\d+)\s*(m|h)?$/i);
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[1]) * (match[2]?.toLowerCase() === "h" ? 60 : 1);
+  return minutes > 0 ? minutes : null;
+}
+
+function isWithinActiveHours(activeHours: { start: number; end: number }): boolean {
+  const hour = new Date().getHours();
+  const { start, end } = activeHours;
+
+  // 0-24 means always active
+  if (start === 0 && end === 24) {
+    return true;
+  }
+
+  // Handle wraparound (e.g. 22-6 means 22:00 to 06:00)
+  if (start <= end) {
+    return hour >= start && hour < end;
+  }
+  return hour >= start || hour < end;
+}
+
 function stripHeartbeatToken(text: string): string {
   return text
     .replace(/^\s*HEARTBEAT_OK\s*/i, "")
@@ -393,6 +691,11 @@ function stripHeartbeatToken(text: string): string {
     .trim();
 }
 
+/** Whitespace-insensitive fingerprint of an alert, so reflowed repeats still dedup. */
+function hashContent(text: string): string {
+  return createHash("sha256").update(text.replace(/\s+/g, " ").trim()).digest("hex");
+}
+
 function isHeartbeatOk(text: string): boolean {
   const stripped = stripHeartbeatToken(text);
   return stripped.length === 0;
@@ -1,4 +1,10 @@
-export type EngineType = "claude" | "codex";
+export const ENGINE_TYPES = ["claude", "codex", "openai"] as const;
+
+export type EngineType = (typeof ENGINE_TYPES)[number];
+
+export function isEngineType(value: unknown): value is EngineType {
+  return typeof value === "string" && (ENGINE_TYPES as readonly string[]).includes(value);
+}
 
 export type RunEvent =
   | { type: "assistant_delta"; text: string }
@@ -34,6 +40,12 @@ export interface RunOptions {
   onEvent?: (event: RunEvent) => void;
   onAbortReady?: (abort: () => void) => void;
   envOverrides?: Record<string, string>;
+  /** Turn output directory; files written here are sent back to Discord. */
+  outputDir?: string;
+  /** Directories outside the working directory the run may read and write. */
+  addDirs?: string[];
+  /** Approval session token; when set the runner routes permission prompts to the bot. */
+  approvalToken?: string;
 }
 
 export interface RunResult {
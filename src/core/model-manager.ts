@@ -1,12 +1,71 @@
 import fs from "node:fs";
 import path from "node:path";
 import type { Config } from "../utils/config.js";
-import type { EngineType } from "./llm-runner.js";
+import { isEngineType, type EngineType } from "./llm-runner.js";
 
 interface ModelOverridesFile {
   overrides?: Record<string, string>;
 }
 
+const DEFAULT_MODEL_ENV: Record<EngineType, string> = {
+  claude: "CLAUDE_MODEL",
+  codex: "CODEX_MODEL",
+  openai: "OPENAI_COMPAT_MODEL",
+};
+
+export const CLAUDE_MODEL_CHOICES = [
+  { name: "Claude: claude-opus-4-6", value: "claude-opus-4-6" },
+  { name: "Claude: claude-sonnet-4-6", value: "claude-sonnet-4-6" },
+  { name: "Claude: claude-sonnet-4-5", value: "claude-sonnet-4-5" },
+  { name: "Claude: claude-opus-4-1", value: "claude-opus-4-1" },
+  { name: "Claude: claude-haiku-4-5", value: "claude-haiku-4-5" },
+] as const;
+
+// NOTE: Codex CLI model names available in this environment.
+export const CODEX_MODEL_CHOICES = [
+  { name: "Codex: gpt-5.3-codex", value: "gpt-5.3-codex" },
+  { name: "Codex: gpt-5.2", value: "gpt-5.2" },
+] as const;
+
+/** `/model` preset values per engine. The OpenAI-compatible engine has none (it serves whatever is loaded). */
+export function modelPresetsForEngine(engine: EngineType): string[] {
+  switch (engine) {
+    case "claude":
+      return CLAUDE_MODEL_CHOICES.map((choice) => choice.value);
+    case "codex":
+      return CODEX_MODEL_CHOICES.map((choice) => choice.value);
+    default:
+      return [];
+  }
+}
+
+/** Engine whose `/model` presets include this model, if any. */
+export function engineForModelPreset(model: string): EngineType | null {
+  if (CLAUDE_MODEL_CHOICES.some((choice) => choice.value === model)) {
+    return "claude";
+  }
+  if (CODEX_MODEL_CHOICES.some((choice) => choice.value === model)) {
+    return "codex";
+  }
+  return null;
+}
+
+/** Env-configured default model for an engine ("" when the engine picks its own). */
+export function defaultModelForEngine(config: Config, engine: EngineType): string {
+  switch (engine) {
+    case "codex":
+      return config.codexModel;
+    case "openai":
+      return config.openaiCompatModel;
+    default:
+      return config.claudeModel;
+  }
+}
+
+export function defaultModelEnvName(engine: EngineType): string {
+  return DEFAULT_MODEL_ENV[engine];
+}
+
 /** Validate and pass through keys in the current format: `engine:userId:contextId`. */
 function normalizeKey(key: string): string {
   const trimmed = key.trim();
@@ -18,7 +77,7 @@ function normalizeKey(key: string): string {
   // Current format: "<engine>:<userId>:<contextId>" (3+ parts)
   if (
     parts.length >= 3 &&
-    (parts[0] === "claude" || parts[0] === "codex") &&
+    isEngineType(parts[0]) &&
     /^\d+$/.test(parts[1])
   ) {
     return trimmed;
@@ -55,6 +114,37 @@ export class ModelManager {
     this.save();
   }
 
+  /**
+   * Cheaper models after `model` in its `MODEL_FALLBACK_CHAINS` chain (empty if unchained).
+   * An empty model (engine default, no `*_MODEL` set) is treated as the head of the engine's chain.
+   */
+  fallbacksFor(model: string, engine: EngineType = "claude"): string[] {
+    const clean = model.trim() || this.defaultChainHead(engine);
+    if (!clean) {
+      return [];
+    }
+    for (const chain of this.config.modelFallbackChains) {
+      const index = chain.indexOf(clean);
+      if (index >= 0) {
+        return chain.slice(index + 1);
+      }
+    }
+    return [];
+  }
+
+  /** Head of the first chain for this engine: a preset of it, or any unknown model for preset-less engines. */
+  private defaultChainHead(engine: EngineType): string {
+    const chains = this.config.modelFallbackChains;
+    const own = chains.find((chain) => engineForModelPreset(chain[0]!) === engine);
+    if (own) {
+      return own[0]!;
+    }
+    if (modelPresetsForEngine(engine).length > 0) {
+      return "";
+    }
+    return chains.find((chain) => engineForModelPreset(chain[0]!) === null)?.[0] ?? "";
+  }
+
   private toKey(userId: string, contextId: string, engine: EngineType): string {
     // Model override is scoped per-user per-context (thread/channel/DM).
     return `${engine}:${userId}:${contextId}`;
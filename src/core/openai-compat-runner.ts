@@ -0,0 +1,370 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { Config } from "../utils/config.js";
+import type { EngineType, LLMRunner, RunEvent, RunOptions, RunResult, UsageInfo } from "./llm-runner.js";
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+interface HistoryFile {
+  messages?: ChatMessage[];
+  updatedAt?: number;
+}
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+interface CompletionChunk {
+  choices?: Array<{
+    delta?: { content?: string | null };
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: CompletionUsage | null;
+  error?: { message?: string };
+}
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Talks to any OpenAI-compatible `/v1/chat/completions` endpoint (llama.cpp server,
+ * vLLM, Ollama). These servers are stateless, so conversation history is kept in
+ * `dataDir/openai-sessions/<sessionId>.json` and replayed on every turn.
+ */
+export class OpenAICompatRunner implements LLMRunner {
+  readonly engineName: EngineType = "openai";
+  readonly supportsMaxTurnsRetry = false;
+  readonly supportsSessionResume = true;
+
+  private readonly historyDir: string;
+  private activeRunId = 0;
+  private activeAbort: (() => void) | null = null;
+
+  constructor(private readonly config: Config) {
+    this.historyDir = path.join(config.dataDir, "openai-sessions");
+    fs.mkdirSync(this.historyDir, { recursive: true });
+  }
+
+  cancelCurrentRun(): boolean {
+    const abort = this.activeAbort;
+    if (!abort) {
+      return false;
+    }
+
+    abort();
+    return true;
+  }
+
+  async run(options: RunOptions): Promise<RunResult> {
+    const startTime = Date.now();
+    // An empty model (the queue's timeout retry) means the configured default too.
+    const model = options.model || this.config.openaiCompatModel;
+    console.log(
+      `[openai] run start resume=${options.sessionId ? "yes" : "no"} model=${model || "(server default)"} promptLen=${options.prompt.length}`,
+    );
+
+    const emit = (event: RunEvent): void => {
+      if (!options.onEvent) {
+        return;
+      }
+      try {
+        options.onEvent(event);
+      } catch (error: unknown) {
+        console.error("[openai] onEvent callback failed:", error);
+      }
+    };
+
+    let sessionId = options.sessionId && this.hasHistory(options.sessionId)
+      ? options.sessionId
+      : null;
+    if (options.sessionId && !sessionId) {
+      console.warn(`[openai] history not found for session=${options.sessionId}; starting fresh`);
+      emit({ type: "status", message: "이전 대화 기록을 찾지 못해 새 대화로 시작합니다." });
+    }
+    const history = sessionId ? this.loadHistory(sessionId) : [];
+    sessionId ??= randomUUID();
+
+    const messages: ChatMessage[] = [];
+    if (options.systemPrompt) {
+      messages.push({ role: "system", content: options.systemPrompt });
+    }
+    messages.push(...history, { role: "user", content: options.prompt });
+
+    const runId = ++this.activeRunId;
+    const controller = new AbortController();
+    let didTimeout = false;
+    let didCancel = false;
+    this.activeAbort = () => {
+      if (didTimeout || didCancel) {
+        return;
+      }
+      didCancel = true;
+      console.log("[openai] run cancel requested");
+      controller.abort();
+    };
+    if (options.onAbortReady) {
+      try {
+        options.onAbortReady(this.activeAbort);
+      } catch (error: unknown) {
+        console.error("[openai] onAbortReady callback failed:", error);
+      }
+    }
+    const timer = setTimeout(() => {
+      didTimeout = true;
+      controller.abort();
+    }, this.config.openaiCompatTimeout);
+
+    const fail = (error: string, isTimeout = false): RunResult => ({
+      success: false,
+      text: "",
+      sessionId: options.sessionId ?? null,
+      error,
+      durationMs: Date.now() - startTime,
+      isTimeout,
+      usage: null,
+    });
+
+    try {
+      const completion = await this.requestCompletion(messages, model, controller.signal, emit);
+      const text = completion.text.trim();
+      const durationMs = Date.now() - startTime;
+      if (completion.error) {
+        console.log(`[openai] run end success=false durationMs=${durationMs} error=yes`);
+        return fail(completion.error);
+      }
+      if (!text) {
+        console.log(`[openai] run end success=false durationMs=${durationMs} error=empty`);
+        return fail("OpenAI 호환 서버가 빈 응답을 반환했습니다.");
+      }
+
+      this.saveHistory(sessionId, [
+        ...history,
+        { role: "user", content: options.prompt },
+        { role: "assistant", content: text },
+      ]);
+      console.log(`[openai] run end success=true durationMs=${durationMs} session=${sessionId}`);
+      return {
+        success: true,
+        text,
+        sessionId,
+        error: null,
+        durationMs,
+        isTimeout: false,
+        usage: completion.usage,
+      };
+    } catch (error: unknown) {
+      if (didTimeout) {
+        console.log(`[openai] run timeout durationMs=${Date.now() - startTime}`);
+        return fail(`응답 시간 초과 (${this.config.openaiCompatTimeout / 1000}초)`, true);
+      }
+      if (didCancel) {
+        console.log(`[openai] run cancelled durationMs=${Date.now() - startTime}`);
+        return fail("요청이 중단되었습니다.");
+      }
+      const handled = fail(this.describeFetchError(error));
+      console.log(
+        `[openai] run error durationMs=${handled.durationMs} error=${handled.error ?? "unknown"}`,
+      );
+      return handled;
+    } finally {
+      clearTimeout(timer);
+      if (this.activeRunId === runId) {
+        this.activeAbort = null;
+      }
+    }
+  }
+
+  private async requestCompletion(
+    messages: ChatMessage[],
+    model: string,
+    signal: AbortSignal,
+    emit: (event: RunEvent) => void,
+  ): Promise<{ text: string; usage: UsageInfo | null; error: string | null }> {
+    const headers: Record<string, string> = { "content-type": "application/json" };
+    if (this.config.openaiCompatApiKey) {
+      headers.authorization = `Bearer ${this.config.openaiCompatApiKey}`;
+    }
+
+    const response = await fetch(`${this.config.openaiCompatBaseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      signal,
+      body: JSON.stringify({
+        ...(model ? { model } : {}),
+        messages,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      return { text: "", usage: null, error: this.classifyHttpError(response.status, body) };
+    }
+
+    // Some servers ignore `stream: true`; accept a plain JSON completion as well.
+    const contentType = response.headers.get("content-type") || "";
+    if (!contentType.includes("text/event-stream") || !response.body) {
+      const chunk = (await response.json()) as CompletionChunk;
+      const text = chunk.choices?.[0]?.message?.content || "";
+      if (text) {
+        emit({ type: "assistant_delta", text });
+      }
+      return {
+        text,
+        usage: this.toUsageInfo(chunk.usage),
+        error: chunk.error?.message ? chunk.error.message.slice(0, 500) : null,
+      };
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    let usage: UsageInfo | null = null;
+    let error: string | null = null;
+
+    const handleLine = (rawLine: string): void => {
+      const line = rawLine.trim();
+      if (!line.startsWith("data:")) {
+        return;
+      }
+      const payload = line.slice("data:".length).trim();
+      if (!payload || payload === "[DONE]") {
+        return;
+      }
+
+      let chunk: CompletionChunk;
+      try {
+        chunk = JSON.parse(payload) as CompletionChunk;
+      } catch {
+        return;
+      }
+
+      if (chunk.error?.message) {
+        error = chunk.error.message.slice(0, 500);
+        return;
+      }
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        emit({ type: "assistant_delta", text: delta });
+      }
+      if (chunk.usage) {
+        usage = this.toUsageInfo(chunk.usage);
+      }
+    };
+
+    for await (const part of response.body) {
+      buffer += decoder.decode(part as Uint8Array, { stream: true });
+      let newlineIndex = buffer.indexOf("\n");
+      while (newlineIndex >= 0) {
+        handleLine(buffer.slice(0, newlineIndex));
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf("\n");
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+      handleLine(buffer);
+    }
+
+    return { text, usage, error };
+  }
+
+  private toUsageInfo(usage: CompletionUsage | null | undefined): UsageInfo | null {
+    if (!usage) {
+      return null;
+    }
+    const inputTokens = usage.prompt_tokens || 0;
+    const outputTokens = usage.completion_tokens || 0;
+    return {
+      inputTokens,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+      outputTokens,
+      contextWindow: this.config.openaiCompatContextWindow,
+      // The reply is replayed as history next turn, so it counts toward context too.
+      totalContextTokens: inputTokens + outputTokens,
+    };
+  }
+
+  private classifyHttpError(status: number, body: string): string {
+    if (status === 401 || status === 403) {
+      return "OpenAI 호환 서버 인증 실패. OPENAI_COMPAT_API_KEY를 확인해주세요.";
+    }
+    if (status === 404) {
+      return "OpenAI 호환 서버에서 엔드포인트나 모델을 찾지 못했습니다. OPENAI_COMPAT_BASE_URL / 모델명을 확인해주세요.";
+    }
+    if (status === 429) {
+      return "요청 한도 초과. 잠시 후 다시 시도해주세요.";
+    }
+
+    let detail = body.trim();
+    try {
+      const parsed = JSON.parse(body) as CompletionChunk;
+      detail = parsed.error?.message || detail;
+    } catch {
+      // keep raw body
+    }
+    return `OpenAI 호환 서버 오류 (HTTP ${status}): ${detail.slice(0, 400) || "응답 없음"}`;
+  }
+
+  private describeFetchError(error: unknown): string {
+    const cause = (error as { cause?: { code?: string } } | null)?.cause;
+    if (cause?.code === "ECONNREFUSED" || cause?.code === "ENOTFOUND") {
+      return `OpenAI 호환 서버에 연결할 수 없습니다 (${this.config.openaiCompatBaseUrl}). 서버 실행 여부와 OPENAI_COMPAT_BASE_URL을 확인해주세요.`;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return message.slice(0, 500) || "알 수 없는 OpenAI 호환 서버 오류";
+  }
+
+  private historyPath(sessionId: string): string | null {
+    return SESSION_ID_PATTERN.test(sessionId)
+      ? path.join(this.historyDir, `${sessionId}.json`)
+      : null;
+  }
+
+  private hasHistory(sessionId: string): boolean {
+    const filePath = this.historyPath(sessionId);
+    return filePath !== null && fs.existsSync(filePath);
+  }
+
+  private loadHistory(sessionId: string): ChatMessage[] {
+    const filePath = this.historyPath(sessionId);
+    if (!filePath) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(filePath, "utf8")) as HistoryFile;
+      return (parsed.messages || []).filter(
+        (message) =>
+          (message.role === "user" || message.role === "assistant") &&
+          typeof message.content === "string",
+      );
+    } catch (error: unknown) {
+      console.error(`[openai] failed to load history ${filePath}:`, error);
+      return [];
+    }
+  }
+
+  private saveHistory(sessionId: string, messages: ChatMessage[]): void {
+    const filePath = this.historyPath(sessionId);
+    if (!filePath) {
+      return;
+    }
+
+    const payload: HistoryFile = { messages, updatedAt: Date.now() };
+    try {
+      fs.writeFileSync(filePath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+    } catch (error: unknown) {
+      console.error(`[openai] failed to save history ${filePath}:`, error);
+    }
+  }
+}
@@ -9,6 +9,7 @@ const DEFAULT_HEARTBEAT = `# Heartbeat Checklist
 
 <!-- 주기적 자율 점검 시 확인할 항목을 정의하세요 -->
 <!-- 예: 정기 리서치, 알림, 진행 상황 체크 등 -->
+<!-- 모드별 채널/주기/활성 시간/엔진/모델은 파일 맨 앞 front matter로 지정합니다 (README 참고) -->
 `;
 
 /** Legacy mode files that lived flat in personasDir before multi-mode migration. */
@@ -181,8 +182,8 @@ export class PersonaManager {
 
   // ── Heartbeat ────────────────────────────────────────────
 
-  getHeartbeatContent(): string {
-    return this.readText(this.getModeHeartbeatPath(DEFAULT_MODE));
+  getHeartbeatContent(modeName: string = DEFAULT_MODE): string {
+    return this.readText(this.getModeHeartbeatPath(modeName));
   }
 
   private getContextPromptPath(contextId: string): string {
@@ -0,0 +1,205 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { isEngineType, type EngineType } from "./llm-runner.js";
+import type { DiscordAttachmentInfo, RespondTarget } from "./queue-manager.js";
+
+export type JournalStatus = "pending" | "running";
+
+/**
+ * Serializable snapshot of a QueueTask. Discord objects cannot be persisted, so
+ * the respond target is reduced to channel/message ids and re-fetched on boot.
+ */
+export interface JournalEntry {
+  taskKey: string;
+  status: JournalStatus;
+  prompt: string;
+  sessionId: string | null;
+  sessionUserId: string;
+  mechoModeId: string | null;
+  model: string | null;
+  engine: EngineType;
+  modeName: string | null;
+  attachments: DiscordAttachmentInfo[];
+  rotateFromSessionId: string | null;
+  respondType: RespondTarget["type"];
+  channelId: string;
+  messageId: string | null;
+  createdAt: number;
+  startedAt: number | null;
+}
+
+interface JournalRow {
+  task_key: string;
+  status: string;
+  prompt: string;
+  session_id: string | null;
+  session_user_id: string;
+  mecho_mode_id: string | null;
+  model: string | null;
+  engine: string;
+  mode_name: string | null;
+  attachments_json: string | null;
+  rotate_from_session_id: string | null;
+  respond_type: string;
+  channel_id: string;
+  message_id: string | null;
+  created_at: number;
+  started_at: number | null;
+}
+
+export class QueueJournal {
+  private readonly db: Database.Database;
+  private readonly upsertStmt: Database.Statement;
+  private readonly markRunningStmt: Database.Statement;
+  private readonly removeStmt: Database.Statement;
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 3000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS queue_journal (
+        task_key TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        session_id TEXT,
+        session_user_id TEXT NOT NULL,
+        mecho_mode_id TEXT,
+        model TEXT,
+        engine TEXT NOT NULL,
+        mode_name TEXT,
+        attachments_json TEXT,
+        rotate_from_session_id TEXT,
+        respond_type TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        message_id TEXT,
+        created_at REAL NOT NULL,
+        started_at REAL
+      )
+    `);
+
+    this.upsertStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO queue_journal (
+        task_key, status, prompt, session_id, session_user_id, mecho_mode_id, model, engine,
+        mode_name, attachments_json, rotate_from_session_id, respond_type, channel_id,
+        message_id, created_at, started_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.markRunningStmt = this.db.prepare(`
+      UPDATE queue_journal
+      SET status = 'running', started_at = ?
+      WHERE task_key = ?
+    `);
+    this.removeStmt = this.db.prepare("DELETE FROM queue_journal WHERE task_key = ?");
+  }
+
+  record(entry: JournalEntry): void {
+    try {
+      this.upsertStmt.run(
+        entry.taskKey,
+        entry.status,
+        entry.prompt,
+        entry.sessionId,
+        entry.sessionUserId,
+        entry.mechoModeId,
+        entry.model,
+        entry.engine,
+        entry.modeName,
+        entry.attachments.length > 0 ? JSON.stringify(entry.attachments) : null,
+        entry.rotateFromSessionId,
+        entry.respondType,
+        entry.channelId,
+        entry.messageId,
+        entry.createdAt,
+        entry.startedAt,
+      );
+    } catch (error: unknown) {
+      // The journal is best-effort; never block the live queue on DB errors.
+      console.warn(`[queue-journal] record failed key=${entry.taskKey}:`, error);
+    }
+  }
+
+  markRunning(taskKey: string, startedAt = Date.now()): void {
+    try {
+      this.markRunningStmt.run(startedAt, taskKey);
+    } catch (error: unknown) {
+      console.warn(`[queue-journal] markRunning failed key=${taskKey}:`, error);
+    }
+  }
+
+  remove(taskKey: string): void {
+    try {
+      this.removeStmt.run(taskKey);
+    } catch (error: unknown) {
+      console.warn(`[queue-journal] remove failed key=${taskKey}:`, error);
+    }
+  }
+
+  list(): JournalEntry[] {
+    const rows = this.db
+      .prepare("SELECT * FROM queue_journal ORDER BY created_at ASC")
+      .all() as JournalRow[];
+    return rows.map(toEntry).filter((entry): entry is JournalEntry => entry !== null);
+  }
+
+  /** Return every journaled task and clear the table so each entry is restored at most once. */
+  drain(): JournalEntry[] {
+    const tx = this.db.transaction(() => {
+      const entries = this.list();
+      this.db.exec("DELETE FROM queue_journal");
+      return entries;
+    });
+    return tx();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toEntry(row: JournalRow): JournalEntry | null {
+  const status = row.status === "running" ? "running" : row.status === "pending" ? "pending" : null;
+  const respondType =
+    row.respond_type === "interaction" || row.respond_type === "message" || row.respond_type === "channel"
+      ? row.respond_type
+      : null;
+  const engine = isEngineType(row.engine) ? row.engine : null;
+  if (!status || !respondType || !engine) {
+    return null;
+  }
+
+  return {
+    taskKey: row.task_key,
+    status,
+    prompt: row.prompt,
+    sessionId: row.session_id,
+    sessionUserId: row.session_user_id,
+    mechoModeId: row.mecho_mode_id,
+    model: row.model,
+    engine,
+    modeName: row.mode_name,
+    attachments: parseAttachments(row.attachments_json),
+    rotateFromSessionId: row.rotate_from_session_id,
+    respondType,
+    channelId: row.channel_id,
+    messageId: row.message_id,
+    createdAt: Number(row.created_at),
+    startedAt: row.started_at === null ? null : Number(row.started_at),
+  };
+}
+
+function parseAttachments(raw: string | null): DiscordAttachmentInfo[] {
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as DiscordAttachmentInfo[]) : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Priority classes for queued tasks, highest first. A lower lane is only served
+ * when every lane above it has nothing pending.
+ */
+export const TASK_LANES = ["interactive", "team", "schedule", "heartbeat"] as const;
+
+export type TaskLane = (typeof TASK_LANES)[number];
+
+export interface LaneCandidate {
+  lane: TaskLane;
+  userId: string;
+}
+
+export function classifyTaskLane(taskKey: string): TaskLane {
+  if (taskKey.startsWith("heartbeat:")) {
+    return "heartbeat";
+  }
+  if (taskKey.startsWith("schedule:")) {
+    return "schedule";
+  }
+  if (taskKey.startsWith("team:")) {
+    return "team";
+  }
+  // User chat keys (`userId:contextId`) and restart resumes are interactive.
+  return "interactive";
+}
+
+export function laneRank(lane: TaskLane): number {
+  return TASK_LANES.indexOf(lane);
+}
+
+/**
+ * Pick the next candidate to dispatch: the highest-priority non-empty lane, then
+ * within it the user served least recently (round-robin), then FIFO order.
+ * `servedSequence` maps userId to a monotonically increasing dispatch counter.
+ */
+export function pickNextCandidateIndex(
+  candidates: readonly LaneCandidate[],
+  servedSequence: ReadonlyMap<string, number>,
+): number {
+  let bestIndex = -1;
+  let bestRank = Number.POSITIVE_INFINITY;
+  let bestServed = Number.POSITIVE_INFINITY;
+
+  for (let index = 0; index < candidates.length; index += 1) {
+    const candidate = candidates[index]!;
+    const rank = laneRank(candidate.lane);
+    const served = servedSequence.get(candidate.userId) ?? 0;
+    if (rank < bestRank || (rank === bestRank && served < bestServed)) {
+      bestIndex = index;
+      bestRank = rank;
+      bestServed = served;
+    }
+  }
+
+  return bestIndex;
+}
+
+/** Full dispatch order that repeated `pickNextCandidateIndex` calls would produce. */
+export function planDispatchOrder(
+  candidates: readonly LaneCandidate[],
+  servedSequence: ReadonlyMap<string, number>,
+  nextSequence: number,
+): number[] {
+  const remaining = candidates.map((candidate, index) => ({ candidate, index }));
+  const served = new Map(servedSequence);
+  const order: number[] = [];
+  let sequence = nextSequence;
+
+  while (remaining.length > 0) {
+    const picked = pickNextCandidateIndex(
+      remaining.map((item) => item.candidate),
+      served,
+    );
+    const [item] = remaining.splice(picked, 1);
+    if (!item) {
+      break;
+    }
+    order.push(item.index);
+    served.set(item.candidate.userId, sequence);
+    sequence += 1;
+  }
+
+  return order;
+}
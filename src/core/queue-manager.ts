@@ -1,10 +1,17 @@
 import fs from "node:fs";
 import path from "node:path";
 import { AttachmentBuilder } from "discord.js";
-import type { ChatInputCommandInteraction, Message, TextBasedChannel } from "discord.js";
+import type {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ChatInputCommandInteraction,
+  Message,
+  TextBasedChannel,
+} from "discord.js";
 import type { Config } from "../utils/config.js";
 import { MechoClient, buildMechoSessionKey } from "../integrations/mecho-client.js";
 import { formatError, splitMessage } from "../utils/formatter.js";
+import { buildFinalButtons, buildLiveButtons } from "../utils/task-buttons.js";
 import type { EngineType, LLMRunner, RunEvent, RunOptions, RunResult, UsageInfo } from "./llm-runner.js";
 import {
   isCancelledError,
@@ -16,6 +23,19 @@ import { SessionManager } from "./session-manager.js";
 import { VerboseManager } from "./verbose-manager.js";
 import { PersonaManager } from "./persona-manager.js";
 import { MechoModeManager } from "./mecho-mode-manager.js";
+import { defaultModelForEngine } from "./model-manager.js";
+import type { JournalEntry, QueueJournal } from "./queue-journal.js";
+import type { ApprovalManager } from "./approval-manager.js";
+import { estimateCost, type UsageLedger } from "./usage-ledger.js";
+import type { BudgetManager } from "./budget-manager.js";
+import {
+  TASK_LANES,
+  classifyTaskLane,
+  pickNextCandidateIndex,
+  planDispatchOrder,
+  type LaneCandidate,
+  type TaskLane,
+} from "./queue-lanes.js";
 import {
   RESTART_DIRECTIVE_FILE_NAME,
   RestartManager,
@@ -42,8 +62,28 @@ export interface QueueTask {
   engine: EngineType;
   attachments?: DiscordAttachmentInfo[];
   modeName?: string;
+  /** Directories the run may use besides its turn workspace (e.g. a team run's artifact directory). */
+  extraDirs?: string[];
   onComplete?: (result: RunResult) => void;
+  /**
+   * Observes the outcome without taking over delivery (unlike onComplete). Tasks carrying it are
+   * kept out of the journal; their owner (the scheduler) recovers missed runs itself.
+   */
+  onFinished?: (outcome: TaskOutcome) => void;
+  /** Replaces posting the reply to `respondTo`; returns a link to the first message, if any. */
+  deliver?: (result: RunResult, attachments: AttachmentBuilder[]) => Promise<string | null>;
   rotateFromSessionId?: string | null;
+  /** Set when a budget forced a cheaper model; appended to the final reply. */
+  budgetNotice?: string;
+}
+
+/** What a finished (or cancelled-while-pending) task produced. */
+export interface TaskOutcome {
+  result: RunResult;
+  startedAt: number;
+  finishedAt: number;
+  /** Link to the first response message, when the target exposes one. */
+  messageUrl: string | null;
 }
 
 export type RespondTarget =
@@ -53,8 +93,23 @@ export type RespondTarget =
 
 export interface EnqueueResult {
   accepted: boolean;
-  reason: "ok" | "queue_full" | "duplicate";
+  reason: "ok" | "queue_full" | "duplicate" | "budget_exceeded";
   position: number;
+  /** User-facing explanation for `budget_exceeded`. */
+  message?: string;
+}
+
+export interface FollowUpInput {
+  prompt: string;
+  attachments?: DiscordAttachmentInfo[];
+  respondTo: RespondTarget;
+}
+
+export interface FollowUpResult {
+  accepted: boolean;
+  reason: "buffered" | "merged" | "not_found" | "buffer_full";
+  /** Follow-ups waiting for the current run (buffered) or folded into the pending task (merged). */
+  count: number;
 }
 
 export interface CancelResult {
@@ -64,6 +119,7 @@ export interface CancelResult {
 
 export interface CurrentTaskSnapshot {
   taskKey: string;
+  lane: TaskLane;
   engine: EngineType;
   model: string | null;
   createdAt: number;
@@ -73,6 +129,40 @@ export interface CurrentTaskSnapshot {
   respondToType: RespondTarget["type"];
 }
 
+export interface PendingTaskSummary {
+  taskKey: string;
+  lane: TaskLane;
+  userId: string;
+}
+
+export interface SlotUsage {
+  /** Engine name or model string the limit applies to. */
+  key: string;
+  kind: "engine" | "model";
+  active: number;
+  limit: number | null;
+}
+
+export interface LaneSnapshot {
+  /** Lane the next dispatch will be taken from, or null when nothing is pending. */
+  activeLane: TaskLane | null;
+  pendingByLane: Record<TaskLane, number>;
+}
+
+/** Prompt of the last finished user turn, kept so the Retry button can resend it. */
+export interface LastPromptSnapshot {
+  prompt: string;
+  attachments?: DiscordAttachmentInfo[];
+  engine: EngineType;
+  model: string | null;
+  mechoModeId?: string | null;
+  modeName?: string;
+}
+
+type ButtonRows = ActionRowBuilder<ButtonBuilder>[];
+
+const LAST_PROMPT_CACHE_LIMIT = 200;
+
 interface LiveState {
   lastStatus: string | null;
   recentEvents: string[];
@@ -95,6 +185,13 @@ interface RunningTaskState {
   turnWorkspace: TurnWorkspace;
   turnInputFiles: string[];
   abortRun: (() => void) | null;
+  approvalToken: string | null;
+  /** Runner invocations for this turn, including internal retries. */
+  attempts: number;
+  /** Token usage summed over all attempts. */
+  usage: UsageInfo | null;
+  /** Model the latest attempt ran on; retries can fall back to the engine default. */
+  model: string;
 }
 
 interface RestartDirectiveHandlingResult {
@@ -107,8 +204,13 @@ export class QueueManager {
   private readonly queue: QueueTask[] = [];
   private readonly runningTasks = new Map<string, RunningTaskState>();
   private readonly cancelRequestedTaskKeys = new Set<string>();
+  private readonly servedSequenceByUser = new Map<string, number>();
+  private readonly followUps = new Map<string, FollowUpInput[]>();
+  private readonly mergedFollowUpCounts = new Map<string, number>();
+  private readonly lastPrompts = new Map<string, LastPromptSnapshot>();
   private restartShutdownRequested = false;
   private turnSequence = 0;
+  private dispatchSequence = 0;
 
   constructor(
     private readonly runners: Map<string, LLMRunner>,
@@ -118,6 +220,10 @@ export class QueueManager {
     private readonly personas: PersonaManager,
     private readonly mechoModes: MechoModeManager,
     private readonly restarts: RestartManager,
+    private readonly journal: QueueJournal | null = null,
+    private readonly approvals: ApprovalManager | null = null,
+    private readonly usageLedger: UsageLedger | null = null,
+    private readonly budgets: BudgetManager | null = null,
   ) {}
 
   private getRunner(engine: string): LLMRunner {
@@ -181,6 +287,7 @@ export class QueueManager {
     const startedAt = state.startedAt;
     return {
       taskKey: task.taskKey,
+      lane: classifyTaskLane(task.taskKey),
       engine: task.engine,
       model: task.model,
       createdAt: task.createdAt,
@@ -191,8 +298,82 @@ export class QueueManager {
     };
   }
 
+  /**
+   * Hand over tasks journaled by a previous process (pending or interrupted mid-run).
+   * The journal is cleared so each task is restored at most once.
+   */
+  takeJournaledTasks(): JournalEntry[] {
+    if (!this.journal) {
+      return [];
+    }
+    try {
+      return this.journal.drain();
+    } catch (error: unknown) {
+      console.error("[queue] failed to read task journal:", error);
+      return [];
+    }
+  }
+
+  close(): void {
+    this.journal?.close();
+  }
+
   listPendingTaskKeys(limit = 10): string[] {
-    return this.queue.slice(0, Math.max(0, limit)).map((task) => task.taskKey);
+    return this.listPendingTasks(limit).map((task) => task.taskKey);
+  }
+
+  /** Pending tasks in the order they will be dispatched (lane priority, then per-user round-robin). */
+  listPendingTasks(limit = 10): PendingTaskSummary[] {
+    const candidates = this.queue.map((task) => this.toLaneCandidate(task));
+    return planDispatchOrder(candidates, this.servedSequenceByUser, this.dispatchSequence + 1)
+      .slice(0, Math.max(0, limit))
+      .map((index) => ({
+        taskKey: this.queue[index]!.taskKey,
+        lane: candidates[index]!.lane,
+        userId: candidates[index]!.userId,
+      }));
+  }
+
+  /** Running count against each engine cap and each configured per-model cap. */
+  getSlotUsage(): SlotUsage[] {
+    const usage: SlotUsage[] = [];
+    for (const engine of this.runners.keys()) {
+      usage.push({
+        key: engine,
+        kind: "engine",
+        active: this.countRunning((task) => task.engine === engine),
+        limit: this.engineLimit(engine as EngineType),
+      });
+    }
+    for (const [model, limit] of this.config.modelConcurrencyLimits) {
+      usage.push({
+        key: model,
+        kind: "model",
+        active: this.countRunning((task) => this.effectiveModel(task) === model),
+        limit,
+      });
+    }
+    return usage;
+  }
+
+  getLaneSnapshot(): LaneSnapshot {
+    const pendingByLane = Object.fromEntries(TASK_LANES.map((lane) => [lane, 0])) as Record<
+      TaskLane,
+      number
+    >;
+    for (const task of this.queue) {
+      pendingByLane[classifyTaskLane(task.taskKey)] += 1;
+    }
+    const activeLane = TASK_LANES.find((lane) => pendingByLane[lane] > 0) ?? null;
+    return { activeLane, pendingByLane };
+  }
+
+  getLastPrompt(taskKey: string): LastPromptSnapshot | null {
+    return this.lastPrompts.get(taskKey) ?? null;
+  }
+
+  isLiveUpdateEnabled(taskKey: string): boolean {
+    return this.runningTasks.get(taskKey)?.liveUpdate?.isEnabled ?? false;
   }
 
   /**
@@ -263,7 +444,30 @@ export class QueueManager {
       };
     }
 
+    if (this.budgets?.enabled) {
+      const { userId } = this.extractIds(task);
+      const decision = this.budgets.evaluate({
+        taskKey: task.taskKey,
+        userId,
+        channelId: this.extractChannelId(task.respondTo),
+        model: this.effectiveModel(task),
+        engine: task.engine,
+      });
+      if (decision.action === "reject") {
+        console.log(`[budget] rejected key=${task.taskKey} user=${userId}`);
+        return { accepted: false, reason: "budget_exceeded", position: 0, message: decision.message };
+      }
+      if (decision.action === "downgrade") {
+        console.log(
+          `[budget] downgrade key=${task.taskKey} from=${this.effectiveModel(task)} to=${decision.model}`,
+        );
+        task.model = decision.model;
+        task.budgetNotice = decision.notice;
+      }
+    }
+
     this.queue.push(task);
+    this.journalTask(task, "pending");
     console.log(
       `[queue] enqueue key=${task.taskKey} position=${this.positionOf(task.taskKey)} pending=${this.queue.length} active=${this.runningTasks.size}`,
     );
@@ -271,6 +475,42 @@ export class QueueManager {
     return { accepted: true, reason: "ok", position: this.positionOf(task.taskKey) };
   }
 
+  /**
+   * Attach a follow-up message to a conversation that is already in flight.
+   * Pending tasks absorb it directly; running tasks buffer it and the buffered
+   * follow-ups are delivered as one coalesced turn on the same session afterwards.
+   */
+  appendFollowUp(taskKey: string, followUp: FollowUpInput): FollowUpResult {
+    const pending = this.queue.find((task) => task.taskKey === taskKey);
+    if (pending) {
+      const merged = (this.mergedFollowUpCounts.get(taskKey) ?? 0) + 1;
+      if (merged > this.config.followUpBufferMax) {
+        return { accepted: false, reason: "buffer_full", count: merged - 1 };
+      }
+      pending.prompt = coalesceFollowUpPrompts([pending.prompt, followUp.prompt]);
+      if (followUp.attachments?.length) {
+        pending.attachments = [...(pending.attachments ?? []), ...followUp.attachments];
+      }
+      this.mergedFollowUpCounts.set(taskKey, merged);
+      this.journalTask(pending, "pending");
+      console.log(`[queue] follow-up merged key=${taskKey} count=${merged}`);
+      return { accepted: true, reason: "merged", count: merged };
+    }
+
+    if (!this.runningTasks.has(taskKey)) {
+      return { accepted: false, reason: "not_found", count: 0 };
+    }
+
+    const buffered = this.followUps.get(taskKey) ?? [];
+    if (buffered.length >= this.config.followUpBufferMax) {
+      return { accepted: false, reason: "buffer_full", count: buffered.length };
+    }
+    buffered.push(followUp);
+    this.followUps.set(taskKey, buffered);
+    console.log(`[queue] follow-up buffered key=${taskKey} count=${buffered.length}`);
+    return { accepted: true, reason: "buffered", count: buffered.length };
+  }
+
   cancel(taskKey: string): CancelResult {
     let cancelledRunning = false;
     const running = this.runningTasks.get(taskKey);
@@ -298,11 +538,23 @@ export class QueueManager {
       }
       cancelledPendingTasks.push(queued);
       this.queue.splice(index, 1);
+      this.journal?.remove(queued.taskKey);
       removedPending += 1;
     }
 
+    const bufferedFollowUps = this.followUps.get(taskKey) ?? [];
+    this.followUps.delete(taskKey);
+    this.mergedFollowUpCounts.delete(taskKey);
+    removedPending += bufferedFollowUps.length;
+
     for (const cancelledTask of cancelledPendingTasks) {
-      void this.sendResponse(cancelledTask.respondTo, buildCancelledResult());
+      const cancelled = buildCancelledResult();
+      void this.sendResponse(cancelledTask.respondTo, cancelled);
+      this.completeTask(cancelledTask, cancelled);
+      this.notifyFinished(cancelledTask, cancelled, Date.now(), null);
+    }
+    for (const followUp of bufferedFollowUps) {
+      void this.sendResponse(followUp.respondTo, buildCancelledResult());
     }
 
     if (cancelledRunning || removedPending > 0) {
@@ -353,7 +605,7 @@ export class QueueManager {
       return 1;
     }
 
-    const index = this.queue.findIndex((task) => task.taskKey === taskKey);
+    const index = this.listPendingTaskKeys(this.queue.length).indexOf(taskKey);
     if (index >= 0) {
       return index + this.runningTasks.size + 1;
     }
@@ -412,7 +664,7 @@ export class QueueManager {
       this.runningTasks.size < this.config.maxConcurrentRuns &&
       this.queue.length > 0
     ) {
-      const task = this.queue.shift();
+      const task = this.takeNextTask();
       if (!task) {
         break;
       }
@@ -420,13 +672,168 @@ export class QueueManager {
     }
   }
 
+  private takeNextTask(): QueueTask | null {
+    // Tasks whose engine/model slots are full stay queued without blocking other engines.
+    const runnableIndexes: number[] = [];
+    this.queue.forEach((task, index) => {
+      if (this.hasFreeSlot(task)) {
+        runnableIndexes.push(index);
+      }
+    });
+    const candidates = runnableIndexes.map((index) => this.toLaneCandidate(this.queue[index]!));
+    const picked = pickNextCandidateIndex(candidates, this.servedSequenceByUser);
+    if (picked < 0) {
+      return null;
+    }
+
+    const [task] = this.queue.splice(runnableIndexes[picked]!, 1);
+    const candidate = candidates[picked];
+    if (!task || !candidate) {
+      return null;
+    }
+    this.mergedFollowUpCounts.delete(task.taskKey);
+
+    this.dispatchSequence += 1;
+    this.servedSequenceByUser.set(candidate.userId, this.dispatchSequence);
+    this.pruneServedSequence(candidate.userId);
+    console.log(
+      `[queue] dispatch key=${task.taskKey} lane=${candidate.lane} user=${candidate.userId} pending=${this.queue.length}`,
+    );
+    return task;
+  }
+
+  private hasFreeSlot(task: QueueTask): boolean {
+    const engineLimit = this.engineLimit(task.engine);
+    if (
+      engineLimit !== null &&
+      this.countRunning((running) => running.engine === task.engine) >= engineLimit
+    ) {
+      return false;
+    }
+
+    const model = this.effectiveModel(task);
+    const modelLimit = model ? this.config.modelConcurrencyLimits.get(model) : undefined;
+    if (
+      modelLimit !== undefined &&
+      this.countRunning((running) => this.effectiveModel(running) === model) >= modelLimit
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private engineLimit(engine: EngineType): number | null {
+    switch (engine) {
+      case "claude":
+        return this.config.claudeMaxConcurrentRuns;
+      case "codex":
+        return this.config.codexMaxConcurrentRuns;
+      case "openai":
+        return this.config.openaiCompatMaxConcurrentRuns;
+    }
+  }
+
+  private effectiveModel(task: QueueTask): string {
+    const explicit = task.model?.trim();
+    if (explicit) {
+      return explicit;
+    }
+    return defaultModelForEngine(this.config, task.engine);
+  }
+
+  private countRunning(predicate: (task: QueueTask) => boolean): number {
+    let count = 0;
+    for (const state of this.runningTasks.values()) {
+      if (predicate(state.task)) {
+        count += 1;
+      }
+    }
+    return count;
+  }
+
+  private enqueueBufferedFollowUps(finished: QueueTask): void {
+    const buffered = this.followUps.get(finished.taskKey);
+    this.followUps.delete(finished.taskKey);
+    if (!buffered || buffered.length === 0) {
+      return;
+    }
+
+    const last = buffered[buffered.length - 1]!;
+    const attachments = buffered.flatMap((followUp) => followUp.attachments ?? []);
+    const { userId, contextId } = this.extractIds(finished);
+    const result = this.enqueue({
+      prompt: coalesceFollowUpPrompts(buffered.map((followUp) => followUp.prompt)),
+      sessionId: this.sessions.getSession(userId, contextId, finished.engine),
+      sessionUserId: finished.sessionUserId,
+      mechoModeId: finished.mechoModeId,
+      model: finished.model,
+      taskKey: finished.taskKey,
+      respondTo: last.respondTo,
+      createdAt: Date.now(),
+      engine: finished.engine,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      modeName: finished.modeName,
+    });
+
+    if (!result.accepted) {
+      console.warn(
+        `[queue] follow-up enqueue failed key=${finished.taskKey} reason=${result.reason}`,
+      );
+      void this.sendError(
+        last.respondTo,
+        result.message ?? `후속 메시지를 처리하지 못했습니다 (${result.reason}).`,
+      );
+      return;
+    }
+    console.log(
+      `[queue] follow-up delivered key=${finished.taskKey} messages=${buffered.length}`,
+    );
+  }
+
+  private toLaneCandidate(task: QueueTask): LaneCandidate {
+    return {
+      lane: classifyTaskLane(task.taskKey),
+      userId: this.extractIds(task).userId,
+    };
+  }
+
+  /** Forget users with nothing queued or running so the fairness map stays bounded. */
+  private pruneServedSequence(dispatchedUserId: string): void {
+    if (this.servedSequenceByUser.size <= this.config.maxQueueSize) {
+      return;
+    }
+    const activeUsers = new Set<string>([dispatchedUserId]);
+    for (const task of this.queue) {
+      activeUsers.add(this.extractIds(task).userId);
+    }
+    for (const state of this.runningTasks.values()) {
+      activeUsers.add(this.extractIds(state.task).userId);
+    }
+    for (const userId of this.servedSequenceByUser.keys()) {
+      if (!activeUsers.has(userId)) {
+        this.servedSequenceByUser.delete(userId);
+      }
+    }
+  }
+
   private async runQueuedTask(task: QueueTask): Promise<void> {
     let turnWorkspace: TurnWorkspace;
     try {
       turnWorkspace = createTurnWorkspace(this.config.dataDir, task.taskKey, ++this.turnSequence);
     } catch (error: unknown) {
       console.error(`[queue] failed to create turn workspace key=${task.taskKey}:`, error);
+      this.journal?.remove(task.taskKey);
       const errText = error instanceof Error ? error.message : String(error);
+      this.completeTask(task, {
+        success: false,
+        text: "",
+        sessionId: null,
+        error: errText,
+        durationMs: 0,
+        isTimeout: false,
+        usage: null,
+      });
       await this.sendError(task.respondTo, errText);
       return;
     }
@@ -441,8 +848,15 @@ export class QueueManager {
       turnWorkspace,
       turnInputFiles: [],
       abortRun: null,
+      approvalToken: null,
+      attempts: 0,
+      usage: null,
+      model: this.effectiveModel(task),
     };
     this.runningTasks.set(task.taskKey, state);
+    this.journal?.markRunning(task.taskKey, startedAt);
+    let completed = false;
+    let runResult: RunResult | null = null;
 
     const canStream = task.respondTo.type !== "channel";
     const isHeartbeat = task.taskKey.startsWith("heartbeat:");
@@ -532,6 +946,7 @@ export class QueueManager {
         state.turnInputFiles = collectInputFiles(state.turnWorkspace.inputDir);
       }
 
+      state.approvalToken = this.openApprovalSession(task, state.turnWorkspace);
       let result = await this.runTask(
         task,
         state.turnInputFiles,
@@ -577,6 +992,7 @@ export class QueueManager {
 
       const { userId, contextId } = this.extractIds(task);
       const persistedSessionId = result.sessionId || task.sessionId;
+      runResult = result;
 
       if (result.sessionId) {
         this.sessions.saveSession(userId, contextId, task.engine, result.sessionId);
@@ -602,6 +1018,10 @@ export class QueueManager {
         }
       }
 
+      if (result.success && task.budgetNotice) {
+        result = { ...result, text: appendResultText(result.text, task.budgetNotice) };
+      }
+
       let restartHandling: RestartDirectiveHandlingResult | null = null;
       if (result.success) {
         restartHandling = this.handleRestartDirective({
@@ -629,40 +1049,61 @@ export class QueueManager {
       const attachments = collectOutputFiles(state.turnWorkspace.outputDir, {
         skipNames: restartHandling?.skipFileNames || new Set([RESTART_DIRECTIVE_FILE_NAME]),
       });
-      if (state.liveUpdate) {
-        await state.liveUpdate.sendFinal(result, attachments);
-      } else {
-        await this.sendResponse(task.respondTo, result, attachments);
-      }
-      task.onComplete?.(result);
+      this.rememberLastPrompt(task);
+      const finalButtons = buildFinalButtons(task.taskKey);
+      const messageUrl = state.liveUpdate
+        ? await state.liveUpdate.sendFinal(result, attachments, finalButtons)
+        : task.deliver
+          ? await task.deliver(result, attachments)
+          : await this.sendResponse(task.respondTo, result, attachments, finalButtons);
+      completed = true;
+      this.completeTask(task, result);
+      this.notifyFinished(task, result, startedAt, messageUrl);
       console.log(
         `[queue] done key=${task.taskKey} success=${result.success} attachments=${attachments.length} durationMs=${result.durationMs} totalMs=${Date.now() - startedAt} remaining=${this.queue.length} active=${this.runningTasks.size}`,
       );
     } catch (error: unknown) {
       console.error(`[queue] fail key=${task.taskKey}:`, error);
       const errText = error instanceof Error ? error.message : String(error);
+      const failed: RunResult = {
+        success: false,
+        text: "",
+        sessionId: null,
+        error: errText,
+        durationMs: Date.now() - startedAt,
+        isTimeout: false,
+        usage: null,
+      };
+      // onComplete owners (team steps) wait on it; a throw before or during delivery must still settle them.
+      if (!completed) {
+        completed = true;
+        this.completeTask(task, failed);
+      }
+      let messageUrl: string | null = null;
       if (state.liveUpdate) {
-        await state.liveUpdate.sendFinal(
-          {
-            success: false,
-            text: "",
-            sessionId: null,
-            error: errText,
-            durationMs: Date.now() - startedAt,
-            isTimeout: false,
-            usage: null,
-          },
-          [],
-        );
+        messageUrl = await state.liveUpdate.sendFinal(failed, []);
+      } else if (task.deliver) {
+        messageUrl = await task.deliver(failed, []).catch((deliverError: unknown) => {
+          console.error(`[queue] deliver failed key=${task.taskKey}:`, deliverError);
+          return null;
+        });
       } else {
         await this.sendError(task.respondTo, errText);
       }
+      this.notifyFinished(task, failed, startedAt, messageUrl);
     } finally {
+      // Written here so runs that throw after reaching the runner still leave a ledger row.
+      this.recordUsage(task, state, runResult);
       state.liveUpdate?.stop();
       state.stopTyping();
+      if (state.approvalToken) {
+        this.approvals?.closeSession(state.approvalToken);
+      }
       this.cancelRequestedTaskKeys.delete(task.taskKey);
       this.runningTasks.delete(task.taskKey);
+      this.journal?.remove(task.taskKey);
       cleanupTurnWorkspace(state.turnWorkspace);
+      this.enqueueBufferedFollowUps(task);
       this.processNext();
       this.maybeShutdownForRestart();
     }
@@ -735,9 +1176,23 @@ export class QueueManager {
         })
       : null;
 
+    // Every runner invocation (including retries) is counted toward the usage ledger.
+    const countedRun = async (options: RunOptions): Promise<RunResult> => {
+      const runningState = this.runningTasks.get(task.taskKey);
+      if (!runningState) {
+        return runner.run(options);
+      }
+      runningState.model = options.model?.trim() || defaultModelForEngine(this.config, task.engine);
+      // Counted before awaiting so an attempt that throws still shows up in the ledger.
+      runningState.attempts += 1;
+      const result = await runner.run(options);
+      runningState.usage = addUsage(runningState.usage, result.usage);
+      return result;
+    };
+
     const runWithMecho = async (options: RunOptions): Promise<RunResult> => {
       if (!mechoClient.enabled || !mechoModeId || !mechoSessionKey) {
-        return runner.run(options);
+        return countedRun(options);
       }
 
       let prepareId: string | null = null;
@@ -766,7 +1221,7 @@ export class QueueManager {
         console.warn("[mecho] prepare failed; continuing without memory injection:", error);
       }
 
-      const result = await runner.run({
+      const result = await countedRun({
         ...options,
         prompt,
       });
@@ -798,6 +1253,9 @@ export class QueueManager {
       onEvent,
       onAbortReady,
       envOverrides: this.buildRunnerEnvOverrides(mechoModeId),
+      outputDir: turnWorkspace.outputDir,
+      ...(task.extraDirs?.length ? { addDirs: task.extraDirs } : {}),
+      approvalToken: this.runningTasks.get(task.taskKey)?.approvalToken ?? undefined,
     };
 
     let result = await runWithMecho(runOptions);
@@ -962,21 +1420,72 @@ export class QueueManager {
     }
   }
 
+  /** Returns the first sent message's link for channel targets, otherwise null. */
   private async sendResponse(
     target: RespondTarget,
     result: RunResult,
     attachments: AttachmentBuilder[] = [],
-  ): Promise<void> {
+    components: ButtonRows = [],
+  ): Promise<string | null> {
     const chunks = buildResponseChunks(result);
     if (target.type === "interaction") {
-      await sendToInteraction(target.interaction, chunks, attachments);
-      return;
+      await sendToInteraction(target.interaction, chunks, attachments, components);
+      return null;
     }
     if (target.type === "message") {
-      await sendToMessage(target.message, chunks, attachments);
+      await sendToMessage(target.message, chunks, attachments, components);
+      return null;
+    }
+    return sendToChannel(target.channel, chunks, attachments, components);
+  }
+
+  private notifyFinished(
+    task: QueueTask,
+    result: RunResult,
+    startedAt: number,
+    messageUrl: string | null,
+  ): void {
+    if (!task.onFinished) {
+      return;
+    }
+    try {
+      task.onFinished({ result, startedAt, finishedAt: Date.now(), messageUrl });
+    } catch (error: unknown) {
+      console.warn(`[queue] onFinished failed key=${task.taskKey}:`, error);
+    }
+  }
+
+  private completeTask(task: QueueTask, result: RunResult): void {
+    if (!task.onComplete) {
+      return;
+    }
+    try {
+      task.onComplete(result);
+    } catch (error: unknown) {
+      console.warn(`[queue] onComplete failed key=${task.taskKey}:`, error);
+    }
+  }
+
+  private rememberLastPrompt(task: QueueTask): void {
+    if (task.onComplete) {
       return;
     }
-    await sendToChannel(target.channel, chunks, attachments);
+    this.lastPrompts.delete(task.taskKey);
+    this.lastPrompts.set(task.taskKey, {
+      prompt: task.prompt,
+      attachments: task.attachments,
+      engine: task.engine,
+      model: task.model,
+      mechoModeId: task.mechoModeId,
+      modeName: task.modeName,
+    });
+    while (this.lastPrompts.size > LAST_PROMPT_CACHE_LIMIT) {
+      const oldest = this.lastPrompts.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.lastPrompts.delete(oldest);
+    }
   }
 
   private async sendError(target: RespondTarget, error: string): Promise<void> {
@@ -1111,6 +1620,101 @@ export class QueueManager {
     };
   }
 
+  /** Claude runs only; Codex has no permission-prompt hook and is sandboxed instead. */
+  private openApprovalSession(task: QueueTask, workspace: TurnWorkspace): string | null {
+    if (!this.approvals?.enabled || task.engine !== "claude") {
+      return null;
+    }
+
+    const { userId } = this.extractIds(task);
+    // Heartbeat output goes to an intercept channel nobody answers; use the timeout default.
+    const channel = task.taskKey.startsWith("heartbeat:")
+      ? null
+      : this.extractChannel(task.respondTo);
+    return this.approvals.openSession({
+      taskKey: task.taskKey,
+      ownerId: /^\d+$/.test(userId) ? userId : this.config.ownerId,
+      channel,
+      workspaceRoots: [
+        workspace.rootDir,
+        this.config.claudeOutputDir,
+        this.config.claudeInputDir,
+        ...this.config.claudeAddDirs,
+        ...(task.extraDirs ?? []),
+      ],
+    });
+  }
+
+  private extractChannel(target: RespondTarget): TextBasedChannel | null {
+    if (target.type === "interaction") {
+      return target.interaction.channel;
+    }
+    if (target.type === "message") {
+      return target.message.channel;
+    }
+    return target.channel;
+  }
+
+  private journalTask(task: QueueTask, status: JournalEntry["status"]): void {
+    if (!this.journal) {
+      return;
+    }
+    // Callback-driven tasks (team steps, custom delivery, schedule runs with history hooks) and
+    // heartbeat intercept channels cannot be rebuilt from ids alone; their owners re-issue them
+    // on their own schedule (schedules through their catch-up policy).
+    if (task.onComplete || task.onFinished || task.deliver || task.taskKey.startsWith("heartbeat:")) {
+      return;
+    }
+
+    const channelId = this.extractChannelId(task.respondTo);
+    if (!channelId) {
+      return;
+    }
+
+    const { userId } = this.extractIds(task);
+    this.journal.record({
+      taskKey: task.taskKey,
+      status,
+      prompt: task.prompt,
+      sessionId: task.sessionId,
+      sessionUserId: userId,
+      mechoModeId: task.mechoModeId ?? null,
+      model: task.model,
+      engine: task.engine,
+      modeName: task.modeName ?? null,
+      attachments: task.attachments ?? [],
+      rotateFromSessionId: task.rotateFromSessionId ?? null,
+      respondType: task.respondTo.type,
+      channelId,
+      messageId: task.respondTo.type === "message" ? task.respondTo.message.id : null,
+      createdAt: task.createdAt,
+      startedAt: null,
+    });
+  }
+
+  private recordUsage(task: QueueTask, state: RunningTaskState, result: RunResult | null): void {
+    // Skip turns cancelled before the runner was ever invoked; they cost nothing.
+    if (!this.usageLedger || state.attempts === 0) {
+      return;
+    }
+
+    const model = state.model;
+    this.usageLedger.record({
+      taskKey: task.taskKey,
+      lane: classifyTaskLane(task.taskKey),
+      userId: this.extractIds(task).userId,
+      channelId: this.extractChannelId(task.respondTo),
+      engine: task.engine,
+      model,
+      success: result?.success ?? false,
+      durationMs: Date.now() - state.startedAt,
+      retryCount: state.attempts - 1,
+      usage: state.usage,
+      costUsd: estimateCost(state.usage, model, this.config.modelPrices),
+      createdAt: Date.now(),
+    });
+  }
+
   private extractChannelId(target: RespondTarget): string | null {
     if (target.type === "interaction") {
       return target.interaction.channelId || null;
@@ -1202,6 +1806,10 @@ class LiveUpdate {
     return ok ? live : null;
   }
 
+  get isEnabled(): boolean {
+    return this.enabled && !this.stopped;
+  }
+
   stop(): void {
     this.stopped = true;
     this.clearTimers();
@@ -1233,12 +1841,16 @@ class LiveUpdate {
     this.scheduleFlush();
   }
 
-  async sendFinal(result: RunResult, attachments: AttachmentBuilder[]): Promise<void> {
+  async sendFinal(
+    result: RunResult,
+    attachments: AttachmentBuilder[],
+    components: ButtonRows = [],
+  ): Promise<string | null> {
     this.stop();
 
     const message = this.message;
     if (!message) {
-      return;
+      return null;
     }
 
     const chunks = buildResponseChunks(result);
@@ -1246,10 +1858,11 @@ class LiveUpdate {
     const firstText = first || "완료";
 
     try {
-      await message.edit({ content: firstText });
+      // Live buttons are replaced; final buttons go on the last message of the response.
+      await message.edit({ content: firstText, components: rest.length === 0 ? components : [] });
     } catch (error: unknown) {
       console.error("[live] message.edit failed:", error);
-      return;
+      return null;
     }
 
     if (attachments.length > 0) {
@@ -1260,13 +1873,15 @@ class LiveUpdate {
       }
     }
 
-    for (const chunk of rest) {
-      await sendMessageChunk(message, chunk);
+    for (let i = 0; i < rest.length; i++) {
+      await sendMessageChunk(message, rest[i]!, undefined, i === rest.length - 1 ? components : []);
     }
+    return message.url;
   }
 
   private async init(): Promise<boolean> {
     const initial = this.buildContent();
+    const components = buildLiveButtons(this.task.taskKey);
 
     if (this.target.type === "message") {
       // If we already have a bot-authored message (e.g. from a slash command reply),
@@ -1274,14 +1889,14 @@ class LiveUpdate {
       if (this.target.message.author.bot) {
         this.message = this.target.message;
         try {
-          await this.message.edit({ content: initial });
+          await this.message.edit({ content: initial, components });
         } catch (error: unknown) {
           console.error("[live] edit existing message failed:", error);
           return false;
         }
       } else {
         try {
-          this.message = await this.target.message.reply({ content: initial });
+          this.message = await this.target.message.reply({ content: initial, components });
         } catch (error: unknown) {
           console.error("[live] message.reply failed, fallback to channel.send:", error);
           const channel = this.target.message.channel as { send?: (options: unknown) => Promise<unknown> };
@@ -1289,7 +1904,7 @@ class LiveUpdate {
             return false;
           }
           try {
-            this.message = (await channel.send({ content: initial })) as Message;
+            this.message = (await channel.send({ content: initial, components })) as Message;
           } catch (sendError: unknown) {
             console.error("[live] channel.send failed:", sendError);
             return false;
@@ -1300,11 +1915,11 @@ class LiveUpdate {
       const interaction = this.target.interaction;
       try {
         if (interaction.deferred && !interaction.replied) {
-          await interaction.editReply({ content: initial });
+          await interaction.editReply({ content: initial, components });
         } else if (interaction.replied) {
-          await interaction.followUp({ content: initial });
+          await interaction.followUp({ content: initial, components });
         } else {
-          await interaction.reply({ content: initial });
+          await interaction.reply({ content: initial, components });
         }
 
         try {
@@ -1323,7 +1938,7 @@ class LiveUpdate {
           return false;
         }
         try {
-          this.message = (await channel.send({ content: initial })) as Message;
+          this.message = (await channel.send({ content: initial, components })) as Message;
         } catch (sendError: unknown) {
           console.error("[live] channel.send fallback failed:", sendError);
           return false;
@@ -1335,7 +1950,7 @@ class LiveUpdate {
         return false;
       }
       try {
-        this.message = (await channel.send({ content: initial })) as Message;
+        this.message = (await channel.send({ content: initial, components })) as Message;
       } catch (error: unknown) {
         console.error("[live] channel.send failed:", error);
         return false;
@@ -1497,6 +2112,31 @@ function extractInlineRestartDirective(
   return null;
 }
 
+function addUsage(total: UsageInfo | null, next: UsageInfo | null): UsageInfo | null {
+  if (!next) {
+    return total;
+  }
+  if (!total) {
+    return { ...next };
+  }
+  return {
+    inputTokens: total.inputTokens + next.inputTokens,
+    cacheCreationInputTokens: total.cacheCreationInputTokens + next.cacheCreationInputTokens,
+    cacheReadInputTokens: total.cacheReadInputTokens + next.cacheReadInputTokens,
+    outputTokens: total.outputTokens + next.outputTokens,
+    contextWindow: next.contextWindow,
+    totalContextTokens: next.totalContextTokens,
+  };
+}
+
+function coalesceFollowUpPrompts(prompts: string[]): string {
+  const parts = prompts.map((prompt) => prompt.trim()).filter(Boolean);
+  if (parts.length <= 1) {
+    return parts[0] ?? "";
+  }
+  return parts.join("\n\n---\n\n");
+}
+
 function buildCancelledResult(): RunResult {
   return {
     success: false,
@@ -1513,6 +2153,7 @@ async function sendToInteraction(
   interaction: ChatInputCommandInteraction,
   chunks: string[],
   attachments: AttachmentBuilder[] = [],
+  components: ButtonRows = [],
 ): Promise<void> {
   if (chunks.length === 0 && attachments.length === 0) {
     return;
@@ -1520,13 +2161,20 @@ async function sendToInteraction(
 
   try {
     const [first, ...rest] = chunks;
-    const firstPayload: { content?: string; files?: AttachmentBuilder[] } = {};
+    const firstPayload: {
+      content?: string;
+      files?: AttachmentBuilder[];
+      components?: ButtonRows;
+    } = {};
     if (first) {
       firstPayload.content = first;
     }
     if (attachments.length > 0) {
       firstPayload.files = attachments;
     }
+    if (rest.length === 0 && components.length > 0) {
+      firstPayload.components = components;
+    }
 
     if (interaction.deferred && !interaction.replied) {
       await interaction.editReply(firstPayload);
@@ -1536,8 +2184,12 @@ async function sendToInteraction(
       await interaction.reply(firstPayload);
     }
 
-    for (const chunk of rest) {
-      await interaction.followUp({ content: chunk });
+    for (let i = 0; i < rest.length; i++) {
+      const isLast = i === rest.length - 1;
+      await interaction.followUp({
+        content: rest[i]!,
+        ...(isLast && components.length > 0 ? { components } : {}),
+      });
     }
   } catch (error: unknown) {
     console.error("Failed to send interaction response:", error);
@@ -1548,6 +2200,7 @@ async function sendToMessage(
   message: Message,
   chunks: string[],
   attachments: AttachmentBuilder[] = [],
+  components: ButtonRows = [],
 ): Promise<void> {
   if (chunks.length === 0 && attachments.length === 0) {
     return;
@@ -1555,7 +2208,8 @@ async function sendToMessage(
 
   for (let i = 0; i < chunks.length; i++) {
     const files = i === 0 && attachments.length > 0 ? attachments : undefined;
-    const sent = await sendMessageChunk(message, chunks[i]!, files);
+    const rows = i === chunks.length - 1 ? components : [];
+    const sent = await sendMessageChunk(message, chunks[i]!, files, rows);
     if (!sent) {
       console.error("[queue] failed to send message chunk");
       break;
@@ -1563,7 +2217,7 @@ async function sendToMessage(
   }
 
   if (chunks.length === 0 && attachments.length > 0) {
-    await sendMessageChunk(message, "", attachments);
+    await sendMessageChunk(message, "", attachments, components);
   }
 }
 
@@ -1571,9 +2225,10 @@ async function sendToChannel(
   channel: TextBasedChannel,
   chunks: string[],
   attachments: AttachmentBuilder[] = [],
-): Promise<void> {
+  components: ButtonRows = [],
+): Promise<string | null> {
   if (chunks.length === 0 && attachments.length === 0) {
-    return;
+    return null;
   }
 
   const send = (channel as {
@@ -1582,18 +2237,23 @@ async function sendToChannel(
 
   if (typeof send !== "function") {
     console.error("[queue] target channel is not sendable");
-    return;
+    return null;
   }
 
+  let firstUrl: string | null = null;
   for (let i = 0; i < chunks.length; i++) {
     try {
-      const payload: { content: string; files?: AttachmentBuilder[] } = {
+      const payload: { content: string; files?: AttachmentBuilder[]; components?: ButtonRows } = {
         content: chunks[i]!,
       };
       if (i === 0 && attachments.length > 0) {
         payload.files = attachments;
       }
-      await send.call(channel, payload);
+      if (i === chunks.length - 1 && components.length > 0) {
+        payload.components = components;
+      }
+      const sent = await send.call(channel, payload);
+      firstUrl ??= messageUrlOf(sent);
     } catch (error: unknown) {
       console.error("[queue] channel.send failed:", error);
       break;
@@ -1602,25 +2262,39 @@ async function sendToChannel(
 
   if (chunks.length === 0 && attachments.length > 0) {
     try {
-      await send.call(channel, { files: attachments });
+      const sent = await send.call(channel, {
+        files: attachments,
+        ...(components.length > 0 ? { components } : {}),
+      });
+      firstUrl ??= messageUrlOf(sent);
     } catch (error: unknown) {
       console.error("[queue] channel.send (files only) failed:", error);
     }
   }
+  return firstUrl;
+}
+
+function messageUrlOf(sent: unknown): string | null {
+  const url = (sent as { url?: unknown } | null | undefined)?.url;
+  return typeof url === "string" ? url : null;
 }
 
 async function sendMessageChunk(
   message: Message,
   chunk: string,
   files?: AttachmentBuilder[],
+  components: ButtonRows = [],
 ): Promise<boolean> {
-  const payload: { content?: string; files?: AttachmentBuilder[] } = {};
+  const payload: { content?: string; files?: AttachmentBuilder[]; components?: ButtonRows } = {};
   if (chunk) {
     payload.content = chunk;
   }
   if (files && files.length > 0) {
     payload.files = files;
   }
+  if (components.length > 0) {
+    payload.components = components;
+  }
 
   try {
     await message.reply(payload);
@@ -2,7 +2,7 @@ import { spawnSync } from "node:child_process";
 import fs from "node:fs";
 import path from "node:path";
 import type { Config } from "../utils/config.js";
-import type { EngineType } from "./llm-runner.js";
+import { isEngineType, type EngineType } from "./llm-runner.js";
 
 export const RESTART_DIRECTIVE_FILE_NAME = ".rikoclaw-restart.json";
 
@@ -464,10 +464,7 @@ function parseDirectiveRecord(parsed: Record<string, unknown>): ParsedDirective
 }
 
 function asEngine(value: unknown): EngineType | null {
-  if (value === "claude" || value === "codex") {
-    return value;
-  }
-  return null;
+  return isEngineType(value) ? value : null;
 }
 
 function asNonEmptyString(value: unknown): string | null {
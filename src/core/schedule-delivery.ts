@@ -0,0 +1,257 @@
+import { AttachmentBuilder, WebhookClient, type Client, type TextBasedChannel } from "discord.js";
+import { formatError, splitMessage } from "../utils/formatter.js";
+import { formatWallClock } from "../utils/time-zone.js";
+import type { RunResult } from "./llm-runner.js";
+
+export const OUTPUT_TARGETS = ["channel", "thread", "dm", "webhook"] as const;
+
+export type OutputTarget = (typeof OUTPUT_TARGETS)[number];
+
+/** Per-schedule delivery settings (`output` in schedules.json). */
+export interface ScheduleOutput {
+  /** Where replies go (default: `channel`, a plain message in `channelId`). */
+  target?: OutputTarget;
+  /** `thread`: name prefix of the per-day thread; the run date is appended (default: schedule id). */
+  threadName?: string;
+  /** `dm`: users who receive the reply. */
+  dmUserIds?: string[];
+  /** `webhook`: Discord webhook URL plus optional display overrides. */
+  webhookUrl?: string;
+  webhookName?: string;
+  webhookAvatarUrl?: string;
+  /** A reply of only this token means "nothing to report"; the run posts nothing. */
+  silentToken?: string;
+  /** Replies longer than this many characters are sent as a markdown attachment. */
+  fileThreshold?: number;
+}
+
+export interface ScheduleDeliveryInput {
+  client: Client;
+  channel: TextBasedChannel;
+  scheduleId: string;
+  scheduleKey: string;
+  timezone: string;
+  output: ScheduleOutput;
+}
+
+interface DeliveryPayload {
+  chunks: string[];
+  files: AttachmentBuilder[];
+}
+
+type Sendable = { send: (options: unknown) => Promise<unknown> };
+
+// Auto-archive after a day, matching the one-thread-per-day naming.
+const THREAD_ARCHIVE_MINUTES = 1440;
+
+/** Validates an `output` block, throwing on settings the chosen target cannot work with. */
+export function parseScheduleOutput(value: unknown): ScheduleOutput | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("output must be an object");
+  }
+
+  const item = value as Record<string, unknown>;
+  const target = item.target === undefined ? "channel" : OUTPUT_TARGETS.find((entry) => entry === item.target);
+  if (!target) {
+    throw new Error(`output.target must be one of ${OUTPUT_TARGETS.join(", ")}`);
+  }
+
+  const output: ScheduleOutput = { target };
+  const threadName = optionalString(item.threadName);
+  if (threadName) {
+    output.threadName = threadName;
+  }
+  if (target === "dm") {
+    const ids = Array.isArray(item.dmUserIds)
+      ? item.dmUserIds.filter((id): id is string => typeof id === "string" && /^\d+$/.test(id.trim()))
+      : [];
+    if (ids.length === 0) {
+      throw new Error("output.dmUserIds needs at least one user id");
+    }
+    output.dmUserIds = ids.map((id) => id.trim());
+  }
+  if (target === "webhook") {
+    const url = optionalString(item.webhookUrl);
+    if (!url || !/^https:\/\/(?:\w+\.)?discord(?:app)?\.com\/api\/webhooks\//.test(url)) {
+      throw new Error("output.webhookUrl must be a Discord webhook URL");
+    }
+    output.webhookUrl = url;
+    output.webhookName = optionalString(item.webhookName);
+    output.webhookAvatarUrl = optionalString(item.webhookAvatarUrl);
+  }
+
+  const silentToken = optionalString(item.silentToken);
+  if (silentToken) {
+    output.silentToken = silentToken;
+  }
+  if (item.fileThreshold !== undefined) {
+    if (typeof item.fileThreshold !== "number" || !Number.isInteger(item.fileThreshold) || item.fileThreshold < 1) {
+      throw new Error("output.fileThreshold must be a positive integer");
+    }
+    output.fileThreshold = item.fileThreshold;
+  }
+  return output;
+}
+
+/** Same reading as `HEARTBEAT_OK`: the token at either end with nothing else left over. */
+export function isSentinelOnly(text: string, sentinel: string): boolean {
+  const escaped = sentinel.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return (
+    text
+      .replace(new RegExp(`^\\s*${escaped}\\s*`, "i"), "")
+      .replace(new RegExp(`\\s*${escaped}\\s*$`, "i"), "")
+      .trim().length === 0
+  );
+}
+
+/**
+ * Posts a schedule run's reply according to its `output` settings.
+ * Returns a link to the first message sent, or null when nothing was posted.
+ */
+export async function deliverScheduleResult(
+  input: ScheduleDeliveryInput,
+  result: RunResult,
+  attachments: AttachmentBuilder[],
+): Promise<string | null> {
+  const { output } = input;
+  if (result.success && output.silentToken && isSentinelOnly(result.text, output.silentToken)) {
+    console.log(`[schedule] key=${input.scheduleKey} replied ${output.silentToken}; nothing delivered`);
+    return null;
+  }
+
+  const payload = buildPayload(input, result, attachments);
+  switch (output.target ?? "channel") {
+    case "channel":
+      return sendPayload(input.channel as unknown as Sendable, payload);
+    case "thread": {
+      const thread = await resolveDailyThread(input);
+      return sendPayload(thread ?? (input.channel as unknown as Sendable), payload);
+    }
+    case "dm":
+      return sendToUsers(input, payload);
+    case "webhook":
+      return sendToWebhook(input, payload);
+  }
+}
+
+function buildPayload(
+  input: ScheduleDeliveryInput,
+  result: RunResult,
+  attachments: AttachmentBuilder[],
+): DeliveryPayload {
+  if (!result.success) {
+    return { chunks: [formatError(result.error || "알 수 없는 오류", result.isTimeout)], files: attachments };
+  }
+
+  const text = result.text.trim();
+  if (!text) {
+    return { chunks: [formatError("Claude가 빈 응답을 반환했습니다.", false)], files: attachments };
+  }
+
+  const threshold = input.output.fileThreshold;
+  if (threshold !== undefined && text.length > threshold) {
+    const date = formatWallClock(Date.now(), input.timezone).slice(0, 10);
+    const file = new AttachmentBuilder(Buffer.from(text, "utf8"), {
+      name: `${input.scheduleId}-${date}.md`,
+    });
+    const preview = text.slice(0, 300).trimEnd();
+    return {
+      chunks: [`📄 \`${input.scheduleKey}\` 결과가 길어 파일로 첨부했습니다.\n>>> ${preview}${text.length > 300 ? "…" : ""}`],
+      files: [file, ...attachments],
+    };
+  }
+
+  return { chunks: splitMessage(text), files: attachments };
+}
+
+async function sendPayload(
+  target: Sendable,
+  payload: DeliveryPayload,
+  extra: Record<string, unknown> = {},
+): Promise<string | null> {
+  let firstUrl: string | null = null;
+  for (let i = 0; i < payload.chunks.length; i++) {
+    const sent = await target.send({
+      content: payload.chunks[i],
+      ...(i === 0 && payload.files.length > 0 ? { files: payload.files } : {}),
+      ...extra,
+    });
+    const url = (sent as { url?: unknown } | null | undefined)?.url;
+    firstUrl ??= typeof url === "string" ? url : null;
+  }
+  return firstUrl;
+}
+
+/** Today's `<name> YYYY-MM-DD` thread under the schedule channel, created on first use. */
+async function resolveDailyThread(input: ScheduleDeliveryInput): Promise<Sendable | null> {
+  const date = formatWallClock(Date.now(), input.timezone).slice(0, 10);
+  const name = `${input.output.threadName || input.scheduleId} ${date}`.slice(0, 100);
+  const threads = (input.channel as {
+    threads?: {
+      cache: { find: (fn: (thread: ThreadLike) => boolean) => ThreadLike | undefined };
+      fetchActive: () => Promise<{ threads: { find: (fn: (thread: ThreadLike) => boolean) => ThreadLike | undefined } }>;
+      create: (options: { name: string; autoArchiveDuration: number; reason?: string }) => Promise<ThreadLike>;
+    };
+  }).threads;
+  if (!threads) {
+    console.warn(`[schedule] key=${input.scheduleKey} channel cannot hold threads; posting in the channel`);
+    return null;
+  }
+
+  const matches = (thread: ThreadLike) =>
+    thread.name === name && thread.parentId === input.channel.id && !thread.archived;
+  try {
+    const existing = threads.cache.find(matches) ?? (await threads.fetchActive()).threads.find(matches);
+    if (existing) {
+      return existing;
+    }
+    return await threads.create({
+      name,
+      autoArchiveDuration: THREAD_ARCHIVE_MINUTES,
+      reason: `schedule ${input.scheduleKey}`,
+    });
+  } catch (error: unknown) {
+    console.warn(`[schedule] key=${input.scheduleKey} thread unavailable; posting in the channel:`, error);
+    return null;
+  }
+}
+
+interface ThreadLike extends Sendable {
+  name: string;
+  parentId: string | null;
+  archived: boolean | null;
+}
+
+async function sendToUsers(input: ScheduleDeliveryInput, payload: DeliveryPayload): Promise<string | null> {
+  let firstUrl: string | null = null;
+  for (const userId of input.output.dmUserIds ?? []) {
+    try {
+      const user = await input.client.users.fetch(userId);
+      firstUrl ??= await sendPayload(user as unknown as Sendable, payload);
+    } catch (error: unknown) {
+      console.warn(`[schedule] key=${input.scheduleKey} DM to ${userId} failed:`, error);
+    }
+  }
+  return firstUrl;
+}
+
+async function sendToWebhook(input: ScheduleDeliveryInput, payload: DeliveryPayload): Promise<string | null> {
+  const webhook = new WebhookClient({ url: input.output.webhookUrl! });
+  try {
+    await sendPayload(webhook as unknown as Sendable, payload, {
+      ...(input.output.webhookName ? { username: input.output.webhookName } : {}),
+      ...(input.output.webhookAvatarUrl ? { avatarURL: input.output.webhookAvatarUrl } : {}),
+    });
+    // Webhook replies are raw API messages without a guild id to build a link from.
+    return null;
+  } finally {
+    webhook.destroy();
+  }
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
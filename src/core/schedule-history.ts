@@ -0,0 +1,200 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+/** Why a schedule run was enqueued. */
+export type ScheduleRunTrigger = "schedule" | "catch_up" | "manual" | "chain";
+
+export interface ScheduleRunRecord {
+  id: number;
+  scheduleKey: string;
+  trigger: ScheduleRunTrigger;
+  queuedAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  /** null while the run is still queued or running. */
+  success: boolean | null;
+  error: string | null;
+  durationMs: number | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  outputPreview: string | null;
+  messageUrl: string | null;
+}
+
+export interface ScheduleRunFinish {
+  startedAt: number;
+  finishedAt: number;
+  success: boolean;
+  error: string | null;
+  durationMs: number;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  outputPreview: string | null;
+  messageUrl: string | null;
+}
+
+interface RunRow {
+  id: number;
+  schedule_key: string;
+  trigger: string;
+  queued_at: number;
+  started_at: number | null;
+  finished_at: number | null;
+  success: number | null;
+  error: string | null;
+  duration_ms: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  output_preview: string | null;
+  message_url: string | null;
+}
+
+const PREVIEW_LIMIT = 300;
+// Runs per schedule kept in the table; older rows are pruned on insert.
+const HISTORY_LIMIT = 200;
+
+/** One row per schedule execution, stored next to the sessions table. */
+export class ScheduleHistory {
+  private readonly db: Database.Database;
+  private readonly insertStmt: Database.Statement;
+  private readonly finishStmt: Database.Statement;
+  private readonly pruneStmt: Database.Statement;
+  private readonly listStmt: Database.Statement;
+  private readonly recentOutcomesStmt: Database.Statement;
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 3000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schedule_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        schedule_key TEXT NOT NULL,
+        trigger TEXT NOT NULL,
+        queued_at REAL NOT NULL,
+        started_at REAL,
+        finished_at REAL,
+        success INTEGER,
+        error TEXT,
+        duration_ms INTEGER,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        output_preview TEXT,
+        message_url TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_schedule_runs_key ON schedule_runs(schedule_key, id);
+    `);
+
+    // Runs still open from a previous process never report back.
+    this.db
+      .prepare(
+        `UPDATE schedule_runs
+         SET finished_at = ?, success = 0, error = 'interrupted by restart'
+         WHERE finished_at IS NULL`,
+      )
+      .run(Date.now());
+
+    this.insertStmt = this.db.prepare(
+      "INSERT INTO schedule_runs (schedule_key, trigger, queued_at) VALUES (?, ?, ?)",
+    );
+    this.finishStmt = this.db.prepare(`
+      UPDATE schedule_runs
+      SET started_at = ?, finished_at = ?, success = ?, error = ?, duration_ms = ?,
+          input_tokens = ?, output_tokens = ?, output_preview = ?, message_url = ?
+      WHERE id = ?
+    `);
+    this.pruneStmt = this.db.prepare(`
+      DELETE FROM schedule_runs
+      WHERE schedule_key = ? AND id <= (
+        SELECT id FROM schedule_runs WHERE schedule_key = ? ORDER BY id DESC LIMIT 1 OFFSET ?
+      )
+    `);
+    this.listStmt = this.db.prepare(
+      "SELECT * FROM schedule_runs WHERE schedule_key = ? ORDER BY id DESC LIMIT ?",
+    );
+    this.recentOutcomesStmt = this.db.prepare(`
+      SELECT success FROM schedule_runs
+      WHERE schedule_key = ? AND finished_at IS NOT NULL
+      ORDER BY id DESC
+      LIMIT ?
+    `);
+  }
+
+  /** Records a queued run and returns its id, or null if the write failed. */
+  start(scheduleKey: string, trigger: ScheduleRunTrigger, queuedAt = Date.now()): number | null {
+    try {
+      const info = this.insertStmt.run(scheduleKey, trigger, queuedAt);
+      this.pruneStmt.run(scheduleKey, scheduleKey, HISTORY_LIMIT);
+      return Number(info.lastInsertRowid);
+    } catch (error: unknown) {
+      // History is best-effort; never block a schedule on it.
+      console.warn(`[schedule] history start failed key=${scheduleKey}:`, error);
+      return null;
+    }
+  }
+
+  finish(runId: number, outcome: ScheduleRunFinish): void {
+    try {
+      this.finishStmt.run(
+        outcome.startedAt,
+        outcome.finishedAt,
+        outcome.success ? 1 : 0,
+        outcome.error,
+        Math.round(outcome.durationMs),
+        outcome.inputTokens,
+        outcome.outputTokens,
+        outcome.outputPreview ? outcome.outputPreview.slice(0, PREVIEW_LIMIT) : null,
+        outcome.messageUrl,
+        runId,
+      );
+    } catch (error: unknown) {
+      console.warn(`[schedule] history finish failed run=${runId}:`, error);
+    }
+  }
+
+  /** Most recent runs first. */
+  list(scheduleKey: string, limit = 10): ScheduleRunRecord[] {
+    const rows = this.listStmt.all(scheduleKey, limit) as RunRow[];
+    return rows.map(toRecord);
+  }
+
+  /** Consecutive failed runs, counting back from the latest finished one. */
+  failureStreak(scheduleKey: string): number {
+    const rows = this.recentOutcomesStmt.all(scheduleKey, HISTORY_LIMIT) as Array<{
+      success: number | null;
+    }>;
+    let streak = 0;
+    for (const row of rows) {
+      if (row.success !== 0) {
+        break;
+      }
+      streak += 1;
+    }
+    return streak;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toRecord(row: RunRow): ScheduleRunRecord {
+  return {
+    id: row.id,
+    scheduleKey: row.schedule_key,
+    trigger: row.trigger as ScheduleRunTrigger,
+    queuedAt: row.queued_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    success: row.success === null ? null : row.success === 1,
+    error: row.error,
+    durationMs: row.duration_ms,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    outputPreview: row.output_preview,
+    messageUrl: row.message_url,
+  };
+}
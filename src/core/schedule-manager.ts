@@ -1,19 +1,72 @@
 import fs from "node:fs";
 import path from "node:path";
 import type { Client, TextBasedChannel } from "discord.js";
+import type { Config } from "../utils/config.js";
+import { normalizeTimeZone, toWallClockMs, wallClockToEpoch } from "../utils/time-zone.js";
 import { PersonaManager } from "./persona-manager.js";
-import { QueueManager } from "./queue-manager.js";
+import type { RunResult } from "./llm-runner.js";
+import { QueueManager, type TaskOutcome } from "./queue-manager.js";
+import {
+  deliverScheduleResult,
+  isSentinelOnly,
+  parseScheduleOutput,
+  type OutputTarget,
+  type ScheduleOutput,
+} from "./schedule-delivery.js";
+import type { ScheduleHistory, ScheduleRunRecord, ScheduleRunTrigger } from "./schedule-history.js";
+import type { ScheduleStateStore } from "./schedule-state.js";
 import { SessionManager } from "./session-manager.js";
 
 interface ScheduleDefinition {
   id: string;
-  cron: string;
+  /** Exactly one of `cron`, `at`, `every` and `after` sets when the schedule fires. */
+  cron?: string;
+  /** One-shot ISO timestamp; without an offset it is read in the schedule's timezone. */
+  at?: string;
+  /** Interval such as `90m`, `2h` or `1d12h`, counted from `anchor`. */
+  every?: string;
+  /** ISO timestamp the `every` interval is counted from (default: 2000-01-01 00:00 local). */
+  anchor?: string;
+  /** Id or key of a schedule whose completed runs fire this one, with their output prepended. */
+  after?: string;
+  /** Which upstream outcomes fire an `after` schedule (default: `any`). */
+  afterStatus?: AfterStatus;
+  /** Extra gate on the upstream output for `after` schedules. */
+  when?: ScheduleCondition;
   channelId: string;
   prompt: string;
   modeId?: string;
   enabled?: boolean;
   modeName?: string;
   model?: string;
+  /** IANA zone cron and offset-less timestamps are read in; the configured default when omitted. */
+  timezone?: string;
+  /** What to do with runs missed while the bot was down (default: `once` for `at`, else `skip`). */
+  catchUp?: CatchUpPolicy;
+  /** Upper bound on replayed runs under `catchUp: "all"`. */
+  catchUpLimit?: number;
+  /** Where the reply goes and when it is skipped (default: a plain message in `channelId`). */
+  output?: ScheduleOutput;
+}
+
+export const CATCH_UP_POLICIES = ["skip", "once", "all"] as const;
+
+export type CatchUpPolicy = (typeof CATCH_UP_POLICIES)[number];
+
+export const AFTER_STATUSES = ["any", "success"] as const;
+
+export type AfterStatus = (typeof AFTER_STATUSES)[number];
+
+export interface ScheduleCondition {
+  /** Regex (`/pattern/flags`, or a bare case-insensitive pattern) the upstream output must match. */
+  match?: string;
+  /** Sentinel such as `NOTHING_FOUND`; an upstream reply of only this token skips the run. */
+  unless?: string;
+}
+
+interface CompiledCondition {
+  match: RegExp | null;
+  unless: string | null;
 }
 
 interface CronField {
@@ -38,6 +91,22 @@ interface CronDateTime {
   dayOfWeek: number;
 }
 
+type ScheduleTrigger =
+  | { kind: "cron"; cron: CronExpression }
+  | { kind: "at"; at: number }
+  | { kind: "every"; intervalMs: number; anchor: number }
+  | { kind: "after"; upstream: string };
+
+export type ScheduleKind = ScheduleTrigger["kind"];
+
+interface ChainContext {
+  upstreamKey: string;
+  /** Upstream reply (or error) prepended to the downstream prompt. */
+  output: string;
+  /** Chained runs between the originating schedule and this one. */
+  depth: number;
+}
+
 interface ScheduleSource {
   filePath: string;
   keyPrefix: string | null;
@@ -49,13 +118,20 @@ interface LoadedSchedule {
   id: string;
   key: string;
   modeName: string;
-  cron: string;
-  cronExpr: CronExpression;
+  /** The raw `cron`, `at`, `every` or `after` value. */
+  spec: string;
+  trigger: ScheduleTrigger;
+  afterStatus: AfterStatus;
+  condition: CompiledCondition;
+  timezone: string;
+  catchUp: CatchUpPolicy;
+  catchUpLimit: number;
   channelId: string;
   prompt: string;
   modeId: string | null;
   model: string | null;
   enabled: boolean;
+  output: ScheduleOutput | null;
   sourcePath: string;
   sourceLabel: string;
 }
@@ -64,8 +140,19 @@ export interface ScheduleListItem {
   id: string;
   key: string;
   modeName: string;
-  cron: string;
+  kind: ScheduleKind;
+  spec: string;
+  timezone: string;
+  /** Next firing (epoch ms), or null if the schedule will not fire again. */
+  nextRunAt: number | null;
+  catchUp: CatchUpPolicy;
+  /** Last time the schedule was enqueued (epoch ms), if ever. */
+  lastFiredAt: number | null;
+  /** Consecutive failed runs up to the latest one. */
+  failureStreak: number;
   channelId: string;
+  output: OutputTarget;
+  prompt: string;
   modeId: string | null;
   model: string | null;
   enabled: boolean;
@@ -74,13 +161,43 @@ export interface ScheduleListItem {
 
 export interface AddScheduleInput {
   id: string;
-  cron: string;
+  /** Exactly one of `cron`, `at`, `every` and `after` is required. */
+  cron?: string;
+  at?: string;
+  every?: string;
+  anchor?: string;
+  after?: string;
+  afterStatus?: AfterStatus;
+  when?: ScheduleCondition;
   channelId: string;
   prompt: string;
   modeId?: string;
   enabled?: boolean;
   modeName?: string;
   model?: string;
+  timezone?: string;
+  catchUp?: CatchUpPolicy;
+  catchUpLimit?: number;
+}
+
+/** Fields to change on an existing schedule; omitted fields are kept. */
+export interface EditScheduleInput {
+  /** Setting one of `cron`, `at`, `every` and `after` replaces the current trigger. */
+  cron?: string;
+  at?: string;
+  every?: string;
+  after?: string;
+  anchor?: string;
+  channelId?: string;
+  prompt?: string;
+  /** An empty string clears `modeId`, `modeName`, `model` and `timezone`. */
+  modeId?: string;
+  enabled?: boolean;
+  modeName?: string;
+  model?: string;
+  timezone?: string;
+  catchUp?: CatchUpPolicy;
+  catchUpLimit?: number;
 }
 
 export interface ScheduleMutationResult {
@@ -93,17 +210,22 @@ export interface ScheduleMutationResult {
 
 export type ToggleScheduleResult = ScheduleMutationResult;
 
+export interface ScheduleHistoryResult extends ScheduleMutationResult {
+  runs?: ScheduleRunRecord[];
+}
+
 export class ScheduleManager {
   private timer: NodeJS.Timeout | null = null;
   private ticking = false;
-  private readonly firedScheduleKeys = new Set<string>();
-  private activeMinuteBucket = "";
 
   constructor(
     private readonly client: Client,
+    private readonly config: Config,
     private readonly personas: PersonaManager,
     private readonly queue: QueueManager,
     private readonly sessions: SessionManager,
+    private readonly state: ScheduleStateStore,
+    private readonly history: ScheduleHistory,
   ) {}
 
   start(): void {
@@ -124,8 +246,12 @@ export class ScheduleManager {
       clearInterval(this.timer);
       this.timer = null;
     }
-    this.firedScheduleKeys.clear();
-    this.activeMinuteBucket = "";
+  }
+
+  close(): void {
+    this.stop();
+    this.state.close();
+    this.history.close();
   }
 
   listSchedules(): ScheduleListItem[] {
@@ -134,7 +260,11 @@ export class ScheduleManager {
 
   addSchedule(input: AddScheduleInput): ScheduleMutationResult {
     const id = input.id.trim();
-    const cron = input.cron.trim();
+    const cron = (input.cron || "").trim();
+    const at = (input.at || "").trim();
+    const every = (input.every || "").trim();
+    const anchor = (input.anchor || "").trim();
+    const after = (input.after || "").trim();
     const channelId = input.channelId.trim();
     const prompt = input.prompt.trim();
     const modeIdRaw = (input.modeId || "").trim();
@@ -142,6 +272,9 @@ export class ScheduleManager {
     const modeName = (input.modeName || "").trim();
     const model = (input.model || "").trim() || undefined;
     const enabled = input.enabled !== false;
+    const catchUpLimit = input.catchUpLimit;
+    const timezoneRaw = (input.timezone || "").trim();
+    const timezone = timezoneRaw ? normalizeTimeZone(timezoneRaw) : null;
 
     if (!id) {
       return {
@@ -150,11 +283,11 @@ export class ScheduleManager {
         message: "id is required.",
       };
     }
-    if (!cron) {
+    if ([cron, at, every, after].filter(Boolean).length !== 1) {
       return {
         ok: false,
         error: "invalid",
-        message: "cron is required.",
+        message: "Exactly one of cron, at, every or after is required.",
       };
     }
     if (!channelId) {
@@ -179,13 +312,50 @@ export class ScheduleManager {
       };
     }
 
+    if (timezoneRaw && !timezone) {
+      return {
+        ok: false,
+        error: "invalid",
+        message: `Unknown timezone: ${timezoneRaw} (use an IANA name such as America/New_York)`,
+      };
+    }
+
+    const effectiveTimezone = timezone || this.config.scheduleTimezone;
+    const now = Date.now();
+    // New interval schedules count from the moment they are added unless told otherwise.
+    const effectiveAnchor = every && !anchor ? new Date(now).toISOString() : anchor;
+    let trigger: ScheduleTrigger;
     try {
-      parseCron(cron);
+      trigger = parseTrigger({ cron, at, every, anchor: effectiveAnchor, after }, effectiveTimezone);
     } catch (error: unknown) {
       return {
         ok: false,
         error: "invalid",
-        message: `Invalid cron: ${String(error)}`,
+        message: `Invalid ${cron ? "cron" : at ? "at" : "every"}: ${String(error)}`,
+      };
+    }
+    const when = cleanCondition(input.when);
+    try {
+      compileCondition(when);
+    } catch (error: unknown) {
+      return {
+        ok: false,
+        error: "invalid",
+        message: `Invalid when.match: ${String(error)}`,
+      };
+    }
+    if (catchUpLimit !== undefined && (!Number.isInteger(catchUpLimit) || catchUpLimit < 1)) {
+      return {
+        ok: false,
+        error: "invalid",
+        message: "catchUpLimit must be a positive integer.",
+      };
+    }
+    if (trigger.kind === "at" && trigger.at <= now) {
+      return {
+        ok: false,
+        error: "invalid",
+        message: `at is in the past: ${at}`,
       };
     }
 
@@ -208,6 +378,12 @@ export class ScheduleManager {
         candidates,
       };
     }
+    if (after) {
+      const upstreamError = this.checkUpstream(all, after, id);
+      if (upstreamError) {
+        return upstreamError;
+      }
+    }
 
     const sourcePath = this.personas.getScheduleFilePath();
     const readResult = this.readSourceDefinitions(sourcePath, true);
@@ -218,13 +394,21 @@ export class ScheduleManager {
     const definitions = readResult.definitions;
     const next: ScheduleDefinition = {
       id,
-      cron,
+      ...(cron ? { cron } : {}),
+      ...(at ? { at } : {}),
+      ...(every ? { every, anchor: effectiveAnchor } : {}),
+      ...(after ? { after } : {}),
+      ...(after && input.afterStatus ? { afterStatus: input.afterStatus } : {}),
+      ...(after && when ? { when } : {}),
       channelId,
       prompt,
       ...(modeId ? { modeId } : {}),
       enabled,
       ...(modeName ? { modeName } : {}),
       ...(model ? { model } : {}),
+      ...(timezone ? { timezone } : {}),
+      ...(input.catchUp ? { catchUp: input.catchUp } : {}),
+      ...(catchUpLimit !== undefined ? { catchUpLimit } : {}),
     };
 
     definitions.push(next);
@@ -237,8 +421,16 @@ export class ScheduleManager {
       id,
       key: id,
       modeName: modeName || "default",
-      cron,
+      kind: trigger.kind,
+      spec: cron || at || every || after,
+      timezone: effectiveTimezone,
+      nextRunAt: nextTriggerRun(trigger, effectiveTimezone, now),
+      catchUp: input.catchUp ?? defaultCatchUp(trigger),
+      lastFiredAt: null,
+      failureStreak: 0,
       channelId,
+      output: "channel",
+      prompt,
       modeId: modeId || null,
       model: model || null,
       enabled,
@@ -247,7 +439,7 @@ export class ScheduleManager {
 
     return {
       ok: true,
-      message: `Added schedule: ${created.key}`,
+      message: `Added schedule: ${created.key} (tz=${effectiveTimezone})`,
       item: created,
     };
   }
@@ -293,7 +485,7 @@ export class ScheduleManager {
       return writeResult;
     }
 
-    this.firedScheduleKeys.delete(target.key);
+    this.state.remove(target.key);
 
     return {
       ok: true,
@@ -322,6 +514,45 @@ export class ScheduleManager {
       };
     }
 
+    const result = this.setEnabled(target, !target.enabled);
+    if (!result.ok) {
+      return result;
+    }
+    // Owed catch-up runs do not survive a toggle; re-enabling starts from now.
+    this.state.remove(target.key);
+
+    const updated: ScheduleListItem = {
+      ...this.toListItem(target),
+      enabled: !target.enabled,
+    };
+
+    return {
+      ok: true,
+      message: `${updated.key} is now ${updated.enabled ? "enabled" : "disabled"}.`,
+      item: updated,
+    };
+  }
+
+  editSchedule(idOrKey: string, patch: EditScheduleInput): ScheduleMutationResult {
+    const all = this.loadSchedules();
+    const target = this.resolveSchedule(all, idOrKey);
+    if (!target) {
+      return {
+        ok: false,
+        error: "not_found",
+        message: `Schedule not found: ${idOrKey}`,
+      };
+    }
+
+    if (Array.isArray(target)) {
+      return {
+        ok: false,
+        error: "ambiguous",
+        message: `Multiple schedules share id "${idOrKey}". Use one of the keys.`,
+        candidates: target.map((item) => item.key),
+      };
+    }
+
     const readResult = this.readSourceDefinitions(target.sourcePath, false);
     if (!("definitions" in readResult)) {
       return readResult;
@@ -337,29 +568,200 @@ export class ScheduleManager {
       };
     }
 
-    const currentEnabled = definitions[index]?.enabled !== false;
-    definitions[index] = {
-      ...definitions[index],
-      enabled: !currentEnabled,
-    };
+    const now = Date.now();
+    const next: ScheduleDefinition & { agentId?: unknown } = { ...definitions[index]! };
+    const changed: string[] = [];
+    const invalid = (message: string): ScheduleMutationResult => ({ ok: false, error: "invalid", message });
+
+    const cron = patch.cron?.trim();
+    const at = patch.at?.trim();
+    const every = patch.every?.trim();
+    const after = patch.after?.trim();
+    const anchor = patch.anchor?.trim();
+    if ([cron, at, every, after].filter(Boolean).length > 1) {
+      return invalid("Set at most one of cron, at, every or after.");
+    }
+    if (cron || at || every || after) {
+      delete next.cron;
+      delete next.at;
+      delete next.every;
+      delete next.anchor;
+      delete next.after;
+      if (cron) {
+        next.cron = cron;
+      } else if (at) {
+        next.at = at;
+      } else if (after) {
+        const upstreamError = this.checkUpstream(all, after, target.key);
+        if (upstreamError) {
+          return upstreamError;
+        }
+        next.after = after;
+      } else {
+        // Like a new interval schedule, a replaced interval counts from now unless anchored.
+        next.every = every;
+        next.anchor = anchor || new Date(now).toISOString();
+      }
+      changed.push(cron ? "cron" : at ? "at" : every ? "every" : "after");
+    } else if (anchor) {
+      if (target.trigger.kind !== "every") {
+        return invalid("anchor only applies to interval schedules.");
+      }
+      next.anchor = anchor;
+      changed.push("anchor");
+    }
+
+    if (patch.channelId !== undefined) {
+      const channelId = patch.channelId.trim();
+      if (!channelId) {
+        return invalid("channelId is required.");
+      }
+      next.channelId = channelId;
+      changed.push("channel");
+    }
+    if (patch.prompt !== undefined) {
+      const prompt = patch.prompt.trim();
+      if (!prompt) {
+        return invalid("prompt is required.");
+      }
+      next.prompt = prompt;
+      changed.push("prompt");
+    }
+    if (patch.modeId !== undefined) {
+      const modeIdRaw = patch.modeId.trim();
+      const modeId = normalizeModeId(modeIdRaw);
+      if (modeIdRaw && !modeId) {
+        return invalid("modeId is invalid. Use letters, numbers, underscore, hyphen.");
+      }
+      // The legacy `agentId` spelling would otherwise shadow a cleared modeId.
+      delete next.agentId;
+      if (modeId) {
+        next.modeId = modeId;
+      } else {
+        delete next.modeId;
+      }
+      changed.push("mode_id");
+    }
+    if (patch.modeName !== undefined) {
+      const modeName = patch.modeName.trim();
+      if (modeName && !this.personas.modeExists(modeName)) {
+        return invalid(`Unknown mode: ${modeName}`);
+      }
+      if (modeName) {
+        next.modeName = modeName;
+      } else {
+        delete next.modeName;
+      }
+      changed.push("mode");
+    }
+    if (patch.model !== undefined) {
+      const model = patch.model.trim();
+      if (model) {
+        next.model = model;
+      } else {
+        delete next.model;
+      }
+      changed.push("model");
+    }
+    if (patch.enabled !== undefined) {
+      next.enabled = patch.enabled;
+      changed.push("enabled");
+    }
+    if (patch.timezone !== undefined) {
+      const timezoneRaw = patch.timezone.trim();
+      const timezone = timezoneRaw ? normalizeTimeZone(timezoneRaw) : null;
+      if (timezoneRaw && !timezone) {
+        return invalid(`Unknown timezone: ${timezoneRaw} (use an IANA name such as America/New_York)`);
+      }
+      if (timezone) {
+        next.timezone = timezone;
+      } else {
+        delete next.timezone;
+      }
+      changed.push("timezone");
+    }
+    if (patch.catchUp !== undefined) {
+      next.catchUp = patch.catchUp;
+      changed.push("catch_up");
+    }
+    if (patch.catchUpLimit !== undefined) {
+      if (!Number.isInteger(patch.catchUpLimit) || patch.catchUpLimit < 1) {
+        return invalid("catchUpLimit must be a positive integer.");
+      }
+      next.catchUpLimit = patch.catchUpLimit;
+      changed.push("catch_up_limit");
+    }
 
+    if (changed.length === 0) {
+      return invalid("Nothing to change.");
+    }
+
+    const parsed = toScheduleDefinition(next);
+    if (!parsed) {
+      return invalid("Edited schedule is incomplete.");
+    }
+    const timezone = parsed.timezone ? normalizeTimeZone(parsed.timezone) : this.config.scheduleTimezone;
+    if (!timezone) {
+      return invalid(`Unknown timezone: ${parsed.timezone}`);
+    }
+    let trigger: ScheduleTrigger;
+    try {
+      trigger = parseTrigger(parsed, timezone);
+    } catch (error: unknown) {
+      const kind = parsed.cron ? "cron" : parsed.at ? "at" : "every";
+      return invalid(`Invalid ${kind}: ${String(error)}`);
+    }
+    if (at && trigger.kind === "at" && trigger.at <= now) {
+      return invalid(`at is in the past: ${at}`);
+    }
+    if (trigger.kind !== "after") {
+      // Chain settings only mean something on `after` schedules.
+      delete next.afterStatus;
+      delete next.when;
+    }
+
+    definitions[index] = next;
     const writeResult = this.writeSourceDefinitions(target.sourcePath, definitions);
     if (!writeResult.ok) {
       return writeResult;
     }
 
-    const updated: ScheduleListItem = {
-      ...this.toListItem(target),
-      enabled: !currentEnabled,
-    };
+    if (changed.some((field) => TRIGGER_FIELDS.has(field))) {
+      // Buckets and owed catch-up runs belong to the old trigger.
+      this.state.remove(target.key);
+    }
 
+    const updated = this.loadSchedules().find((item) => item.key === target.key);
     return {
       ok: true,
-      message: `${updated.key} is now ${updated.enabled ? "enabled" : "disabled"}.`,
-      item: updated,
+      message: `Updated schedule: ${target.key} (${changed.join(", ")})`,
+      item: updated ? this.toListItem(updated) : undefined,
     };
   }
 
+  private setEnabled(target: LoadedSchedule, enabled: boolean): ScheduleMutationResult | { ok: true } {
+    const readResult = this.readSourceDefinitions(target.sourcePath, false);
+    if (!("definitions" in readResult)) {
+      return readResult;
+    }
+
+    const definitions = readResult.definitions;
+    const index = this.findDefinitionIndex(definitions, target);
+    if (index < 0) {
+      return {
+        ok: false,
+        error: "not_found",
+        message: `Schedule id "${target.id}" not found in source file.`,
+      };
+    }
+
+    definitions[index] = {
+      ...definitions[index]!,
+      enabled,
+    };
+    return this.writeSourceDefinitions(target.sourcePath, definitions);
+  }
+
   async runScheduleNow(idOrKey: string): Promise<ScheduleMutationResult> {
     const all = this.loadSchedules();
     const target = this.resolveSchedule(all, idOrKey);
@@ -380,7 +782,7 @@ export class ScheduleManager {
       };
     }
 
-    const runResult = await this.enqueueSchedule(target);
+    const runResult = await this.enqueueSchedule(target, "manual");
     if (!runResult.ok) {
       return runResult;
     }
@@ -417,32 +819,92 @@ export class ScheduleManager {
     return matches;
   }
 
+  /**
+   * Fires schedules due since the previous tick. The previous tick time is persisted, so
+   * after downtime or a long event-loop stall the gap is replayed: runs from the last
+   * LATE_GRACE_MS fire as usual, older ones follow each schedule's `catchUp` policy.
+   */
   private async tick(now: Date = new Date()): Promise<void> {
-    const cronNow = getCronDateTime(now);
-    const bucket = toMinuteBucket(cronNow);
-    if (bucket !== this.activeMinuteBucket) {
-      this.activeMinuteBucket = bucket;
-      this.firedScheduleKeys.clear();
-    }
+    const nowMs = now.getTime();
+    const lastTickAt = this.state.getLastTickAt();
+    const sinceMs = lastTickAt !== null && lastTickAt < nowMs ? lastTickAt : nowMs - MINUTE_MS;
+    const currentSince = Math.max(sinceMs, nowMs - MINUTE_MS);
+    const graceStart = nowMs - LATE_GRACE_MS;
+    this.state.setLastTickAt(nowMs);
 
     for (const schedule of this.loadSchedules()) {
       if (!schedule.enabled) {
         continue;
       }
-      if (!matchesCron(schedule.cronExpr, cronNow)) {
+
+      const { trigger, timezone } = schedule;
+      const state = this.state.get(schedule.key);
+      const backlogStart = Math.max(sinceMs, state?.lastFiredAt ?? sinceMs);
+
+      const bucket = dueBucket(trigger, timezone, currentSince, nowMs);
+      const onTime = bucket !== null && bucket !== state?.lastBucket;
+      const late = countRuns(trigger, timezone, Math.max(backlogStart, graceStart), currentSince, 1) > 0;
+      const missed = countRuns(
+        trigger,
+        timezone,
+        backlogStart,
+        Math.min(graceStart, currentSince),
+        schedule.catchUp === "all" ? schedule.catchUpLimit : 1,
+      );
+
+      let pendingRuns = state?.pendingRuns ?? 0;
+      if (missed > 0) {
+        console.log(
+          `[schedule] key=${schedule.key} missed ${schedule.catchUp === "all" ? missed : "1+"} run(s) ` +
+            `since ${new Date(backlogStart).toISOString()} catchUp=${schedule.catchUp}`,
+        );
+        if (schedule.catchUp === "once" && !onTime && !late) {
+          pendingRuns = Math.max(pendingRuns, 1);
+        } else if (schedule.catchUp === "all") {
+          pendingRuns = Math.min(pendingRuns + missed, schedule.catchUpLimit);
+        }
+      }
+
+      const due = onTime || late;
+      if (!due && pendingRuns === 0) {
+        if (missed > 0 && trigger.kind === "at") {
+          // A skipped one-shot will never come around again.
+          this.disableOneShot(schedule);
+        }
         continue;
       }
-      if (this.firedScheduleKeys.has(schedule.key)) {
+
+      const result = await this.enqueueSchedule(schedule, due ? "schedule" : "catch_up");
+      if (!result.ok) {
+        if (pendingRuns !== (state?.pendingRuns ?? 0)) {
+          this.state.set(schedule.key, {
+            lastFiredAt: state?.lastFiredAt ?? 0,
+            lastBucket: state?.lastBucket ?? "",
+            pendingRuns,
+          });
+        }
         continue;
       }
 
-      const result = await this.enqueueSchedule(schedule);
-      if (result.ok) {
-        this.firedScheduleKeys.add(schedule.key);
+      this.state.set(schedule.key, {
+        lastFiredAt: nowMs,
+        lastBucket: onTime ? bucket : state?.lastBucket ?? "",
+        pendingRuns: due ? pendingRuns : pendingRuns - 1,
+      });
+
+      if (trigger.kind === "at") {
+        this.disableOneShot(schedule);
       }
     }
   }
 
+  private disableOneShot(schedule: LoadedSchedule): void {
+    const disabled = this.setEnabled(schedule, false);
+    if (!disabled.ok) {
+      console.warn(`[schedule] failed to disable one-shot key=${schedule.key}: ${disabled.message}`);
+    }
+  }
+
   private async runTickSafely(now: Date = new Date()): Promise<void> {
     if (this.ticking) {
       console.warn("[schedule] tick skipped because a previous tick is still running");
@@ -458,7 +920,132 @@ export class ScheduleManager {
     }
   }
 
-  private async enqueueSchedule(schedule: LoadedSchedule): Promise<ScheduleMutationResult> {
+  getSchedule(idOrKey: string): ScheduleMutationResult {
+    const all = this.loadSchedules();
+    const target = this.resolveSchedule(all, idOrKey);
+    if (!target) {
+      return {
+        ok: false,
+        error: "not_found",
+        message: `Schedule not found: ${idOrKey}`,
+      };
+    }
+
+    if (Array.isArray(target)) {
+      return {
+        ok: false,
+        error: "ambiguous",
+        message: `Multiple schedules share id "${idOrKey}". Use one of the keys.`,
+        candidates: target.map((item) => item.key),
+      };
+    }
+
+    return { ok: true, message: target.key, item: this.toListItem(target) };
+  }
+
+  getHistory(idOrKey: string, limit = 10): ScheduleHistoryResult {
+    const all = this.loadSchedules();
+    const target = this.resolveSchedule(all, idOrKey);
+    if (!target) {
+      // Removed schedules keep their history under the old key.
+      const runs = this.history.list(idOrKey, limit);
+      if (runs.length > 0) {
+        return { ok: true, message: `History: ${idOrKey} (removed)`, runs };
+      }
+      return {
+        ok: false,
+        error: "not_found",
+        message: `Schedule not found: ${idOrKey}`,
+      };
+    }
+
+    if (Array.isArray(target)) {
+      return {
+        ok: false,
+        error: "ambiguous",
+        message: `Multiple schedules share id "${idOrKey}". Use one of the keys.`,
+        candidates: target.map((item) => item.key),
+      };
+    }
+
+    return {
+      ok: true,
+      message: `History: ${target.key}`,
+      item: this.toListItem(target),
+      runs: this.history.list(target.key, limit),
+    };
+  }
+
+  /** Rejects an `after` target that does not resolve to exactly one other schedule. */
+  private checkUpstream(
+    schedules: LoadedSchedule[],
+    after: string,
+    selfKey: string,
+  ): ScheduleMutationResult | null {
+    const upstream = this.resolveSchedule(schedules, after);
+    if (!upstream) {
+      return {
+        ok: false,
+        error: "invalid",
+        message: `Upstream schedule not found: ${after}`,
+      };
+    }
+    if (Array.isArray(upstream)) {
+      return {
+        ok: false,
+        error: "ambiguous",
+        message: `Multiple schedules share id "${after}". Use one of the keys for after.`,
+        candidates: upstream.map((item) => item.key),
+      };
+    }
+    if (upstream.key === selfKey) {
+      return {
+        ok: false,
+        error: "invalid",
+        message: "A schedule cannot run after itself.",
+      };
+    }
+    return null;
+  }
+
+  /** Queues the `after` schedules waiting on `upstream` whose status and `when` gates pass. */
+  private async fireDownstream(upstream: LoadedSchedule, result: RunResult, depth: number): Promise<void> {
+    const output = result.success ? result.text.trim() : result.error || result.text.trim();
+    for (const schedule of this.loadSchedules()) {
+      if (schedule.trigger.kind !== "after" || !schedule.enabled) {
+        continue;
+      }
+      const ref = schedule.trigger.upstream;
+      const follows =
+        ref === upstream.key || (ref === upstream.id && schedule.sourcePath === upstream.sourcePath);
+      if (!follows) {
+        continue;
+      }
+      if (schedule.afterStatus === "success" && !result.success) {
+        console.log(`[schedule] chain skipped key=${schedule.key}: ${upstream.key} failed`);
+        continue;
+      }
+      if (!passesCondition(schedule.condition, output)) {
+        console.log(`[schedule] chain skipped key=${schedule.key}: when not met by ${upstream.key}`);
+        continue;
+      }
+      if (depth >= MAX_CHAIN_DEPTH) {
+        console.warn(`[schedule] chain stopped at key=${schedule.key}: depth ${depth} (cycle?)`);
+        continue;
+      }
+
+      const queued = await this.enqueueSchedule(schedule, "chain", { upstreamKey: upstream.key, output, depth });
+      if (!queued.ok) {
+        console.warn(`[schedule] chain enqueue failed key=${schedule.key}: ${queued.message}`);
+      }
+    }
+  }
+
+  private async enqueueSchedule(
+    schedule: LoadedSchedule,
+    trigger: ScheduleRunTrigger,
+    chain?: ChainContext,
+  ): Promise<ScheduleMutationResult> {
     const taskKey = `schedule:${schedule.key}:${schedule.channelId}`;
     if (this.queue.hasTask(taskKey)) {
       return {
@@ -473,6 +1060,7 @@ export class ScheduleManager {
       console.warn(
         `[schedule] skipped key=${schedule.key} because channel ${schedule.channelId} is unavailable`,
       );
+      this.recordFailure(schedule, trigger, `channel ${schedule.channelId} is unavailable`);
       return {
         ok: false,
         error: "invalid",
@@ -486,8 +1074,10 @@ export class ScheduleManager {
       : `schedule:${schedule.key}`;
     const sessionId = this.sessions.getSession(scheduleUserId, contextId, "claude");
 
+    const runId = this.history.start(schedule.key, trigger);
+    const { output } = schedule;
     const result = this.queue.enqueue({
-      prompt: schedule.prompt,
+      prompt: chain ? buildChainedPrompt(schedule.prompt, chain.upstreamKey, chain.output) : schedule.prompt,
       sessionId,
       sessionUserId: scheduleUserId,
       mechoModeId: schedule.modeId,
@@ -497,13 +1087,50 @@ export class ScheduleManager {
       createdAt: Date.now(),
       engine: "claude",
       modeName: schedule.modeName,
+      deliver: output
+        ? (runResult, attachments) =>
+            deliverScheduleResult(
+              {
+                client: this.client,
+                channel,
+                scheduleId: schedule.id,
+                scheduleKey: schedule.key,
+                timezone: schedule.timezone,
+                output,
+              },
+              runResult,
+              attachments,
+            )
+        : undefined,
+      onFinished: (outcome) => {
+        this.onRunFinished(schedule, runId, outcome);
+        void this.fireDownstream(schedule, outcome.result, (chain?.depth ?? 0) + 1).catch((error: unknown) => {
+          console.error(`[schedule] chain from key=${schedule.key} failed:`, error);
+        });
+      },
     });
 
     if (!result.accepted) {
+      this.onRunFinished(schedule, runId, {
+        result: {
+          success: false,
+          text: "",
+          sessionId: null,
+          error: result.message ?? `enqueue rejected (${result.reason})`,
+          durationMs: 0,
+          isTimeout: false,
+          usage: null,
+        },
+        startedAt: Date.now(),
+        finishedAt: Date.now(),
+        messageUrl: null,
+      });
       return {
         ok: false,
         error: "invalid",
-        message: `Failed to enqueue schedule: ${schedule.key} (${result.reason})`,
+        message: result.message
+          ? `Failed to enqueue schedule: ${schedule.key} (${result.message})`
+          : `Failed to enqueue schedule: ${schedule.key} (${result.reason})`,
       };
     }
 
@@ -515,6 +1142,64 @@ export class ScheduleManager {
     };
   }
 
+  private recordFailure(schedule: LoadedSchedule, trigger: ScheduleRunTrigger, error: string): void {
+    const now = Date.now();
+    this.onRunFinished(schedule, this.history.start(schedule.key, trigger, now), {
+      result: {
+        success: false,
+        text: "",
+        sessionId: null,
+        error,
+        durationMs: 0,
+        isTimeout: false,
+        usage: null,
+      },
+      startedAt: now,
+      finishedAt: now,
+      messageUrl: null,
+    });
+  }
+
+  private onRunFinished(schedule: LoadedSchedule, runId: number | null, outcome: TaskOutcome): void {
+    const { result } = outcome;
+    if (runId !== null) {
+      this.history.finish(runId, {
+        startedAt: outcome.startedAt,
+        finishedAt: outcome.finishedAt,
+        success: result.success,
+        error: result.error,
+        durationMs: outcome.finishedAt - outcome.startedAt,
+        inputTokens: result.usage?.inputTokens ?? null,
+        outputTokens: result.usage?.outputTokens ?? null,
+        outputPreview: result.text.trim() || null,
+        messageUrl: outcome.messageUrl,
+      });
+    }
+
+    const threshold = this.config.scheduleFailureAlertThreshold;
+    if (result.success || threshold === null) {
+      return;
+    }
+    const streak = this.history.failureStreak(schedule.key);
+    // Alert once per streak, when it first reaches the threshold.
+    if (streak === threshold) {
+      void this.alertOwner(
+        `⚠️ 스케줄 \`${schedule.key}\`이(가) ${streak}회 연속 실패했습니다.\n` +
+          `마지막 오류: ${(result.error || "알 수 없는 오류").slice(0, 500)}\n` +
+          `\`/schedule history id:${schedule.key}\`로 기록을 확인하세요.`,
+      );
+    }
+  }
+
+  private async alertOwner(content: string): Promise<void> {
+    try {
+      const owner = await this.client.users.fetch(this.config.ownerId);
+      await owner.send({ content });
+    } catch (error: unknown) {
+      console.warn("[schedule] failed to DM owner about failing schedule:", error);
+    }
+  }
+
   private listScheduleSources(): ScheduleSource[] {
     const byPath = new Map<string, ScheduleSource>();
 
@@ -561,12 +1246,27 @@ export class ScheduleManager {
           continue;
         }
 
-        let cronExpr: CronExpression;
+        const timezone = item.timezone
+          ? normalizeTimeZone(item.timezone)
+          : this.config.scheduleTimezone;
+        if (!timezone) {
+          console.warn(
+            `[schedule] unknown timezone "${item.timezone}" for ${item.id} in ${source.filePath}`,
+          );
+          continue;
+        }
+
+        const spec = item.cron || item.at || item.every || item.after || "";
+        let trigger: ScheduleTrigger;
+        let condition: CompiledCondition;
+        let output: ScheduleOutput | null;
         try {
-          cronExpr = parseCron(item.cron);
+          trigger = parseTrigger(item, timezone);
+          condition = compileCondition(item.when);
+          output = parseScheduleOutput(item.output);
         } catch (error: unknown) {
           console.warn(
-            `[schedule] invalid cron "${item.cron}" in ${source.filePath}: ${String(error)}`,
+            `[schedule] invalid schedule "${spec}" for ${item.id} in ${source.filePath}: ${String(error)}`,
           );
           continue;
         }
@@ -578,13 +1278,19 @@ export class ScheduleManager {
           id: item.id,
           key,
           modeName,
-          cron: item.cron,
-          cronExpr,
+          spec,
+          trigger,
+          afterStatus: item.afterStatus ?? "any",
+          condition,
+          timezone,
+          catchUp: item.catchUp ?? defaultCatchUp(trigger),
+          catchUpLimit: item.catchUpLimit ?? DEFAULT_CATCH_UP_LIMIT,
           channelId: item.channelId,
           prompt: item.prompt,
           modeId: item.modeId || null,
           model: item.model || null,
           enabled: item.enabled !== false,
+          output,
           sourcePath: source.filePath,
           sourceLabel: source.sourceLabel,
         });
@@ -668,7 +1374,7 @@ export class ScheduleManager {
       const modeId = parsed.modeId || null;
       return (
         parsed.id === target.id &&
-        parsed.cron === target.cron &&
+        (parsed.cron || parsed.at || parsed.every || parsed.after) === target.spec &&
         parsed.channelId === target.channelId &&
         parsed.prompt === target.prompt &&
         modeId === target.modeId &&
@@ -691,8 +1397,16 @@ export class ScheduleManager {
       id: item.id,
       key: item.key,
       modeName: item.modeName,
-      cron: item.cron,
+      kind: item.trigger.kind,
+      spec: item.spec,
+      timezone: item.timezone,
+      nextRunAt: nextTriggerRun(item.trigger, item.timezone, Date.now()),
+      catchUp: item.catchUp,
+      lastFiredAt: this.state.get(item.key)?.lastFiredAt || null,
+      failureStreak: this.history.failureStreak(item.key),
       channelId: item.channelId,
+      output: item.output?.target ?? "channel",
+      prompt: item.prompt,
       modeId: item.modeId,
       model: item.model,
       enabled: item.enabled,
@@ -723,7 +1437,12 @@ function toScheduleDefinition(value: unknown): ScheduleDefinition | null {
   if (!isNonEmptyString(item.id)) {
     return null;
   }
-  if (!isNonEmptyString(item.cron)) {
+  if (
+    !isNonEmptyString(item.cron) &&
+    !isNonEmptyString(item.at) &&
+    !isNonEmptyString(item.every) &&
+    !isNonEmptyString(item.after)
+  ) {
     return null;
   }
   if (!isNonEmptyString(item.channelId)) {
@@ -737,16 +1456,35 @@ function toScheduleDefinition(value: unknown): ScheduleDefinition | null {
   const modeId = normalizeModeId(item.modeId ?? legacyModeId);
 
   const model = typeof item.model === "string" && item.model.trim() ? item.model.trim() : undefined;
+  const timezone = typeof item.timezone === "string" && item.timezone.trim()
+    ? item.timezone.trim()
+    : undefined;
+  const catchUp = CATCH_UP_POLICIES.find((policy) => policy === item.catchUp);
+  const catchUpLimit =
+    typeof item.catchUpLimit === "number" && Number.isInteger(item.catchUpLimit) && item.catchUpLimit > 0
+      ? Math.min(item.catchUpLimit, MAX_CATCH_UP_LIMIT)
+      : undefined;
 
   return {
     id: item.id.trim(),
-    cron: item.cron.trim(),
+    cron: trimOptional(item.cron),
+    at: trimOptional(item.at),
+    every: trimOptional(item.every),
+    anchor: trimOptional(item.anchor),
+    after: trimOptional(item.after),
+    afterStatus: AFTER_STATUSES.find((status) => status === item.afterStatus),
+    when: cleanCondition(item.when),
     channelId: item.channelId.trim(),
     prompt: item.prompt.trim(),
     modeId: modeId || undefined,
     enabled: item.enabled !== false,
     modeName: modeName || undefined,
     model,
+    timezone,
+    catchUp,
+    catchUpLimit,
+    // Validated with the trigger in loadSchedules so a bad block is reported, not dropped.
+    output: item.output,
   };
 }
 
@@ -754,6 +1492,10 @@ function isNonEmptyString(value: unknown): value is string {
   return typeof value === "string" && value.trim().length > 0;
 }
 
+function trimOptional(value: unknown): string | undefined {
+  return isNonEmptyString(value) ? value.trim() : undefined;
+}
+
 function normalizeModeId(value: unknown): string | null {
   if (typeof value !== "string") {
     return null;
@@ -762,72 +1504,301 @@ function normalizeModeId(value: unknown): string | null {
   return clean || null;
 }
 
-const SCHEDULE_TIME_ZONE = "Asia/Seoul";
-const SCHEDULE_PARTS_FORMATTER = new Intl.DateTimeFormat("en-US", {
-  timeZone: SCHEDULE_TIME_ZONE,
-  hour12: false,
-  hourCycle: "h23",
-  year: "numeric",
-  month: "2-digit",
-  day: "2-digit",
-  hour: "2-digit",
-  minute: "2-digit",
-  weekday: "short",
-});
-const WEEKDAY_TO_INDEX: Record<string, number> = {
-  Sun: 0,
-  Mon: 1,
-  Tue: 2,
-  Wed: 3,
-  Thu: 4,
-  Fri: 5,
-  Sat: 6,
-};
+const MINUTE_MS = 60_000;
+// Runs this recent are "late" and always fire; older missed runs follow the catchUp policy.
+const LATE_GRACE_MS = 3 * MINUTE_MS;
+const DEFAULT_CATCH_UP_LIMIT = 5;
+// A cycle of `after` schedules started by hand would otherwise run forever.
+const MAX_CHAIN_DEPTH = 10;
+// Edits to these fields invalidate the stored fired-state.
+const TRIGGER_FIELDS = new Set(["cron", "at", "every", "after", "anchor", "timezone"]);
+const MAX_CATCH_UP_LIMIT = 100;
+// Wall clock `every` intervals count from when no anchor is given.
+const DEFAULT_INTERVAL_ANCHOR = Date.UTC(2000, 0, 1);
+// How far ahead nextCronRun looks before giving up (e.g. `0 0 30 2 *` never fires).
+const NEXT_RUN_HORIZON_MS = 5 * 366 * 24 * 60 * MINUTE_MS;
+
+/** Fields of a wall-clock time produced by `toWallClockMs`. */
+function toCronDateTime(wallMs: number): CronDateTime {
+  const date = new Date(wallMs);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    dayOfMonth: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    dayOfWeek: date.getUTCDay(),
+  };
+}
 
 function toMinuteBucket(date: CronDateTime): string {
   return `${date.year}-${date.month}-${date.dayOfMonth}-${date.hour}-${date.minute}`;
 }
 
-function getCronDateTime(date: Date): CronDateTime {
-  const parts = new Map<string, string>();
-  for (const part of SCHEDULE_PARTS_FORMATTER.formatToParts(date)) {
-    if (part.type === "literal") {
+/**
+ * Whether the schedule should fire at `nowMs`. Wall-clock minutes skipped by a DST jump
+ * are matched at the first minute after it, so fixed-time jobs (e.g. `30 2 * * *`) still
+ * run once that day; jobs with a wildcard hour follow real time and are not caught up.
+ */
+function isDueAt(cron: CronExpression, timeZone: string, nowMs: number, wallNow: number): boolean {
+  if (matchesCron(cron, toCronDateTime(wallNow))) {
+    return true;
+  }
+  if (cron.hour.wildcard) {
+    return false;
+  }
+
+  const wallBefore = toWallClockMs(nowMs - MINUTE_MS, timeZone);
+  for (let wall = wallBefore + MINUTE_MS; wall < wallNow; wall += MINUTE_MS) {
+    if (matchesCron(cron, toCronDateTime(wall))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Dedup key for a firing. Fixed-time jobs key on the wall clock, so the repeated hour of a
+ * backward DST jump does not fire them twice; wildcard-hour jobs key on real time.
+ */
+function fireBucket(cron: CronExpression, nowMs: number, wallNow: number): string {
+  if (cron.hour.wildcard) {
+    return `utc:${Math.floor(nowMs / MINUTE_MS)}`;
+  }
+  return toMinuteBucket(toCronDateTime(wallNow));
+}
+
+/** Next instant after `fromMs` whose wall clock in `timeZone` matches the cron. */
+function nextCronRun(cron: CronExpression, timeZone: string, fromMs: number): number | null {
+  const wallFrom = toWallClockMs(fromMs, timeZone);
+  const horizon = wallFrom + NEXT_RUN_HORIZON_MS;
+  let wall = wallFrom + MINUTE_MS;
+
+  while (wall <= horizon) {
+    const date = new Date(wall);
+    if (!cron.month.values.has(date.getUTCMonth() + 1)) {
+      wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+      continue;
+    }
+    if (!matchesCronDay(cron, toCronDateTime(wall))) {
+      wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+      continue;
+    }
+    if (!cron.hour.values.has(date.getUTCHours())) {
+      wall = Date.UTC(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate(),
+        date.getUTCHours() + 1,
+      );
+      continue;
+    }
+    if (!cron.minute.values.has(date.getUTCMinutes())) {
+      wall += MINUTE_MS;
       continue;
     }
-    parts.set(part.type, part.value);
+
+    const epoch = wallClockToEpoch(wall, timeZone);
+    if (epoch > fromMs) {
+      return epoch;
+    }
+    wall += MINUTE_MS;
   }
+  return null;
+}
 
-  const weekdayLabel = parts.get("weekday");
-  if (!weekdayLabel) {
-    throw new Error(`failed to read weekday in timezone ${SCHEDULE_TIME_ZONE}`);
+/**
+ * Bucket identifying the firing due at `nowMs`, or null when nothing is due. `at`/`every`
+ * fire for an occurrence in (sinceMs, nowMs]; cron matches the current wall-clock minute.
+ */
+function dueBucket(
+  trigger: ScheduleTrigger,
+  timeZone: string,
+  sinceMs: number,
+  nowMs: number,
+): string | null {
+  switch (trigger.kind) {
+    case "cron": {
+      const wallNow = toWallClockMs(nowMs, timeZone);
+      return isDueAt(trigger.cron, timeZone, nowMs, wallNow)
+        ? fireBucket(trigger.cron, nowMs, wallNow)
+        : null;
+    }
+    case "at":
+      return trigger.at > sinceMs && trigger.at <= nowMs ? `at:${trigger.at}` : null;
+    case "every": {
+      if (nowMs < trigger.anchor) {
+        return null;
+      }
+      const occurrence =
+        trigger.anchor + Math.floor((nowMs - trigger.anchor) / trigger.intervalMs) * trigger.intervalMs;
+      return occurrence > sinceMs ? `every:${occurrence}` : null;
+    }
+    case "after":
+      // Fired by the upstream schedule's completion, never by the clock.
+      return null;
   }
+}
 
-  const dayOfWeek = WEEKDAY_TO_INDEX[weekdayLabel];
-  if (dayOfWeek === undefined) {
-    throw new Error(`unsupported weekday "${weekdayLabel}" in timezone ${SCHEDULE_TIME_ZONE}`);
+/** Occurrences in (fromMs, toMs], counting at most `limit`. */
+function countRuns(
+  trigger: ScheduleTrigger,
+  timeZone: string,
+  fromMs: number,
+  toMs: number,
+  limit: number,
+): number {
+  let count = 0;
+  let cursor = fromMs;
+  while (cursor < toMs && count < limit) {
+    const next = nextTriggerRun(trigger, timeZone, cursor);
+    if (next === null || next > toMs) {
+      break;
+    }
+    count += 1;
+    cursor = next;
   }
+  return count;
+}
+
+function defaultCatchUp(trigger: ScheduleTrigger): CatchUpPolicy {
+  // A reminder that fires late beats one that silently never fires.
+  return trigger.kind === "at" ? "once" : "skip";
+}
+
+function nextTriggerRun(trigger: ScheduleTrigger, timeZone: string, fromMs: number): number | null {
+  switch (trigger.kind) {
+    case "cron":
+      return nextCronRun(trigger.cron, timeZone, fromMs);
+    case "at":
+      return trigger.at > fromMs ? trigger.at : null;
+    case "every": {
+      if (fromMs < trigger.anchor) {
+        return trigger.anchor;
+      }
+      const elapsed = Math.floor((fromMs - trigger.anchor) / trigger.intervalMs) + 1;
+      return trigger.anchor + elapsed * trigger.intervalMs;
+    }
+    case "after":
+      return null;
+  }
+}
+
+function cleanCondition(value: unknown): ScheduleCondition | undefined {
+  if (typeof value !== "object" || value === null) {
+    return undefined;
+  }
+  const item = value as ScheduleCondition;
+  const match = trimOptional(item.match);
+  const unless = trimOptional(item.unless);
+  if (!match && !unless) {
+    return undefined;
+  }
+  return { ...(match ? { match } : {}), ...(unless ? { unless } : {}) };
+}
+
+function compileCondition(when: ScheduleCondition | undefined): CompiledCondition {
+  let match: RegExp | null = null;
+  if (when?.match) {
+    const literal = when.match.match(/^\/(.+)\/([a-z]*)$/s);
+    // Stateful flags would make `test` alternate between runs.
+    match = literal ? new RegExp(literal[1]!, literal[2]!.replace(/[gy]/g, "")) : new RegExp(when.match, "i");
+  }
+  return { match, unless: when?.unless ?? null };
+}
+
+/** Whether an upstream reply passes the `when` gate of a chained schedule. */
+function passesCondition(condition: CompiledCondition, text: string): boolean {
+  if (condition.unless && isSentinelOnly(text, condition.unless)) {
+    return false;
+  }
+  return condition.match ? condition.match.test(text) : true;
+}
 
+function buildChainedPrompt(prompt: string, upstreamKey: string, output: string): string {
+  return `<upstream_result schedule="${upstreamKey}">\n${output}\n</upstream_result>\n\n${prompt}`;
+}
+
+function parseTrigger(
+  item: Pick<ScheduleDefinition, "cron" | "at" | "every" | "anchor" | "after">,
+  timeZone: string,
+): ScheduleTrigger {
+  const specs = [item.cron, item.at, item.every, item.after].filter(Boolean);
+  if (specs.length !== 1) {
+    throw new Error("exactly one of cron, at, every or after must be set");
+  }
+
+  if (item.cron) {
+    return { kind: "cron", cron: parseCron(item.cron) };
+  }
+  if (item.at) {
+    return { kind: "at", at: parseScheduleTime(item.at, timeZone) };
+  }
+  if (item.after) {
+    return { kind: "after", upstream: item.after };
+  }
   return {
-    year: parseRequiredCronPart(parts, "year"),
-    month: parseRequiredCronPart(parts, "month"),
-    dayOfMonth: parseRequiredCronPart(parts, "day"),
-    hour: parseRequiredCronPart(parts, "hour"),
-    minute: parseRequiredCronPart(parts, "minute"),
-    dayOfWeek,
+    kind: "every",
+    intervalMs: parseInterval(item.every!),
+    anchor: item.anchor
+      ? parseScheduleTime(item.anchor, timeZone)
+      : wallClockToEpoch(DEFAULT_INTERVAL_ANCHOR, timeZone),
   };
 }
 
-function parseRequiredCronPart(parts: Map<string, string>, key: string): number {
-  const raw = parts.get(key);
-  if (!raw) {
-    throw new Error(`failed to read ${key} in timezone ${SCHEDULE_TIME_ZONE}`);
+/** `YYYY-MM-DD[T ]HH:mm[:ss]` with an optional `Z`/`±HH:mm`; offset-less values use `timeZone`. */
+function parseScheduleTime(input: string, timeZone: string): number {
+  const match = input
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i);
+  if (!match) {
+    throw new Error(`invalid timestamp "${input}" (expected e.g. 2026-01-31T09:00)`);
+  }
+
+  const [year, month, day, hour, minute, second] = match
+    .slice(1, 7)
+    .map((value) => Number.parseInt(value || "0", 10)) as [number, number, number, number, number, number];
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  const check = new Date(wall);
+  if (
+    check.getUTCMonth() !== month - 1 ||
+    check.getUTCDate() !== day ||
+    check.getUTCHours() !== hour ||
+    check.getUTCMinutes() !== minute
+  ) {
+    throw new Error(`invalid timestamp "${input}"`);
   }
 
-  const value = Number.parseInt(raw, 10);
-  if (!Number.isFinite(value)) {
-    throw new Error(`invalid ${key} value "${raw}" in timezone ${SCHEDULE_TIME_ZONE}`);
+  const offset = match[7];
+  if (!offset) {
+    return wallClockToEpoch(wall - second * 1000, timeZone) + second * 1000;
   }
-  return value;
+  if (offset.toUpperCase() === "Z") {
+    return wall;
+  }
+  const sign = offset.startsWith("-") ? -1 : 1;
+  const digits = offset.slice(1).replace(":", "");
+  const offsetMinutes = Number.parseInt(digits.slice(0, 2), 10) * 60 + Number.parseInt(digits.slice(2), 10);
+  return wall - sign * offsetMinutes * MINUTE_MS;
+}
+
+/** `90m`, `2h`, `1d12h`, `1h30m` → ms; at least one minute, the tick resolution. */
+function parseInterval(input: string): number {
+  const match = input.trim().toLowerCase().match(/^(?:(\d+)d)?(?:(\d+)h)?(?:(\d+)m)?$/);
+  if (!match || !(match[1] || match[2] || match[3])) {
+    throw new Error(`invalid interval "${input}" (expected e.g. 90m, 2h, 1d12h)`);
+  }
+
+  const [days, hours, minutes] = match.slice(1, 4).map((value) => Number.parseInt(value || "0", 10)) as [
+    number,
+    number,
+    number,
+  ];
+  const totalMinutes = (days * 24 + hours) * 60 + minutes;
+  if (totalMinutes < 1) {
+    throw new Error("interval must be at least 1m");
+  }
+  return totalMinutes * MINUTE_MS;
 }
 
 function parseCron(input: string): CronExpression {
@@ -957,22 +1928,21 @@ function normalizeDayOfWeek(value: number): number {
 }
 
 function matchesCron(cron: CronExpression, date: CronDateTime): boolean {
-  const minute = date.minute;
-  const hour = date.hour;
-  const dayOfMonth = date.dayOfMonth;
-  const month = date.month;
-  const dayOfWeek = date.dayOfWeek;
-
-  if (!cron.minute.values.has(minute)) {
+  if (!cron.minute.values.has(date.minute)) {
     return false;
   }
-  if (!cron.hour.values.has(hour)) {
+  if (!cron.hour.values.has(date.hour)) {
     return false;
   }
-  if (!cron.month.values.has(month)) {
+  if (!cron.month.values.has(date.month)) {
     return false;
   }
+  return matchesCronDay(cron, date);
+}
 
+function matchesCronDay(cron: CronExpression, date: CronDateTime): boolean {
+  const dayOfMonth = date.dayOfMonth;
+  const dayOfWeek = date.dayOfWeek;
   const domMatch = cron.dayOfMonth.values.has(dayOfMonth);
   const dowMatch = cron.dayOfWeek.values.has(dayOfWeek);
 
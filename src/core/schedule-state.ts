@@ -0,0 +1,110 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+/** Fired-state of one schedule key, kept across restarts. */
+export interface ScheduleFireState {
+  /** When the schedule was last enqueued (epoch ms). */
+  lastFiredAt: number;
+  /** Dedup bucket of that firing, so a restart within the same minute does not fire it again. */
+  lastBucket: string;
+  /** Catch-up runs still owed under the `all` policy. */
+  pendingRuns: number;
+}
+
+interface StateRow {
+  last_fired_at: number;
+  last_bucket: string;
+  pending_runs: number;
+}
+
+const LAST_TICK_KEY = "last_tick_at";
+
+/** Per-schedule fired-state plus the scheduler's last tick, stored next to the sessions table. */
+export class ScheduleStateStore {
+  private readonly db: Database.Database;
+  private readonly getStmt: Database.Statement;
+  private readonly upsertStmt: Database.Statement;
+  private readonly removeStmt: Database.Statement;
+  private readonly getMetaStmt: Database.Statement;
+  private readonly setMetaStmt: Database.Statement;
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 3000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schedule_state (
+        schedule_key TEXT PRIMARY KEY,
+        last_fired_at REAL NOT NULL,
+        last_bucket TEXT NOT NULL,
+        pending_runs INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE TABLE IF NOT EXISTS schedule_meta (
+        key TEXT PRIMARY KEY,
+        value REAL NOT NULL
+      );
+    `);
+
+    this.getStmt = this.db.prepare(
+      "SELECT last_fired_at, last_bucket, pending_runs FROM schedule_state WHERE schedule_key = ?",
+    );
+    this.upsertStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO schedule_state (schedule_key, last_fired_at, last_bucket, pending_runs)
+      VALUES (?, ?, ?, ?)
+    `);
+    this.removeStmt = this.db.prepare("DELETE FROM schedule_state WHERE schedule_key = ?");
+    this.getMetaStmt = this.db.prepare("SELECT value FROM schedule_meta WHERE key = ?");
+    this.setMetaStmt = this.db.prepare(
+      "INSERT OR REPLACE INTO schedule_meta (key, value) VALUES (?, ?)",
+    );
+  }
+
+  get(scheduleKey: string): ScheduleFireState | null {
+    const row = this.getStmt.get(scheduleKey) as StateRow | undefined;
+    if (!row) {
+      return null;
+    }
+    return {
+      lastFiredAt: row.last_fired_at,
+      lastBucket: row.last_bucket,
+      pendingRuns: row.pending_runs,
+    };
+  }
+
+  set(scheduleKey: string, state: ScheduleFireState): void {
+    try {
+      this.upsertStmt.run(scheduleKey, state.lastFiredAt, state.lastBucket, state.pendingRuns);
+    } catch (error: unknown) {
+      console.warn(`[schedule] state write failed key=${scheduleKey}:`, error);
+    }
+  }
+
+  remove(scheduleKey: string): void {
+    try {
+      this.removeStmt.run(scheduleKey);
+    } catch (error: unknown) {
+      console.warn(`[schedule] state remove failed key=${scheduleKey}:`, error);
+    }
+  }
+
+  /** When the scheduler last ticked, or null on a fresh database. */
+  getLastTickAt(): number | null {
+    const row = this.getMetaStmt.get(LAST_TICK_KEY) as { value: number } | undefined;
+    return row ? row.value : null;
+  }
+
+  setLastTickAt(value: number): void {
+    try {
+      this.setMetaStmt.run(LAST_TICK_KEY, value);
+    } catch (error: unknown) {
+      console.warn("[schedule] last tick write failed:", error);
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,191 @@
+import fs from "node:fs";
+import path from "node:path";
+import { AttachmentBuilder } from "discord.js";
+
+/** A file in a team run's shared artifact directory. */
+export interface TeamArtifact {
+  /** Path relative to the artifact directory, `/`-separated. */
+  path: string;
+  size: number;
+  modifiedAt: number;
+  /** Step that wrote (or last changed) the file; null when it was there before any step finished. */
+  stepIndex: number | null;
+}
+
+/** A `<handoff format="json">` block that matched TEAM_HANDOFF_SCHEMA. */
+export interface TeamHandoff {
+  summary: string;
+  /** Artifact paths the step wants the next steps to read. */
+  artifacts: string[];
+  data: Record<string, unknown> | null;
+}
+
+/** JSON Schema shown to steps for structured handoffs; `parseStructuredHandoff` enforces it. */
+export const TEAM_HANDOFF_SCHEMA = {
+  type: "object",
+  required: ["summary"],
+  additionalProperties: false,
+  properties: {
+    summary: { type: "string", description: "다음 작업자가 알아야 할 핵심 결과와 컨텍스트" },
+    artifacts: {
+      type: "array",
+      items: { type: "string" },
+      description: "공유 아티팩트 디렉토리 기준 상대 경로",
+    },
+    data: { type: "object", description: "다음 step이 그대로 쓸 구조화된 값 (선택)" },
+  },
+} as const;
+
+// Keeps huge generated trees (node_modules, datasets) from flooding the manifest.
+const MANIFEST_LIMIT = 200;
+// Discord accepts at most 10 files per message.
+const ATTACHMENT_LIMIT = 10;
+const MAX_DISCORD_FILE_SIZE = 25 * 1024 * 1024;
+
+export function teamArtifactDir(dataDir: string, runId: string): string {
+  return path.join(path.resolve(dataDir), "team-runs", runId, "artifacts");
+}
+
+/** Files under the artifact directory with their mtimes, sorted by path. */
+export function scanArtifacts(dir: string): Array<{ path: string; size: number; mtimeMs: number }> {
+  const files: Array<{ path: string; size: number; mtimeMs: number }> = [];
+  const walk = (current: string): void => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(current, { withFileTypes: true });
+    } catch (error: unknown) {
+      if ((error as { code?: string }).code !== "ENOENT") {
+        console.warn(`[team] failed to read artifact dir ${current}:`, error);
+      }
+      return;
+    }
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (files.length >= MANIFEST_LIMIT) {
+        return;
+      }
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else if (entry.isFile()) {
+        try {
+          const stat = fs.statSync(fullPath);
+          files.push({
+            path: path.relative(dir, fullPath).split(path.sep).join("/"),
+            size: stat.size,
+            mtimeMs: stat.mtimeMs,
+          });
+        } catch (error: unknown) {
+          console.warn(`[team] failed to stat artifact ${fullPath}:`, error);
+        }
+      }
+    }
+  };
+  walk(dir);
+  return files;
+}
+
+/**
+ * Rebuilds the manifest after a step finished. Files that are new or changed since the last
+ * update, or that its structured handoff names, are credited to it; the rest keep their owner.
+ * Parallel branches writing at the same time can still be credited to whichever finishes first.
+ */
+export function updateManifest(
+  manifest: TeamArtifact[],
+  dir: string,
+  stepIndex: number,
+  claimed: string[] = [],
+): TeamArtifact[] {
+  const previous = new Map(manifest.map((artifact) => [artifact.path, artifact]));
+  const claimedPaths = new Set(claimed.map(normalizeArtifactPath));
+  return scanArtifacts(dir).map((file) => {
+    const known = previous.get(file.path);
+    const touched = !known || known.modifiedAt !== file.mtimeMs || claimedPaths.has(file.path);
+    return {
+      path: file.path,
+      size: file.size,
+      modifiedAt: file.mtimeMs,
+      stepIndex: touched ? stepIndex : known.stepIndex,
+    };
+  });
+}
+
+/** Manifest lines for a step prompt, e.g. `- report.md (1.2KB, Step 1)`. */
+export function formatManifest(manifest: TeamArtifact[]): string {
+  if (manifest.length === 0) {
+    return "(아직 파일 없음)";
+  }
+  return manifest
+    .map((artifact) => {
+      const owner = artifact.stepIndex === null ? "" : `, Step ${artifact.stepIndex + 1}`;
+      return `- ${artifact.path} (${formatSize(artifact.size)}${owner})`;
+    })
+    .join("\n");
+}
+
+/**
+ * Parses a structured handoff body. Returns null when the body is not JSON or does not match
+ * TEAM_HANDOFF_SCHEMA, so the caller can fall back to treating it as free text.
+ */
+export function parseStructuredHandoff(body: string): TeamHandoff | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripJsonFence(body));
+  } catch {
+    return null;
+  }
+  if (!isPlainObject(value) || typeof value.summary !== "string" || !value.summary.trim()) {
+    return null;
+  }
+  const allowed = Object.keys(TEAM_HANDOFF_SCHEMA.properties);
+  if (Object.keys(value).some((key) => !allowed.includes(key))) {
+    return null;
+  }
+  if (
+    value.artifacts !== undefined &&
+    (!Array.isArray(value.artifacts) || value.artifacts.some((entry) => typeof entry !== "string"))
+  ) {
+    return null;
+  }
+  if (value.data !== undefined && !isPlainObject(value.data)) {
+    return null;
+  }
+  return {
+    summary: value.summary.trim(),
+    artifacts: ((value.artifacts as string[] | undefined) ?? []).map(normalizeArtifactPath),
+    data: (value.data as Record<string, unknown> | undefined) ?? null,
+  };
+}
+
+/** Artifact files to post with the run summary; smallest first so more fit in one message. */
+export function collectArtifactAttachments(dir: string, manifest: TeamArtifact[]): AttachmentBuilder[] {
+  return manifest
+    .filter((artifact) => artifact.size > 0 && artifact.size <= MAX_DISCORD_FILE_SIZE)
+    .sort((a, b) => a.size - b.size)
+    .slice(0, ATTACHMENT_LIMIT)
+    .map((artifact) => new AttachmentBuilder(path.join(dir, artifact.path), {
+      name: artifact.path.replace(/\//g, "_"),
+    }));
+}
+
+function normalizeArtifactPath(value: string): string {
+  return value.trim().replace(/\\/g, "/").replace(/^\.\//, "");
+}
+
+function stripJsonFence(body: string): string {
+  const fenced = body.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return fenced ? fenced[1] : body;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes}B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)}KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
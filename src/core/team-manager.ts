@@ -1,17 +1,64 @@
-import type { Client, TextBasedChannel, TextChannel } from "discord.js";
-import { EmbedBuilder } from "discord.js";
+import fs from "node:fs";
+import type { AnyThreadChannel, Client, Message, TextBasedChannel, TextChannel } from "discord.js";
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  StringSelectMenuBuilder,
+} from "discord.js";
 import type { BotContext } from "../bot.js";
-import type { RunResult } from "./llm-runner.js";
+import type { Config } from "../utils/config.js";
+import { isEngineType, type EngineType, type RunResult } from "./llm-runner.js";
+import { defaultModelForEngine, engineForModelPreset, modelPresetsForEngine } from "./model-manager.js";
 import type { QueueManager } from "./queue-manager.js";
+import { isCancelledError } from "./retry-policy.js";
+import {
+  collectArtifactAttachments,
+  formatManifest,
+  parseStructuredHandoff,
+  teamArtifactDir,
+  updateManifest,
+  TEAM_HANDOFF_SCHEMA,
+  type TeamArtifact,
+  type TeamHandoff,
+} from "./team-artifacts.js";
+import type { TeamRunStore } from "./team-run-store.js";
 
 // ── Interfaces ──────────────────────────────────────────
 
 export interface TeamStep {
   index: number;
   label: string;
+  /** Empty = the engine's default model. */
   model: string;
   modeName: string;
   task: string;
+  /** Indices of the steps whose handoffs this step waits for; empty steps start right away. */
+  dependsOn: number[];
+  /** Runner for the step (default: claude). */
+  engine?: EngineType;
+}
+
+/** Fields a reviewer can change on a step; `insertStep` requires label and task. */
+export interface TeamStepPatch {
+  label?: string;
+  task?: string;
+  model?: string;
+  modeName?: string;
+  engine?: EngineType;
+}
+
+/**
+ * `skipped` steps were skipped on purpose and count as finished for their dependents;
+ * `cancelled` steps were stopped by a failure elsewhere and run again on resume.
+ */
+export type TeamStepStatus = "pending" | "running" | "done" | "failed" | "skipped" | "cancelled";
+
+export interface TeamStepState {
+  status: TeamStepStatus;
+  startedAt: number | null;
+  finishedAt: number | null;
 }
 
 export interface TeamRun {
@@ -20,35 +67,128 @@ export interface TeamRun {
   threadId: string | null;
   userId: string;
   steps: TeamStep[];
-  currentStep: number;
+  /** Parallel to `steps`. */
+  stepStates: TeamStepState[];
   status: "planning" | "awaiting_approval" | "running" | "done" | "failed";
+  /** Handoff text per step; structured handoffs are stored as their normalized JSON. */
   handoffs: string[];
+  /** Files in the run's shared artifact directory and the step that produced each. */
+  artifacts: TeamArtifact[];
   originalPrompt: string;
   startedAt: number;
-  stepStartedAt: number | null;
+  finishedAt: number | null;
+  /** Plan embed in the run's thread, reattached after a restart. */
+  planMessageId: string | null;
 }
 
 // ── Parsing prompt ──────────────────────────────────────
 
-const PLAN_SYSTEM_PROMPT = `너는 멀티스텝 작업 플래너다. 유저의 자연어 지시를 구조화된 JSON 파이프라인으로 변환하라.
+/**
+ * Planner instructions listing the engines registered in this process and their `/model`
+ * presets, so plans only pick models that can actually run.
+ */
+export function buildPlanSystemPrompt(engines: EngineType[], config: Config): string {
+  const engineLines = engines.map((engine) => {
+    const presets = modelPresetsForEngine(engine);
+    const fallback = defaultModelForEngine(config, engine);
+    const models = presets.length > 0 ? presets.join(", ") : fallback || "서버에 로드된 모델";
+    return `- ${engine}: ${models}${fallback ? ` (기본: ${fallback})` : ""}`;
+  });
+
+  return `너는 멀티스텝 작업 플래너다. 유저의 자연어 지시를 구조화된 JSON 파이프라인으로 변환하라.
 
 출력 형식 (반드시 JSON만 출력):
 {
   "steps": [
     {
+      "id": "짧은 영문 식별자 (예: research_a)",
       "label": "작업 설명 (한줄)",
-      "model": "claude-opus-4-6 | claude-sonnet-4-5-20250929",
+      "engine": "${engines.join(" | ")}",
+      "model": "아래 목록의 모델ID (비우면 엔진 기본 모델)",
       "modeName": "default | business | research | ...",
-      "task": "상세 작업 지시문"
+      "task": "상세 작업 지시문",
+      "dependsOn": ["결과를 넘겨받아야 하는 선행 step의 id"]
     }
   ]
 }
 
+사용 가능한 엔진과 모델:
+${engineLines.join("\n")}
+
 규칙:
-- 모델명이 약칭이면 정식 모델ID로 변환 (opus → claude-opus-4-6, opus-4-6 → claude-opus-4-6, sonnet → claude-sonnet-4-5-20250929, sonnet-4-5 → claude-sonnet-4-5-20250929)
+- engine은 위 목록에 있는 것만 사용. 명시되지 않으면 "${engines[0] ?? "claude"}"
+- model은 해당 engine의 목록에 있는 ID를 사용. 약칭은 목록의 정식 ID로 변환 (예: opus → 목록의 claude-opus-*)
+- 구현/코드 수정 step에 codex가 지정되거나 요청되면 engine을 "codex"로 설정
 - 모드가 명시되지 않으면 "default"
 - 각 step의 task는 구체적이고 실행 가능하게 작성
+- 서로의 결과가 필요 없는 step은 dependsOn을 비워 병렬로 실행되게 하라 (예: "A 조사"와 "B 조사")
+- 여러 결과를 합치는 step은 dependsOn에 선행 step id를 모두 나열하라
+- 순환 의존 금지
 - JSON 외 텍스트 출력 금지`;
+}
+
+const REVIEW_PROMPT = "이렇게 진행할까요? 버튼으로 승인하거나 step을 수정하세요. (응/yes 입력으로도 승인됩니다)";
+
+const STEP_STATUS_ICONS: Record<TeamStepStatus, string> = {
+  pending: "⏳",
+  running: "🔄",
+  done: "✅",
+  failed: "❌",
+  skipped: "⏭️",
+  cancelled: "🚫",
+};
+
+const COMPONENT_PREFIX = "team";
+// Handoff recorded for a failed step the user chose to skip.
+const SKIPPED_HANDOFF = "(건너뜀: 실패한 step을 건너뛰었습니다)";
+
+export type TeamComponentAction =
+  | "approve"
+  | "cancel"
+  | "edit"
+  | "insert"
+  | "remove"
+  | "retry"
+  | "skip"
+  | "editretry";
+
+const TEAM_COMPONENT_ACTIONS: readonly TeamComponentAction[] = [
+  "approve",
+  "cancel",
+  "edit",
+  "insert",
+  "remove",
+  "retry",
+  "skip",
+  "editretry",
+];
+
+export interface TeamComponentTarget {
+  action: TeamComponentAction;
+  runId: string;
+  /** Step the failure buttons refer to; null for plan review controls. */
+  stepIndex: number | null;
+}
+
+/** Parses `team:<action>:<runId>[:<stepIndex>]` ids of the review and failure controls. */
+export function parseTeamComponentId(customId: string): TeamComponentTarget | null {
+  const [prefix, action, runId, step] = customId.split(":");
+  if (prefix !== COMPONENT_PREFIX || !runId) {
+    return null;
+  }
+  if (!TEAM_COMPONENT_ACTIONS.includes(action as TeamComponentAction)) {
+    return null;
+  }
+  const stepIndex = step === undefined ? null : Number(step);
+  if (stepIndex !== null && !Number.isInteger(stepIndex)) {
+    return null;
+  }
+  return { action: action as TeamComponentAction, runId, stepIndex };
+}
+
+function componentId(action: TeamComponentAction, runId: string, stepIndex?: number): string {
+  return [COMPONENT_PREFIX, action, runId, ...(stepIndex === undefined ? [] : [String(stepIndex)])].join(":");
+}
 
 // ── Approval keywords ───────────────────────────────────
 
@@ -70,12 +210,21 @@ function generateId(): string {
 
 export class TeamManager {
   private readonly runs = new Map<string, TeamRun>();
+  /** Plan embed posted in each run's thread, edited as steps change status. */
+  private readonly planMessages = new Map<string, Message>();
+  /** Plan review message (with approve/edit controls) in the original channel. */
+  private readonly reviewMessages = new Map<string, Message>();
 
   constructor(
     private readonly client: Client,
     private readonly queue: QueueManager,
+    private readonly store: TeamRunStore,
   ) { }
 
+  close(): void {
+    this.store.close();
+  }
+
   // ── Planning ────────────────────────────────────────
 
   async startPlanning(
@@ -84,15 +233,18 @@ export class TeamManager {
     instruction: string,
     ctx: BotContext,
   ): Promise<TeamRun> {
-    const runner = ctx.runners.get("claude");
+    const plannerEngine = ctx.config.teamPlannerEngine;
+    const runner = ctx.runners.get(plannerEngine);
     if (!runner) {
-      throw new Error("Claude runner를 찾을 수 없습니다.");
+      throw new Error(`플래너 엔진(${plannerEngine}) runner를 찾을 수 없습니다.`);
     }
 
+    const engines = [...ctx.runners.keys()].filter(isEngineType);
+    const plannerModel = ctx.config.teamPlannerModel || defaultModelForEngine(ctx.config, plannerEngine);
     const result = await runner.run({
       prompt: instruction,
-      systemPrompt: PLAN_SYSTEM_PROMPT,
-      model: "claude-sonnet-4-5-20250929",
+      systemPrompt: buildPlanSystemPrompt(engines, ctx.config),
+      ...(plannerModel ? { model: plannerModel } : {}),
     });
 
     if (!result.success || !result.text.trim()) {
@@ -103,6 +255,12 @@ export class TeamManager {
     if (parsed.length === 0) {
       throw new Error("파싱된 step이 없습니다. 지시를 더 구체적으로 해주세요.");
     }
+    const unavailable = parsed.find((step) => step.engine && !ctx.runners.has(step.engine));
+    if (unavailable) {
+      throw new Error(
+        `Step ${unavailable.index + 1}의 엔진(${unavailable.engine})이 활성화되어 있지 않습니다.`,
+      );
+    }
 
     const run: TeamRun = {
       id: generateId(),
@@ -110,29 +268,226 @@ export class TeamManager {
       threadId: null,
       userId,
       steps: parsed,
-      currentStep: 0,
+      stepStates: parsed.map(() => ({ status: "pending", startedAt: null, finishedAt: null })),
       status: "awaiting_approval",
       handoffs: [],
+      artifacts: [],
       originalPrompt: instruction,
       startedAt: Date.now(),
-      stepStartedAt: null,
+      finishedAt: null,
+      planMessageId: null,
     };
 
     this.runs.set(run.id, run);
+    this.store.save(run);
 
     // Send plan embed
     const embed = this.buildPlanEmbed(run);
     const send = (channel as { send?: (options: unknown) => Promise<unknown> }).send;
     if (typeof send === "function") {
-      await send.call(channel, {
+      const review = await send.call(channel, {
         embeds: [embed],
-        content: "이렇게 진행할까요? (응/yes로 승인, 아니면 취소됩니다)",
+        content: REVIEW_PROMPT,
+        components: this.buildReviewComponents(run),
       });
+      if (review && typeof (review as Message).edit === "function") {
+        this.reviewMessages.set(run.id, review as Message);
+      }
     }
 
     return run;
   }
 
+  // ── Plan review ─────────────────────────────────────
+
+  /** Live run, or a stored one from an earlier process. */
+  getRun(runId: string): TeamRun | null {
+    return this.runs.get(runId) ?? this.store.get(runId);
+  }
+
+  /**
+   * Changes a step before approval, or a failed/cancelled step before it is retried.
+   * Finished steps keep what they produced.
+   */
+  editStep(runId: string, stepIndex: number, patch: TeamStepPatch): TeamRun {
+    const run = this.requireRun(runId);
+    const step = run.steps[stepIndex];
+    if (!step) {
+      throw new Error(`Step ${stepIndex + 1}이(가) 없습니다.`);
+    }
+    const state = run.stepStates[stepIndex]!;
+    const editable =
+      run.status === "awaiting_approval" ||
+      (run.status === "failed" && (state.status === "failed" || state.status === "cancelled"));
+    if (!editable) {
+      throw new Error("승인 전이거나 실패한 step만 수정할 수 있습니다.");
+    }
+
+    const next = { ...step, ...withoutUndefined(patch) };
+    const engineChanged = (next.engine ?? "claude") !== (step.engine ?? "claude");
+    // The form carries the old model over; drop it when it belongs to the engine being replaced.
+    if (engineChanged && next.model === step.model && engineForModelPreset(next.model) !== (next.engine ?? "claude")) {
+      next.model = "";
+    }
+    assertModelFitsEngine(next);
+    run.steps[stepIndex] = next;
+    this.persist(run);
+    return run;
+  }
+
+  /**
+   * Adds a step after `afterIndex` (-1 = before everything). The new step takes over the
+   * dependents of the step it follows, so it slots into that chain.
+   */
+  insertStep(runId: string, afterIndex: number, patch: TeamStepPatch): TeamRun {
+    const run = this.requireReviewableRun(runId);
+    if (afterIndex < -1 || afterIndex >= run.steps.length) {
+      throw new Error("잘못된 위치입니다.");
+    }
+    if (!patch.label || !patch.task) {
+      throw new Error("label과 task는 필수입니다.");
+    }
+
+    const index = afterIndex + 1;
+    const shift = (dep: number): number => (dep >= index ? dep + 1 : dep);
+    const steps = run.steps.map((step) => {
+      const deps = step.dependsOn.map(shift);
+      const takesOver = afterIndex === -1 ? deps.length === 0 : step.dependsOn.includes(afterIndex);
+      return {
+        ...step,
+        index: shift(step.index),
+        dependsOn: takesOver
+          ? [...deps.filter((dep) => dep !== afterIndex), index]
+          : deps,
+      };
+    });
+    steps.splice(index, 0, {
+      index,
+      label: patch.label,
+      task: patch.task,
+      model: patch.model ?? "",
+      modeName: patch.modeName || "default",
+      dependsOn: afterIndex === -1 ? [] : [afterIndex],
+      ...(patch.engine ? { engine: patch.engine } : {}),
+    });
+    assertModelFitsEngine(steps[index]!);
+
+    run.steps = steps;
+    run.stepStates = steps.map(() => ({ status: "pending", startedAt: null, finishedAt: null }));
+    this.persist(run);
+    return run;
+  }
+
+  /** Drops a step before approval; its dependents inherit its dependencies. */
+  removeStep(runId: string, stepIndex: number): TeamRun {
+    const run = this.requireReviewableRun(runId);
+    const removed = run.steps[stepIndex];
+    if (!removed) {
+      throw new Error(`Step ${stepIndex + 1}이(가) 없습니다.`);
+    }
+    if (run.steps.length === 1) {
+      throw new Error("마지막 남은 step은 삭제할 수 없습니다. 취소 버튼을 사용하세요.");
+    }
+
+    const shift = (dep: number): number => (dep > stepIndex ? dep - 1 : dep);
+    run.steps = run.steps
+      .filter((step) => step.index !== stepIndex)
+      .map((step) => {
+        const deps = step.dependsOn.flatMap((dep) => (dep === stepIndex ? removed.dependsOn : [dep]));
+        return { ...step, index: shift(step.index), dependsOn: [...new Set(deps.map(shift))] };
+      });
+    run.stepStates = run.steps.map(() => ({ status: "pending", startedAt: null, finishedAt: null }));
+    this.persist(run);
+    return run;
+  }
+
+  /** Marks a failed step as skipped (its dependents get a placeholder handoff) and resumes the run. */
+  async skipStep(runId: string, stepIndex: number, ctx: BotContext): Promise<TeamRun> {
+    const run = this.requireRun(runId);
+    const state = run.stepStates[stepIndex];
+    if (run.status !== "failed" || state?.status !== "failed") {
+      throw new Error("실패한 step만 건너뛸 수 있습니다.");
+    }
+    state.status = "skipped";
+    run.handoffs[stepIndex] = SKIPPED_HANDOFF;
+    this.persist(run);
+    return await this.resumeRun(runId, ctx);
+  }
+
+  /** Review controls under the plan: approve/cancel, then pick a step to edit, insert after, or remove. */
+  buildReviewComponents(run: TeamRun): Array<ActionRowBuilder<ButtonBuilder> | ActionRowBuilder<StringSelectMenuBuilder>> {
+    const stepOptions = run.steps.slice(0, 25).map((step) => ({
+      label: `Step ${step.index + 1}: ${step.label}`.slice(0, 100),
+      value: String(step.index),
+    }));
+    const insertOptions = [
+      { label: "맨 앞에 추가", value: "-1" },
+      ...run.steps.slice(0, 24).map((step) => ({
+        label: `Step ${step.index + 1} 뒤에 추가`.slice(0, 100),
+        value: String(step.index),
+      })),
+    ];
+
+    return [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(componentId("approve", run.id))
+          .setLabel("승인")
+          .setStyle(ButtonStyle.Success),
+        new ButtonBuilder()
+          .setCustomId(componentId("cancel", run.id))
+          .setLabel("취소")
+          .setStyle(ButtonStyle.Danger),
+      ),
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(componentId("edit", run.id))
+          .setPlaceholder("수정할 step 선택")
+          .addOptions(stepOptions),
+      ),
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(componentId("insert", run.id))
+          .setPlaceholder("step 추가 위치 선택")
+          .addOptions(insertOptions),
+      ),
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(componentId("remove", run.id))
+          .setPlaceholder("삭제할 step 선택")
+          .addOptions(stepOptions),
+      ),
+    ];
+  }
+
+  /** Closes the review controls once the plan is approved or cancelled. */
+  private closeReview(run: TeamRun, content: string): void {
+    const message = this.reviewMessages.get(run.id);
+    if (!message) {
+      return;
+    }
+    this.reviewMessages.delete(run.id);
+    message.edit({ content, embeds: [this.buildPlanEmbed(run)], components: [] }).catch((error: unknown) => {
+      console.warn(`[team] review message update failed run=${run.id}:`, error);
+    });
+  }
+
+  private requireRun(runId: string): TeamRun {
+    const run = this.getRun(runId);
+    if (!run) {
+      throw new Error(`파이프라인을 찾을 수 없습니다: ${runId}`);
+    }
+    return run;
+  }
+
+  private requireReviewableRun(runId: string): TeamRun {
+    const run = this.requireRun(runId);
+    if (run.status !== "awaiting_approval") {
+      throw new Error("승인 대기 중인 플랜만 수정할 수 있습니다.");
+    }
+    return run;
+  }
+
   // ── Approval ────────────────────────────────────────
 
   getPendingApproval(channelId: string, userId: string): TeamRun | null {
@@ -153,43 +508,178 @@ export class TeamManager {
     if (!run) {
       return;
     }
+    await this.approveRun(run.id, ctx);
+  }
+
+  async approveRun(runId: string, ctx: BotContext): Promise<TeamRun> {
+    const run = this.requireReviewableRun(runId);
 
     // Create thread
-    const channel = this.client.channels.cache.get(channelId) as TextChannel | undefined;
+    const channel = this.client.channels.cache.get(run.channelId) as TextChannel | undefined;
     if (!channel || !("threads" in channel)) {
       throw new Error("스레드를 생성할 수 없는 채널입니다.");
     }
 
-    const thread = await channel.threads.create({
-      name: `Team: ${run.originalPrompt.slice(0, 80)}`,
-      autoArchiveDuration: 1440,
-    });
+    // Claim the run before awaiting so a second approval (button + text) can't start it twice.
+    run.status = "running";
+    let thread: AnyThreadChannel;
+    try {
+      thread = await channel.threads.create({
+        name: `Team: ${run.originalPrompt.slice(0, 80)}`,
+        autoArchiveDuration: 1440,
+      });
+    } catch (error: unknown) {
+      run.status = "awaiting_approval";
+      throw error;
+    }
 
     run.threadId = thread.id;
+    this.closeReview(run, `승인되었습니다. 진행 상황: <#${thread.id}>`);
+
+    const planMessage = await thread.send({
+      content: `**Team Pipeline** 시작 (${run.steps.length} steps)\n원본 지시: ${run.originalPrompt}`,
+      embeds: [this.buildPlanEmbed(run)],
+    });
+    this.planMessages.set(run.id, planMessage);
+    run.planMessageId = planMessage.id;
+    this.store.save(run);
+
+    this.executeReady(run, thread, ctx);
+    return run;
+  }
+
+  // ── Persistence & resume ────────────────────────────
+
+  /**
+   * Reloads runs a previous process left unfinished. Runs awaiting approval keep waiting.
+   * Running ones get their thread back; with QUEUE_RESUME_INTERRUPTED the steps that were
+   * cut off run again, otherwise they fail and `/team resume` continues from them.
+   */
+  async restoreRuns(ctx: BotContext): Promise<void> {
+    for (const run of this.store.listUnfinished()) {
+      this.runs.set(run.id, run);
+      if (run.status !== "running") {
+        continue;
+      }
+
+      const interrupted = run.steps.filter((step) => run.stepStates[step.index]?.status === "running");
+      const refs = interrupted.length > 0 ? formatStepRefs(interrupted.map((step) => step.index)) : "";
+      const thread = await this.fetchThread(run);
+      if (thread) {
+        await this.attachPlanMessage(run, thread);
+      }
+
+      if (thread && ctx.config.queueResumeInterrupted) {
+        for (const step of interrupted) {
+          run.stepStates[step.index] = { status: "pending", startedAt: null, finishedAt: null };
+        }
+        sendText(thread, `봇 재시작으로 중단된 파이프라인을 이어서 실행합니다.${refs ? ` (${refs} 재실행)` : ""}`);
+        console.log(`[team] resumed run=${run.id} after restart interrupted=${interrupted.length}`);
+        this.executeReady(run, thread, ctx);
+        continue;
+      }
+
+      for (const step of interrupted) {
+        run.stepStates[step.index] = { ...run.stepStates[step.index]!, status: "failed", finishedAt: Date.now() };
+      }
+      this.stopRemainingSteps(run);
+      if (thread) {
+        sendText(
+          thread,
+          `⚠️ 봇 재시작으로 ${refs || "파이프라인"}이(가) 중단되었습니다. \`/team resume run_id:${run.id}\`로 이어서 실행할 수 있습니다.`,
+        );
+      }
+      console.warn(`[team] run=${run.id} interrupted by restart thread=${thread ? "ok" : "missing"}`);
+    }
+  }
+
+  /** Continues a failed or interrupted run: finished steps keep their handoffs, the rest run again. */
+  async resumeRun(runId: string, ctx: BotContext): Promise<TeamRun> {
+    const live = this.runs.get(runId);
+    const run = live ?? this.store.get(runId);
+    if (!run) {
+      throw new Error(`파이프라인을 찾을 수 없습니다: ${runId}`);
+    }
+    if (run.status === "running") {
+      throw new Error("이미 실행 중인 파이프라인입니다.");
+    }
+    if (run.status === "awaiting_approval" || run.status === "planning") {
+      throw new Error("아직 승인되지 않은 파이프라인입니다. 채널에서 승인해주세요.");
+    }
+    if (run.status === "done") {
+      throw new Error("이미 완료된 파이프라인입니다.");
+    }
+    // In this process a "running" step is a live queue task, e.g. a branch still being cancelled.
+    if (live && run.stepStates.some((state) => state.status === "running")) {
+      throw new Error("중단 중인 step이 아직 끝나지 않았습니다. 잠시 후 다시 시도해주세요.");
+    }
+
+    const thread = await this.fetchThread(run);
+    if (!thread) {
+      throw new Error("파이프라인 스레드를 찾을 수 없습니다.");
+    }
+
+    for (const step of run.steps) {
+      if (!isSettled(run.stepStates[step.index]?.status)) {
+        run.stepStates[step.index] = { status: "pending", startedAt: null, finishedAt: null };
+      }
+    }
     run.status = "running";
+    run.finishedAt = null;
+    this.runs.set(run.id, run);
+    await this.attachPlanMessage(run, thread);
+    this.persist(run);
 
-    await thread.send(
-      `**Team Pipeline** 시작 (${run.steps.length} steps)\n원본 지시: ${run.originalPrompt}`,
+    const doneCount = run.stepStates.filter((state) => isSettled(state.status)).length;
+    sendText(
+      thread,
+      `**파이프라인 재개** (${run.steps.length - doneCount} steps 남음${doneCount > 0 ? `, 끝난 ${doneCount} steps는 건너뜁니다` : ""})`,
     );
+    this.executeReady(run, thread, ctx);
+    return run;
+  }
 
-    this.executeStep(run, thread, ctx);
+  /** Most recent runs first, from the store so finished pipelines of earlier processes show up too. */
+  listRuns(limit = 10): TeamRun[] {
+    return this.store.list(limit);
   }
 
   // ── Execution ───────────────────────────────────────
 
-  private executeStep(run: TeamRun, thread: TextBasedChannel, ctx: BotContext): void {
-    const step = run.steps[run.currentStep];
-    if (!step) {
-      this.completeRun(run, thread);
+  /** Enqueues every pending step whose dependencies are done; finishes the run when all are done. */
+  private executeReady(run: TeamRun, thread: TextBasedChannel, ctx: BotContext): void {
+    if (run.stepStates.every((state) => isSettled(state.status))) {
+      this.completeRun(run, thread, ctx);
       return;
     }
 
-    run.stepStartedAt = Date.now();
+    for (const step of run.steps) {
+      // A rejected enqueue fails the run synchronously; stop launching siblings then.
+      if (run.status !== "running") {
+        return;
+      }
+      const ready =
+        run.stepStates[step.index]!.status === "pending" &&
+        step.dependsOn.every((dep) => isSettled(run.stepStates[dep]?.status));
+      if (ready) {
+        this.executeStep(run, step, thread, ctx);
+      }
+    }
+  }
+
+  private executeStep(run: TeamRun, step: TeamStep, thread: TextBasedChannel, ctx: BotContext): void {
+    const state = run.stepStates[step.index]!;
+    state.status = "running";
+    state.startedAt = Date.now();
+    this.persist(run);
 
     // Send step start message
+    const engine = step.engine ?? "claude";
     const startMsg = [
       `**Step ${step.index + 1}/${run.steps.length}: ${step.label}**`,
-      `모델: \`${step.model}\` | 모드: \`${step.modeName}\``,
+      `엔진: \`${engine}\` | 모델: \`${step.model || "기본값"}\` | 모드: \`${step.modeName}\`${
+        step.dependsOn.length > 0 ? ` | 선행: ${formatStepRefs(step.dependsOn)}` : ""
+      }`,
       "━━━━━━━━━━━━━━━━━━",
     ].join("\n");
 
@@ -199,22 +689,48 @@ export class TeamManager {
     }
 
     // Build prompt with handoff context
-    const prompt = this.buildStepPrompt(run, step);
-    const taskKey = `team:${run.id}:step${step.index}`;
+    const artifactDir = teamArtifactDir(ctx.config.dataDir, run.id);
+    try {
+      fs.mkdirSync(artifactDir, { recursive: true });
+    } catch (error: unknown) {
+      console.warn(`[team] failed to create artifact dir run=${run.id}:`, error);
+    }
+    const prompt = this.buildStepPrompt(run, step, artifactDir);
+    const taskKey = stepTaskKey(run, step);
 
-    this.queue.enqueue({
+    const enqueueResult = this.queue.enqueue({
       prompt,
       sessionId: null,
-      model: step.model,
+      model: step.model || null,
       taskKey,
       respondTo: { type: "channel", channel: thread },
       createdAt: Date.now(),
-      engine: "claude",
+      engine,
       modeName: step.modeName,
+      extraDirs: [artifactDir],
       onComplete: (result: RunResult) => {
         this.onStepComplete(run, step, result, thread, ctx);
       },
     });
+
+    if (!enqueueResult.accepted) {
+      // Rejected steps never reach onComplete; fail the step so the run does not hang.
+      this.onStepComplete(
+        run,
+        step,
+        {
+          success: false,
+          text: "",
+          sessionId: null,
+          error: enqueueResult.message || `대기열 등록 실패 (${enqueueResult.reason})`,
+          durationMs: 0,
+          isTimeout: false,
+          usage: null,
+        },
+        thread,
+        ctx,
+      );
+    }
   }
 
   private onStepComplete(
@@ -224,8 +740,9 @@ export class TeamManager {
     thread: TextBasedChannel,
     ctx: BotContext,
   ): void {
-    const elapsed = run.stepStartedAt ? Date.now() - run.stepStartedAt : 0;
-    const elapsedStr = formatDuration(elapsed);
+    const state = run.stepStates[step.index]!;
+    state.finishedAt = Date.now();
+    const elapsedStr = formatDuration(state.startedAt ? state.finishedAt - state.startedAt : 0);
 
     const sendToThread = (thread as { send?: (content: string) => Promise<unknown> }).send;
     const send = (msg: string): void => {
@@ -234,56 +751,138 @@ export class TeamManager {
       }
     };
 
+    // A parallel branch finishing after the run was cancelled or failed elsewhere;
+    // branches the queue dropped or aborted for that reason count as cancelled, not failed.
+    if (run.status !== "running") {
+      state.status = result.success
+        ? "done"
+        : isCancelledError(result.error || "") ? "cancelled" : "failed";
+      if (result.success) {
+        this.recordHandoff(run, step, result.text, ctx);
+      }
+      this.persist(run);
+      return;
+    }
+
     if (!result.success) {
-      run.status = "failed";
-      send(
-        [
-          `**Step ${step.index + 1}/${run.steps.length} 실패**`,
-          result.error || "알 수 없는 오류",
-          "파이프라인이 중단되었습니다.",
-        ].join("\n"),
-      );
+      state.status = "failed";
+      this.stopRemainingSteps(run);
+      if (typeof sendToThread === "function") {
+        void (sendToThread as (options: unknown) => Promise<unknown>).call(thread, {
+          content: [
+            `**Step ${step.index + 1}/${run.steps.length} 실패**`,
+            result.error || "알 수 없는 오류",
+            "파이프라인이 멈췄습니다. 이 step을 재시도하거나 건너뛰거나, 수정 후 재시도할 수 있습니다.",
+          ].join("\n"),
+          components: [this.buildFailureComponents(run, step)],
+        });
+      }
       this.notifyOriginalChannel(run, `Team 파이프라인 실패 (Step ${step.index + 1}에서 중단)`);
       return;
     }
 
     // Extract handoff
-    const handoff = extractHandoff(result.text);
-    run.handoffs[step.index] = handoff || "(handoff 없음)";
+    const handoff = this.recordHandoff(run, step, result.text, ctx);
+    state.status = "done";
+    this.persist(run);
 
     // Post step completion
-    const handoffPreview = handoff
-      ? handoff.length > 200 ? `${handoff.slice(0, 200)}...` : handoff
+    const summary = handoff ? handoff.structured?.summary ?? handoff.text : null;
+    const handoffPreview = summary
+      ? summary.length > 200 ? `${summary.slice(0, 200)}...` : summary
       : "(handoff 없음)";
+    const produced = run.artifacts.filter((artifact) => artifact.stepIndex === step.index);
+    const missing = handoff?.structured?.artifacts.filter(
+      (claimed) => !run.artifacts.some((artifact) => artifact.path === claimed),
+    ) ?? [];
 
     send(
       [
         `**Step ${step.index + 1}/${run.steps.length} 완료** (${elapsedStr})`,
         `> ${handoffPreview}`,
+        ...(produced.length > 0 ? [`📎 ${produced.map((artifact) => artifact.path).join(", ").slice(0, 500)}`] : []),
+        ...(missing.length > 0 ? [`⚠️ handoff에 적힌 파일이 없습니다: ${missing.join(", ").slice(0, 300)}`] : []),
         "━━━━━━━━━━━━━━━━━━",
       ].join("\n"),
     );
 
-    // Move to next step
-    run.currentStep += 1;
-    if (run.currentStep < run.steps.length) {
-      this.executeStep(run, thread, ctx);
-    } else {
-      this.completeRun(run, thread);
+    // Start whatever this step unblocked
+    this.executeReady(run, thread, ctx);
+  }
+
+  /** Stores the step's handoff and credits the artifacts it wrote. */
+  private recordHandoff(
+    run: TeamRun,
+    step: TeamStep,
+    text: string,
+    ctx: BotContext,
+  ): { text: string; structured: TeamHandoff | null } | null {
+    const handoff = extractHandoff(text);
+    run.handoffs[step.index] = handoff?.text || "(handoff 없음)";
+    run.artifacts = updateManifest(
+      run.artifacts,
+      teamArtifactDir(ctx.config.dataDir, run.id),
+      step.index,
+      handoff?.structured?.artifacts,
+    );
+    return handoff;
+  }
+
+  /** Retry / skip / edit-and-retry buttons posted with a step failure. */
+  private buildFailureComponents(run: TeamRun, step: TeamStep): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(componentId("retry", run.id, step.index))
+        .setLabel("재시도")
+        .setStyle(ButtonStyle.Primary),
+      new ButtonBuilder()
+        .setCustomId(componentId("skip", run.id, step.index))
+        .setLabel("건너뛰기")
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId(componentId("editretry", run.id, step.index))
+        .setLabel("수정 후 재시도")
+        .setStyle(ButtonStyle.Secondary),
+    );
+  }
+
+  /** Marks the run failed, cancels steps that never started and stops the ones in flight. */
+  private stopRemainingSteps(run: TeamRun): void {
+    run.status = "failed";
+    run.finishedAt = Date.now();
+    for (const step of run.steps) {
+      const state = run.stepStates[step.index]!;
+      if (state.status === "pending") {
+        state.status = "cancelled";
+      } else if (state.status === "running") {
+        this.queue.cancel(stepTaskKey(run, step));
+      }
     }
+    this.persist(run);
   }
 
-  private completeRun(run: TeamRun, thread: TextBasedChannel): void {
+  private completeRun(run: TeamRun, thread: TextBasedChannel, ctx: BotContext): void {
     run.status = "done";
+    run.finishedAt = Date.now();
+    this.persist(run);
     const totalElapsed = formatDuration(Date.now() - run.startedAt);
 
-    const sendToThread = (thread as { send?: (content: string) => Promise<unknown> }).send;
-    if (typeof sendToThread === "function") {
-      void sendToThread.call(
-        thread,
-        `**파이프라인 완료** (${run.steps.length} steps, 총 ${totalElapsed})`,
+    const artifactDir = teamArtifactDir(ctx.config.dataDir, run.id);
+    const files = collectArtifactAttachments(artifactDir, run.artifacts);
+    const summary = [`**파이프라인 완료** (${run.steps.length} steps, 총 ${totalElapsed})`];
+    if (run.artifacts.length > 0) {
+      summary.push(
+        `**아티팩트** (${run.artifacts.length}개${files.length < run.artifacts.length ? `, ${files.length}개 첨부` : ""})`,
+        formatManifest(run.artifacts),
       );
     }
+    const sendToThread = (thread as { send?: (options: unknown) => Promise<unknown> }).send;
+    if (typeof sendToThread === "function") {
+      sendToThread.call(thread, { content: summary.join("\n").slice(0, 2000), files }).catch((error: unknown) => {
+        console.warn(`[team] completion message failed run=${run.id}:`, error);
+        sendText(thread, summary[0]!);
+      });
+    }
 
     this.notifyOriginalChannel(
       run,
@@ -310,41 +909,50 @@ export class TeamManager {
       return false;
     }
 
-    const wasRunning = run.status === "running";
-    run.status = "failed";
-
-    // 실행 중이었으면 현재 step의 큐 작업도 취소
-    if (wasRunning) {
-      const step = run.steps[run.currentStep];
-      if (step) {
-        const taskKey = `team:${run.id}:step${step.index}`;
-        this.queue.cancel(taskKey);
-      }
-    }
-
+    // 실행 중인 step의 큐 작업도 취소
+    this.stopRemainingSteps(run);
+    this.closeReview(run, "플랜이 취소되었습니다.");
     return true;
   }
 
   // ── Helpers ─────────────────────────────────────────
 
-  private buildStepPrompt(run: TeamRun, step: TeamStep): string {
+  private buildStepPrompt(run: TeamRun, step: TeamStep, artifactDir: string): string {
     const parts: string[] = [];
 
-    // Previous handoff
-    if (step.index > 0 && run.handoffs[step.index - 1]) {
-      parts.push(
-        `<previous_handoff>\n${run.handoffs[step.index - 1]}\n</previous_handoff>`,
-      );
+    // Handoffs of every upstream step; a join step gets one block per branch
+    for (const dep of step.dependsOn) {
+      const handoff = run.handoffs[dep];
+      const upstream = run.steps[dep];
+      if (handoff && upstream) {
+        const format = parseStructuredHandoff(handoff) ? ' format="json"' : "";
+        parts.push(
+          `<previous_handoff step="${dep + 1}" label="${upstream.label.replace(/"/g, "'")}"${format}>\n${handoff}\n</previous_handoff>`,
+        );
+      }
     }
 
+    // Shared artifact directory; turn workspaces are deleted after each step
+    parts.push(
+      [
+        "[공유 아티팩트 디렉토리]",
+        `"${artifactDir}"`,
+        "이 파이프라인의 모든 step이 읽고 쓸 수 있는 디렉토리다. 다음 step에 넘길 파일은 반드시 여기에 저장하라 (턴 작업 폴더는 작업이 끝나면 삭제된다).",
+        `<artifacts>\n${formatManifest(run.artifacts)}\n</artifacts>`,
+      ].join("\n"),
+    );
+
     // Current task
     parts.push(`[현재 작업]\n${step.task}`);
 
     // Handoff instruction
-    const nextStep = run.steps[step.index + 1];
-    const nextInfo = nextStep
-      ? `다음 작업: "${nextStep.label}" (${nextStep.model}, ${nextStep.modeName} 모드)`
-      : "이것이 마지막 작업입니다. 최종 결과물을 정리하라.";
+    const nextSteps = run.steps.filter((candidate) => candidate.dependsOn.includes(step.index));
+    const nextInfo =
+      nextSteps.length > 0
+        ? nextSteps
+            .map((next) => `다음 작업: "${next.label}" (${next.model}, ${next.modeName} 모드)`)
+            .join("\n")
+        : "이것이 마지막 작업입니다. 최종 결과물을 정리하라.";
 
     parts.push(
       [
@@ -353,6 +961,8 @@ export class TeamManager {
         "1. 이번 작업의 핵심 결과물 (파일 경로, 결정사항 등)",
         "2. 다음 작업자가 반드시 알아야 할 컨텍스트",
         "3. 미해결 이슈나 주의사항",
+        `구조화된 인계가 필요하면 <handoff format="json"> 안에 다음 JSON Schema를 따르는 JSON만 넣어라 (artifacts는 공유 디렉토리 기준 상대 경로):`,
+        JSON.stringify(TEAM_HANDOFF_SCHEMA),
         nextInfo,
       ].join("\n"),
     );
@@ -360,23 +970,90 @@ export class TeamManager {
     return parts.join("\n\n");
   }
 
-  private buildPlanEmbed(run: TeamRun): EmbedBuilder {
+  buildPlanEmbed(run: TeamRun): EmbedBuilder {
+    const started = run.status !== "planning" && run.status !== "awaiting_approval";
+    const stages = computeStages(run.steps);
+    const stageCount = Math.max(0, ...stages) + 1;
+    const icon = (index: number): string =>
+      started ? `${STEP_STATUS_ICONS[run.stepStates[index]?.status ?? "pending"]} ` : "";
+
     const embed = new EmbedBuilder()
       .setTitle("Team Pipeline Plan")
-      .setDescription(run.originalPrompt)
-      .setColor(0x5865f2);
+      .setDescription(run.originalPrompt.slice(0, 4000))
+      .setColor(run.status === "failed" ? 0xed4245 : run.status === "done" ? 0x57f287 : 0x5865f2);
+
+    // Steps grouped by stage; steps in one stage have no edges between them and run in parallel.
+    const graph: string[] = [];
+    for (let stage = 0; stage < stageCount; stage++) {
+      const members = run.steps.filter((step) => stages[step.index] === stage);
+      const names = members.map((step) => `${icon(step.index)}${step.index + 1}. ${step.label}`);
+      graph.push(`**${stage + 1}단계**${members.length > 1 ? " (병렬)" : ""}: ${names.join(" ∥ ")}`);
+    }
+    embed.addFields({ name: "실행 그래프", value: graph.join("\n").slice(0, 1024) });
 
     for (const step of run.steps) {
+      const deps = step.dependsOn.length > 0 ? formatStepRefs(step.dependsOn) : "없음";
       embed.addFields({
-        name: `Step ${step.index + 1}: ${step.label}`,
-        value: `모델: \`${step.model}\`\n모드: \`${step.modeName}\`\n작업: ${step.task.slice(0, 950)}`,
+        name: `${icon(step.index)}Step ${step.index + 1}: ${step.label}`.slice(0, 256),
+        value: `엔진: \`${step.engine ?? "claude"}\`\n모델: \`${step.model || "기본값"}\`\n모드: \`${step.modeName}\`\n선행: ${deps}\n작업: ${step.task.slice(0, 900)}`,
       });
     }
 
-    embed.setFooter({ text: `총 ${run.steps.length} steps` });
+    const doneCount = run.stepStates.filter((state) => state.status === "done").length;
+    embed.setFooter({
+      text: started
+        ? `완료 ${doneCount}/${run.steps.length} steps · ${stageCount}단계`
+        : `총 ${run.steps.length} steps · ${stageCount}단계`,
+    });
     return embed;
   }
 
+  /** Saves the run and refreshes its plan embed. */
+  private persist(run: TeamRun): void {
+    this.store.save(run);
+    const message = this.planMessages.get(run.id);
+    if (!message) {
+      return;
+    }
+    message.edit({ embeds: [this.buildPlanEmbed(run)] }).catch((error: unknown) => {
+      console.warn(`[team] plan embed update failed run=${run.id}:`, error);
+    });
+  }
+
+  private async fetchThread(run: TeamRun): Promise<AnyThreadChannel | null> {
+    if (!run.threadId) {
+      return null;
+    }
+    try {
+      const channel = await this.client.channels.fetch(run.threadId);
+      return channel?.isThread() ? channel : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Finds the run's plan embed again after a restart, or posts a fresh one. */
+  private async attachPlanMessage(run: TeamRun, thread: AnyThreadChannel): Promise<void> {
+    if (this.planMessages.has(run.id)) {
+      return;
+    }
+    if (run.planMessageId) {
+      try {
+        this.planMessages.set(run.id, await thread.messages.fetch(run.planMessageId));
+        return;
+      } catch {
+        // Deleted or inaccessible; post a new one below.
+      }
+    }
+    try {
+      const message = await thread.send({ embeds: [this.buildPlanEmbed(run)] });
+      this.planMessages.set(run.id, message);
+      run.planMessageId = message.id;
+    } catch (error: unknown) {
+      console.warn(`[team] plan embed repost failed run=${run.id}:`, error);
+    }
+  }
+
   private parseSteps(text: string): TeamStep[] {
     // Try to extract JSON from the response
     let json: { steps?: unknown[] } | null = null;
@@ -400,21 +1077,40 @@ export class TeamManager {
       return [];
     }
 
-    return json.steps.map((raw, index) => {
-      const step = raw as {
-        label?: string;
-        model?: string;
-        modeName?: string;
-        task?: string;
-      };
+    const raws = json.steps.map(
+      (raw) =>
+        raw as {
+          id?: unknown;
+          label?: string;
+          engine?: unknown;
+          model?: string;
+          modeName?: string;
+          task?: string;
+          dependsOn?: unknown;
+        },
+    );
+    const ids = raws.map((step, index) =>
+      typeof step.id === "string" && step.id.trim() ? step.id.trim() : `s${index + 1}`,
+    );
+    // Plans without any dependsOn keep the old strictly sequential behavior.
+    const hasEdges = raws.some((step) => Array.isArray(step.dependsOn));
+
+    const steps: TeamStep[] = raws.map((step, index) => {
+      const model = typeof step.model === "string" ? step.model.trim() : "";
+      // A preset model implies its engine when the planner left the engine out.
+      const engine = isEngineType(step.engine) ? step.engine : engineForModelPreset(model);
       return {
         index,
         label: step.label || `Step ${index + 1}`,
-        model: step.model || "claude-sonnet-4-5-20250929",
+        model,
         modeName: step.modeName || "default",
         task: step.task || "",
+        dependsOn: hasEdges ? resolveDependsOn(step.dependsOn, ids, index) : index > 0 ? [index - 1] : [],
+        ...(engine && engine !== "claude" ? { engine } : {}),
       };
     });
+    computeStages(steps);
+    return steps;
   }
 
   private notifyOriginalChannel(run: TeamRun, message: string): void {
@@ -431,9 +1127,105 @@ export class TeamManager {
 
 // ── Utility ─────────────────────────────────────────────
 
-function extractHandoff(text: string): string | null {
-  const match = text.match(/<handoff>([\s\S]*?)<\/handoff>/);
-  return match ? match[1].trim() : null;
+function stepTaskKey(run: TeamRun, step: TeamStep): string {
+  return `team:${run.id}:step${step.index}`;
+}
+
+function sendText(channel: TextBasedChannel, content: string): void {
+  const send = (channel as { send?: (content: string) => Promise<unknown> }).send;
+  if (typeof send === "function") {
+    send.call(channel, content).catch((error: unknown) => {
+      console.warn("[team] thread message failed:", error);
+    });
+  }
+}
+
+/** Rejects a `/model` preset of one engine on a step that runs on another. */
+function assertModelFitsEngine(step: TeamStep): void {
+  const engine = step.engine ?? "claude";
+  const owner = engineForModelPreset(step.model);
+  if (owner && owner !== engine) {
+    throw new Error(`\`${step.model}\`은(는) ${owner} 모델이라 ${engine} 엔진에서 쓸 수 없습니다. 모델을 비우면 엔진 기본값을 씁니다.`);
+  }
+}
+
+/** Finished for dependency purposes: done, or skipped on purpose. */
+function isSettled(status: TeamStepStatus | undefined): boolean {
+  return status === "done" || status === "skipped";
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
+
+function formatStepRefs(indices: number[]): string {
+  return indices.map((index) => `Step ${index + 1}`).join(", ");
+}
+
+/** Maps planner `dependsOn` entries (step ids or 1-based step numbers) to step indices. */
+function resolveDependsOn(value: unknown, ids: string[], self: number): number[] {
+  const entries = Array.isArray(value) ? value : [];
+  const resolved: number[] = [];
+  for (const entry of entries) {
+    const index =
+      typeof entry === "number"
+        ? entry - 1
+        : typeof entry === "string"
+          ? ids.indexOf(entry.trim())
+          : -1;
+    if (index < 0 || index >= ids.length || index === self) {
+      console.warn(`[team] ignoring invalid dependsOn ${JSON.stringify(entry)} on step ${self + 1}`);
+      continue;
+    }
+    if (!resolved.includes(index)) {
+      resolved.push(index);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Stage of each step: 0 for steps without dependencies, otherwise one past its
+ * latest dependency. Throws when the dependencies form a cycle.
+ */
+export function computeStages(steps: TeamStep[]): number[] {
+  const stages: Array<number | undefined> = [];
+  const visiting = new Set<number>();
+
+  const visit = (index: number): number => {
+    const known = stages[index];
+    if (known !== undefined) {
+      return known;
+    }
+    if (visiting.has(index)) {
+      throw new Error(`step 의존 관계에 순환이 있습니다 (Step ${index + 1}).`);
+    }
+    visiting.add(index);
+    const deps = steps[index]?.dependsOn ?? [];
+    const stage = deps.length > 0 ? Math.max(...deps.map(visit)) + 1 : 0;
+    visiting.delete(index);
+    stages[index] = stage;
+    return stage;
+  };
+
+  return steps.map((step) => visit(step.index));
+}
+
+/**
+ * Pulls the `<handoff>` block out of a step reply. JSON bodies matching TEAM_HANDOFF_SCHEMA
+ * become structured handoffs; anything else is kept as free text.
+ */
+function extractHandoff(text: string): { text: string; structured: TeamHandoff | null } | null {
+  const match = text.match(/<handoff(\s+format=["']?json["']?)?\s*>([\s\S]*?)<\/handoff>/);
+  if (!match) {
+    return null;
+  }
+  const body = match[2]!.trim();
+  const structured = match[1] || body.startsWith("{") ? parseStructuredHandoff(body) : null;
+  if (match[1] && !structured) {
+    console.warn("[team] json handoff did not match the schema; keeping it as text");
+  }
+  return { text: structured ? JSON.stringify(structured, null, 2) : body, structured };
 }
 
 function formatDuration(ms: number): string {
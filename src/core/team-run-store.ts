@@ -0,0 +1,156 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { teamArtifactDir, type TeamArtifact } from "./team-artifacts.js";
+import type { TeamRun, TeamStep, TeamStepState } from "./team-manager.js";
+
+interface RunRow {
+  id: string;
+  channel_id: string;
+  thread_id: string | null;
+  user_id: string;
+  status: string;
+  original_prompt: string;
+  started_at: number;
+  finished_at: number | null;
+  plan_message_id: string | null;
+  steps_json: string;
+  step_states_json: string;
+  handoffs_json: string;
+  artifacts_json: string;
+}
+
+// Finished runs kept as pipeline history; older ones are pruned on save.
+const HISTORY_LIMIT = 200;
+
+/** Team pipeline runs (plan, per-step state, handoffs), stored next to the sessions table. */
+export class TeamRunStore {
+  private readonly db: Database.Database;
+  private readonly upsertStmt: Database.Statement;
+  private readonly getStmt: Database.Statement;
+  private readonly listStmt: Database.Statement;
+  private readonly unfinishedStmt: Database.Statement;
+  private readonly prunableStmt: Database.Statement;
+  private readonly deleteStmt: Database.Statement;
+
+  /** `dataDir` holds the runs' artifact directories, removed along with pruned rows. */
+  constructor(dbPath: string, private readonly dataDir: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 3000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS team_runs (
+        id TEXT PRIMARY KEY,
+        channel_id TEXT NOT NULL,
+        thread_id TEXT,
+        user_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        original_prompt TEXT NOT NULL,
+        started_at REAL NOT NULL,
+        finished_at REAL,
+        plan_message_id TEXT,
+        steps_json TEXT NOT NULL,
+        step_states_json TEXT NOT NULL,
+        handoffs_json TEXT NOT NULL,
+        artifacts_json TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_team_runs_started ON team_runs(started_at);
+    `);
+
+    this.upsertStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO team_runs (
+        id, channel_id, thread_id, user_id, status, original_prompt, started_at, finished_at,
+        plan_message_id, steps_json, step_states_json, handoffs_json, artifacts_json
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.getStmt = this.db.prepare("SELECT * FROM team_runs WHERE id = ?");
+    this.listStmt = this.db.prepare("SELECT * FROM team_runs ORDER BY started_at DESC LIMIT ?");
+    this.unfinishedStmt = this.db.prepare(
+      "SELECT * FROM team_runs WHERE status IN ('awaiting_approval', 'running') ORDER BY started_at",
+    );
+    this.deleteStmt = this.db.prepare("DELETE FROM team_runs WHERE id = ?");
+    this.prunableStmt = this.db.prepare(`
+      SELECT id FROM team_runs
+      WHERE status IN ('done', 'failed') AND started_at <= (
+        SELECT started_at FROM team_runs ORDER BY started_at DESC LIMIT 1 OFFSET ?
+      )
+    `);
+  }
+
+  save(run: TeamRun): void {
+    try {
+      this.upsertStmt.run(
+        run.id,
+        run.channelId,
+        run.threadId,
+        run.userId,
+        run.status,
+        run.originalPrompt,
+        run.startedAt,
+        run.finishedAt,
+        run.planMessageId,
+        JSON.stringify(run.steps),
+        JSON.stringify(run.stepStates),
+        JSON.stringify(run.handoffs),
+        JSON.stringify(run.artifacts),
+      );
+      this.prune();
+    } catch (error: unknown) {
+      // Persistence is best-effort; a failed write must not stop the pipeline.
+      console.warn(`[team] run write failed id=${run.id}:`, error);
+    }
+  }
+
+  get(id: string): TeamRun | null {
+    const row = this.getStmt.get(id) as RunRow | undefined;
+    return row ? toRun(row) : null;
+  }
+
+  /** Most recent runs first. */
+  list(limit = 10): TeamRun[] {
+    return (this.listStmt.all(limit) as RunRow[]).map(toRun);
+  }
+
+  /** Runs a previous process left awaiting approval or mid-pipeline, oldest first. */
+  listUnfinished(): TeamRun[] {
+    return (this.unfinishedStmt.all() as RunRow[]).map(toRun);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /** Drops finished runs beyond the history limit together with their artifact directories. */
+  private prune(): void {
+    const ids = (this.prunableStmt.all(HISTORY_LIMIT) as Array<{ id: string }>).map((row) => row.id);
+    for (const id of ids) {
+      this.deleteStmt.run(id);
+      try {
+        fs.rmSync(path.dirname(teamArtifactDir(this.dataDir, id)), { recursive: true, force: true });
+      } catch (error: unknown) {
+        console.warn(`[team] failed to remove artifacts of pruned run id=${id}:`, error);
+      }
+    }
+  }
+}
+
+function toRun(row: RunRow): TeamRun {
+  return {
+    id: row.id,
+    channelId: row.channel_id,
+    threadId: row.thread_id,
+    userId: row.user_id,
+    steps: JSON.parse(row.steps_json) as TeamStep[],
+    stepStates: JSON.parse(row.step_states_json) as TeamStepState[],
+    status: row.status as TeamRun["status"],
+    // Sparse handoff arrays (parallel steps finishing out of order) serialize holes as null.
+    handoffs: (JSON.parse(row.handoffs_json) as Array<string | null>).map((handoff) => handoff ?? ""),
+    artifacts: JSON.parse(row.artifacts_json) as TeamArtifact[],
+    originalPrompt: row.original_prompt,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    planMessageId: row.plan_message_id,
+  };
+}
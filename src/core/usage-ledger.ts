@@ -0,0 +1,250 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type { ModelPrice } from "../utils/config.js";
+import type { EngineType, UsageInfo } from "./llm-runner.js";
+import type { TaskLane } from "./queue-lanes.js";
+
+/** One finished run (including its internal retries) as recorded by QueueManager. */
+export interface UsageRecord {
+  taskKey: string;
+  lane: TaskLane;
+  userId: string;
+  channelId: string | null;
+  engine: EngineType;
+  /** Effective model; "" when the engine picked its own default. */
+  model: string;
+  success: boolean;
+  durationMs: number;
+  retryCount: number;
+  usage: UsageInfo | null;
+  costUsd: number | null;
+  createdAt: number;
+}
+
+export const USAGE_GROUPS = ["user", "channel", "model", "day", "lane", "engine"] as const;
+
+export type UsageGroupBy = (typeof USAGE_GROUPS)[number];
+
+export interface UsageQuery {
+  groupBy: UsageGroupBy;
+  /** Only runs at or after this epoch ms; null = all time. */
+  since: number | null;
+  /** Restrict to a single user's runs. */
+  userId?: string;
+  channelId?: string;
+  /** Restrict to task keys starting with this prefix (e.g. `schedule:nightly:`). */
+  taskKeyPrefix?: string;
+  limit?: number;
+}
+
+export interface UsageBreakdownRow {
+  key: string;
+  runs: number;
+  failures: number;
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  durationMs: number;
+  costUsd: number;
+  /** Runs whose model had no price entry, so costUsd undercounts. */
+  unpricedRuns: number;
+}
+
+interface BreakdownRow {
+  key: string | null;
+  runs: number;
+  failures: number | null;
+  retries: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cache_read_tokens: number | null;
+  cache_creation_tokens: number | null;
+  duration_ms: number | null;
+  cost_usd: number | null;
+  unpriced_runs: number | null;
+}
+
+const GROUP_COLUMNS: Record<UsageGroupBy, string> = {
+  user: "user_id",
+  channel: "COALESCE(channel_id, '(none)')",
+  model: "CASE WHEN model = '' THEN engine || ':(default)' ELSE model END",
+  day: "date(created_at / 1000, 'unixepoch', 'localtime')",
+  lane: "lane",
+  engine: "engine",
+};
+
+const AGGREGATES = `
+  COUNT(*) AS runs,
+  SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) AS failures,
+  SUM(retry_count) AS retries,
+  SUM(input_tokens) AS input_tokens,
+  SUM(output_tokens) AS output_tokens,
+  SUM(cache_read_tokens) AS cache_read_tokens,
+  SUM(cache_creation_tokens) AS cache_creation_tokens,
+  SUM(duration_ms) AS duration_ms,
+  SUM(COALESCE(cost_usd, 0)) AS cost_usd,
+  SUM(CASE WHEN cost_usd IS NULL THEN 1 ELSE 0 END) AS unpriced_runs
+`;
+
+/** Per-run token/cost ledger stored next to the sessions table. */
+export class UsageLedger {
+  private readonly db: Database.Database;
+  private readonly insertStmt: Database.Statement;
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 3000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS usage_ledger (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at REAL NOT NULL,
+        task_key TEXT NOT NULL,
+        lane TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        channel_id TEXT,
+        engine TEXT NOT NULL,
+        model TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        retry_count INTEGER NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cache_read_tokens INTEGER NOT NULL,
+        cache_creation_tokens INTEGER NOT NULL,
+        cost_usd REAL
+      );
+      CREATE INDEX IF NOT EXISTS idx_usage_ledger_created ON usage_ledger(created_at);
+      CREATE INDEX IF NOT EXISTS idx_usage_ledger_user ON usage_ledger(user_id, created_at);
+    `);
+
+    this.insertStmt = this.db.prepare(`
+      INSERT INTO usage_ledger (
+        created_at, task_key, lane, user_id, channel_id, engine, model, success, duration_ms,
+        retry_count, input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, cost_usd
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+  }
+
+  record(entry: UsageRecord): void {
+    try {
+      this.insertStmt.run(
+        entry.createdAt,
+        entry.taskKey,
+        entry.lane,
+        entry.userId,
+        entry.channelId,
+        entry.engine,
+        entry.model,
+        entry.success ? 1 : 0,
+        Math.round(entry.durationMs),
+        entry.retryCount,
+        entry.usage?.inputTokens ?? 0,
+        entry.usage?.outputTokens ?? 0,
+        entry.usage?.cacheReadInputTokens ?? 0,
+        entry.usage?.cacheCreationInputTokens ?? 0,
+        entry.costUsd,
+      );
+    } catch (error: unknown) {
+      // Accounting is best-effort; never fail a user's run because of it.
+      console.warn(`[usage] record failed key=${entry.taskKey}:`, error);
+    }
+  }
+
+  /** Aggregate runs by one dimension, most expensive (then busiest) first. */
+  breakdown(query: UsageQuery): UsageBreakdownRow[] {
+    const { where, params } = buildWhere(query);
+    const rows = this.db
+      .prepare(
+        `SELECT ${GROUP_COLUMNS[query.groupBy]} AS key, ${AGGREGATES}
+         FROM usage_ledger ${where}
+         GROUP BY key
+         ORDER BY ${query.groupBy === "day" ? "key DESC" : "cost_usd DESC, runs DESC"}
+         LIMIT ?`,
+      )
+      .all(...params, query.limit ?? 10) as BreakdownRow[];
+    return rows.map(toBreakdown);
+  }
+
+  totals(query: Omit<UsageQuery, "groupBy" | "limit">): UsageBreakdownRow {
+    const { where, params } = buildWhere(query);
+    const row = this.db
+      .prepare(`SELECT 'total' AS key, ${AGGREGATES} FROM usage_ledger ${where}`)
+      .get(...params) as BreakdownRow;
+    return toBreakdown(row);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/** Estimated USD cost of one run, or null when the model has no price entry. */
+export function estimateCost(
+  usage: UsageInfo | null,
+  model: string,
+  prices: Map<string, ModelPrice>,
+): number | null {
+  const price = prices.get(model) ?? prices.get("*");
+  if (!price) {
+    return null;
+  }
+  if (!usage) {
+    return 0;
+  }
+
+  const perToken = 1 / 1_000_000;
+  return (
+    usage.inputTokens * price.input * perToken +
+    usage.outputTokens * price.output * perToken +
+    usage.cacheReadInputTokens * price.cacheRead * perToken +
+    usage.cacheCreationInputTokens * price.cacheWrite * perToken
+  );
+}
+
+function buildWhere(query: Omit<UsageQuery, "groupBy" | "limit">): {
+  where: string;
+  params: Array<string | number>;
+} {
+  const clauses: string[] = [];
+  const params: Array<string | number> = [];
+  if (query.since !== null) {
+    clauses.push("created_at >= ?");
+    params.push(query.since);
+  }
+  if (query.userId) {
+    clauses.push("user_id = ?");
+    params.push(query.userId);
+  }
+  if (query.channelId) {
+    clauses.push("channel_id = ?");
+    params.push(query.channelId);
+  }
+  if (query.taskKeyPrefix) {
+    clauses.push("substr(task_key, 1, ?) = ?");
+    params.push(query.taskKeyPrefix.length, query.taskKeyPrefix);
+  }
+  return { where: clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "", params };
+}
+
+function toBreakdown(row: BreakdownRow): UsageBreakdownRow {
+  return {
+    key: row.key ?? "(unknown)",
+    runs: row.runs,
+    failures: row.failures ?? 0,
+    retries: row.retries ?? 0,
+    inputTokens: row.input_tokens ?? 0,
+    outputTokens: row.output_tokens ?? 0,
+    cacheReadTokens: row.cache_read_tokens ?? 0,
+    cacheCreationTokens: row.cache_creation_tokens ?? 0,
+    durationMs: row.duration_ms ?? 0,
+    costUsd: row.cost_usd ?? 0,
+    unpricedRuns: row.unpriced_runs ?? 0,
+  };
+}
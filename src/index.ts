@@ -9,9 +9,13 @@ import {
   type TextBasedChannel,
 } from "discord.js";
 import { createClient, createContext, type BotContext } from "./bot.js";
-import { commands, registerCommands } from "./commands/index.js";
+import { findCommand, registerCommands } from "./commands/index.js";
+import { handleScheduleModal } from "./commands/schedule.js";
+import { handleApprovalButton, handleTaskButton } from "./commands/task-buttons.js";
+import { handleTeamComponent, handleTeamModal } from "./commands/team.js";
 import { resolveContextIdFromMessage } from "./core/context-id.js";
-import type { DiscordAttachmentInfo } from "./core/queue-manager.js";
+import type { JournalEntry } from "./core/queue-journal.js";
+import type { DiscordAttachmentInfo, RespondTarget } from "./core/queue-manager.js";
 import { isApprovalMessage } from "./core/team-manager.js";
 import { checkAccess } from "./utils/access-control.js";
 import { formatQueueStatus } from "./utils/formatter.js";
@@ -31,14 +35,55 @@ async function main(): Promise<void> {
   });
 
   client.on("interactionCreate", async (interaction) => {
+    if (interaction.isButton()) {
+      try {
+        const handled =
+          (await handleApprovalButton(interaction, ctx)) ||
+          (await handleTeamComponent(interaction, ctx));
+        if (!handled) {
+          await handleTaskButton(interaction, ctx);
+        }
+      } catch (error: unknown) {
+        console.error("[button] handler failed:", error);
+      }
+      return;
+    }
+
+    if (interaction.isStringSelectMenu()) {
+      try {
+        await handleTeamComponent(interaction, ctx);
+      } catch (error: unknown) {
+        console.error("[select] handler failed:", error);
+      }
+      return;
+    }
+
+    if (interaction.isModalSubmit()) {
+      try {
+        const handled = await handleScheduleModal(interaction, ctx);
+        if (!handled) {
+          await handleTeamModal(interaction, ctx);
+        }
+      } catch (error: unknown) {
+        console.error("[modal] handler failed:", error);
+      }
+      return;
+    }
+
+    if (interaction.isAutocomplete()) {
+      try {
+        await findCommand(interaction.commandName)?.autocomplete?.(interaction, ctx);
+      } catch (error: unknown) {
+        console.error("[autocomplete] handler failed:", error);
+      }
+      return;
+    }
+
     if (!interaction.isChatInputCommand()) {
       return;
     }
 
-    const command = commands.find((entry) => {
-      const data = Array.isArray(entry.data) ? entry.data : [entry.data];
-      return data.some((item) => item.name === interaction.commandName);
-    });
+    const command = findCommand(interaction.commandName);
 
     if (!command) {
       return;
@@ -211,6 +256,30 @@ async function main(): Promise<void> {
         return;
       }
 
+      if (ctx.config.followUpBufferEnabled && ctx.queue.hasTask(taskKey)) {
+        const followUp = ctx.queue.appendFollowUp(taskKey, {
+          prompt: effectivePrompt,
+          attachments: attachments.length > 0 ? attachments : undefined,
+          respondTo: { type: "message", message },
+        });
+        if (followUp.accepted) {
+          await safeReply(
+            message,
+            followUp.reason === "merged"
+              ? "⏳ 아직 실행 전인 요청에 이어 붙였습니다."
+              : `➕ 현재 응답이 끝나면 이어서 전달합니다 (추가 메시지 ${followUp.count}개).`,
+          );
+          return;
+        }
+        if (followUp.reason === "buffer_full") {
+          await safeReply(
+            message,
+            `추가 메시지는 최대 ${ctx.config.followUpBufferMax}개까지 모을 수 있습니다. 이전 응답이 끝난 뒤 다시 보내주세요.`,
+          );
+          return;
+        }
+      }
+
       const enqueueResult = ctx.queue.enqueue({
         prompt: effectivePrompt,
         sessionId,
@@ -231,6 +300,10 @@ async function main(): Promise<void> {
           );
           return;
         }
+        if (enqueueResult.reason === "budget_exceeded") {
+          await safeReply(message, enqueueResult.message || "사용 예산을 초과했습니다.");
+          return;
+        }
 
         console.log(`[message] queue_full key=${taskKey}`);
         await safeReply(
@@ -255,6 +328,7 @@ async function main(): Promise<void> {
     ctx.schedules.start();
     ctx.heartbeat.start();
     ctx.ptyRelay.start();
+    ctx.approvals.start();
 
     const cleaned = ctx.sessions.cleanupOldSessions();
     if (cleaned > 0) {
@@ -266,7 +340,9 @@ async function main(): Promise<void> {
       console.log(`Cleaned up ${cleanedSummaries} old session summaries`);
     }
 
+    await resumeJournaledTasks(ctx, readyClient);
     await resumePendingRestartTask(ctx, readyClient);
+    await ctx.team.restoreRuns(ctx);
   });
 
   let shuttingDown = false;
@@ -279,8 +355,12 @@ async function main(): Promise<void> {
 
     try {
       ctx.ptyRelay.stop();
-      ctx.heartbeat.stop();
-      ctx.schedules.stop();
+      ctx.approvals.stop();
+      ctx.heartbeat.close();
+      ctx.schedules.close();
+      ctx.team.close();
+      ctx.queue.close();
+      ctx.usageLedger?.close();
       ctx.sessions.close();
       ctx.personas.close();
     } catch (error: unknown) {
@@ -375,6 +455,141 @@ async function resumePendingRestartTask(ctx: BotContext, client: Client): Promis
   );
 }
 
+async function resumeJournaledTasks(ctx: BotContext, client: Client): Promise<void> {
+  const entries = ctx.queue.takeJournaledTasks();
+  if (entries.length === 0) {
+    return;
+  }
+
+  console.log(`[queue-journal] restoring ${entries.length} journaled task(s)`);
+  const maxAgeMs = ctx.config.queueJournalMaxAgeMinutes * 60_000;
+
+  for (const entry of entries) {
+    const target = await restoreRespondTarget(client, entry);
+    if (!target) {
+      console.warn(
+        `[queue-journal] dropped key=${entry.taskKey}: channel ${entry.channelId} unavailable`,
+      );
+      continue;
+    }
+
+    const isStale = Date.now() - entry.createdAt > maxAgeMs;
+    const wasInterrupted = entry.status === "running";
+    if (isStale || (wasInterrupted && !ctx.config.queueResumeInterrupted)) {
+      const reason = wasInterrupted
+        ? "봇 재시작으로 실행 중이던 요청이 중단되었습니다."
+        : "봇 재시작 전에 대기 중이던 요청이 만료되었습니다.";
+      await notifyRestoredTarget(
+        target,
+        `⚠️ ${reason} 필요하면 다시 보내주세요.\n> ${previewPrompt(entry.prompt)}`,
+      );
+      console.log(
+        `[queue-journal] reported key=${entry.taskKey} status=${entry.status} stale=${isStale}`,
+      );
+      continue;
+    }
+
+    const enqueue = ctx.queue.enqueue({
+      prompt: entry.prompt,
+      sessionId: entry.sessionId,
+      sessionUserId: entry.sessionUserId,
+      mechoModeId: entry.mechoModeId || undefined,
+      model: entry.model,
+      taskKey: entry.taskKey,
+      respondTo: target,
+      createdAt: entry.createdAt,
+      engine: ctx.runners.has(entry.engine) ? entry.engine : "claude",
+      attachments: entry.attachments.length > 0 ? entry.attachments : undefined,
+      modeName: entry.modeName || undefined,
+      rotateFromSessionId: entry.rotateFromSessionId,
+    });
+
+    if (!enqueue.accepted) {
+      await notifyRestoredTarget(
+        target,
+        `재시작 후 요청 복구 실패: ${enqueue.message ?? enqueue.reason}\n> ${previewPrompt(entry.prompt)}`,
+      );
+      console.error(
+        `[queue-journal] failed to re-enqueue key=${entry.taskKey} reason=${enqueue.reason}`,
+      );
+      continue;
+    }
+
+    console.log(
+      `[queue-journal] re-enqueued key=${entry.taskKey} status=${entry.status} position=${enqueue.position}`,
+    );
+  }
+}
+
+async function restoreRespondTarget(
+  client: Client,
+  entry: JournalEntry,
+): Promise<RespondTarget | null> {
+  let fetchedChannel: unknown;
+  try {
+    fetchedChannel = await client.channels.fetch(entry.channelId);
+  } catch (error: unknown) {
+    console.error(`[queue-journal] failed to fetch channel ${entry.channelId}:`, error);
+    return null;
+  }
+  if (!fetchedChannel) {
+    return null;
+  }
+
+  const channel = fetchedChannel as TextBasedChannel;
+  if (typeof (channel as { send?: unknown }).send !== "function") {
+    return null;
+  }
+
+  // Interaction tokens expire, so slash-command tasks fall back to a plain channel target.
+  if (entry.respondType === "message" && entry.messageId) {
+    try {
+      const channelWithMessages = channel as unknown as {
+        messages?: { fetch?: (id: string) => Promise<unknown> };
+      };
+      const fetch = channelWithMessages.messages?.fetch;
+      if (typeof fetch === "function") {
+        const message = (await fetch.call(
+          channelWithMessages.messages,
+          entry.messageId,
+        )) as Message | null;
+        if (message) {
+          return { type: "message", message };
+        }
+      }
+    } catch {
+      // Original message was deleted; reply in the channel instead.
+    }
+  }
+
+  return { type: "channel", channel };
+}
+
+async function notifyRestoredTarget(target: RespondTarget, content: string): Promise<void> {
+  if (target.type === "message") {
+    await safeReply(target.message, content);
+    return;
+  }
+  if (target.type !== "channel") {
+    return;
+  }
+
+  const send = (target.channel as unknown as { send?: (value: unknown) => Promise<unknown> }).send;
+  if (typeof send !== "function") {
+    return;
+  }
+  try {
+    await send.call(target.channel, content.slice(0, 1990));
+  } catch (error: unknown) {
+    console.error("[queue-journal] failed to send restore notice:", error);
+  }
+}
+
+function previewPrompt(prompt: string): string {
+  const compact = prompt.replace(/\s+/g, " ").trim();
+  return compact.length > 200 ? `${compact.slice(0, 200)}…` : compact;
+}
+
 function acquireSingleInstanceLock(lockPath: string): () => void {
   fs.mkdirSync(path.dirname(lockPath), { recursive: true });
   const payload = JSON.stringify({
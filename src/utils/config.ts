@@ -1,6 +1,33 @@
 import "dotenv/config";
 import fs from "node:fs";
 import path from "node:path";
+import { isEngineType, type EngineType } from "../core/llm-runner.js";
+import { DEFAULT_TIME_ZONE, normalizeTimeZone } from "./time-zone.js";
+
+/** USD per 1M tokens. Cache rates default to Anthropic's 0.1x read / 1.25x write of input. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+export type BudgetScope = "user" | "channel" | "schedule" | "owner";
+
+/** One `BUDGETS` entry, e.g. `user:*=daily:$5` or `schedule:nightly=monthly:2M`. */
+export interface BudgetRule {
+  scope: BudgetScope;
+  /** Discord id / schedule key, or `*` for "each one separately". Empty for `owner`. */
+  target: string;
+  period: "daily" | "monthly";
+  unit: "usd" | "tokens";
+  limit: number;
+}
+
+/** What a heartbeat does when its slot lands while the queue is running other work. */
+export const HEARTBEAT_BUSY_POLICIES = ["skip", "retry", "queue"] as const;
+
+export type HeartbeatBusyPolicy = (typeof HEARTBEAT_BUSY_POLICIES)[number];
 
 export interface Config {
   discordToken: string;
@@ -15,6 +42,11 @@ export interface Config {
   claudeDangerouslySkipPermissions: boolean;
   claudePermissionMode: string | null;
   claudeAddDirs: string[];
+  toolApprovalEnabled: boolean;
+  toolApprovalPort: number;
+  toolApprovalTimeoutSec: number;
+  toolApprovalTimeoutDecision: "allow" | "deny";
+  toolApprovalTools: string[];
   dataDir: string;
   personasDir: string;
   dbPath: string;
@@ -22,6 +54,20 @@ export interface Config {
   requireMention: boolean;
   maxQueueSize: number;
   maxConcurrentRuns: number;
+  claudeMaxConcurrentRuns: number | null;
+  codexMaxConcurrentRuns: number | null;
+  openaiCompatMaxConcurrentRuns: number | null;
+  modelConcurrencyLimits: Map<string, number>;
+  followUpBufferEnabled: boolean;
+  followUpBufferMax: number;
+  queueJournalEnabled: boolean;
+  queueResumeInterrupted: boolean;
+  queueJournalMaxAgeMinutes: number;
+  usageLedgerEnabled: boolean;
+  modelPrices: Map<string, ModelPrice>;
+  budgets: BudgetRule[];
+  budgetDowngradeThreshold: number;
+  modelFallbackChains: string[][];
   claudeOutputDir: string;
   claudeInputDir: string;
   codexEnabled: boolean;
@@ -29,11 +75,26 @@ export interface Config {
   codexTimeout: number;
   codexModel: string;
   codexEnableSearch: boolean;
+  openaiCompatEnabled: boolean;
+  openaiCompatBaseUrl: string;
+  openaiCompatApiKey: string;
+  openaiCompatModel: string;
+  openaiCompatTimeout: number;
+  openaiCompatContextWindow: number | null;
+  fakeRunnerFixture: string | null;
+  scheduleTimezone: string;
+  scheduleFailureAlertThreshold: number | null;
   heartbeatEnabled: boolean;
   heartbeatChannelId: string;
   heartbeatIntervalMinutes: number;
   heartbeatActiveHoursStart: number;
   heartbeatActiveHoursEnd: number;
+  heartbeatDedupWindowHours: number;
+  heartbeatBusyPolicy: HeartbeatBusyPolicy;
+  heartbeatBusyRetryMinutes: number;
+  heartbeatBusyGraceMinutes: number;
+  teamPlannerEngine: EngineType;
+  teamPlannerModel: string;
   skillsDir: string;
   logLevel: string;
   enableLiveUpdates: boolean;
@@ -96,6 +157,17 @@ export function loadConfig(): Config {
     ),
     claudePermissionMode: parseOptionalString(process.env.CLAUDE_PERMISSION_MODE),
     claudeAddDirs: parseStringList(process.env.CLAUDE_ADD_DIRS),
+    toolApprovalEnabled: parseBoolean(process.env.TOOL_APPROVAL_ENABLED, false),
+    toolApprovalPort: parsePositiveInt(process.env.TOOL_APPROVAL_PORT, 7682),
+    toolApprovalTimeoutSec: parsePositiveInt(process.env.TOOL_APPROVAL_TIMEOUT_SEC, 120),
+    toolApprovalTimeoutDecision:
+      process.env.TOOL_APPROVAL_TIMEOUT_DECISION?.trim().toLowerCase() === "allow"
+        ? "allow"
+        : "deny",
+    toolApprovalTools:
+      process.env.TOOL_APPROVAL_TOOLS === undefined
+        ? ["Bash"]
+        : parseStringList(process.env.TOOL_APPROVAL_TOOLS),
     dataDir,
     personasDir: process.env.PERSONAS_DIR || path.join(dataDir, "personas"),
     dbPath: process.env.DB_PATH || path.join(dataDir, "sessions.db"),
@@ -103,6 +175,24 @@ export function loadConfig(): Config {
     requireMention: parseBoolean(process.env.REQUIRE_MENTION, true),
     maxQueueSize: parsePositiveInt(process.env.MAX_QUEUE_SIZE, 10),
     maxConcurrentRuns: parsePositiveInt(process.env.MAX_CONCURRENT_RUNS, 1),
+    claudeMaxConcurrentRuns: parseOptionalPositiveInt(process.env.CLAUDE_MAX_CONCURRENT_RUNS),
+    codexMaxConcurrentRuns: parseOptionalPositiveInt(process.env.CODEX_MAX_CONCURRENT_RUNS),
+    openaiCompatMaxConcurrentRuns: parseOptionalPositiveInt(
+      process.env.OPENAI_COMPAT_MAX_CONCURRENT_RUNS,
+    ),
+    modelConcurrencyLimits: parseLimitMap(process.env.MODEL_CONCURRENCY_LIMITS),
+    followUpBufferEnabled: parseBoolean(process.env.FOLLOW_UP_BUFFER_ENABLED, true),
+    followUpBufferMax: parsePositiveInt(process.env.FOLLOW_UP_BUFFER_MAX, 5),
+    queueJournalEnabled: parseBoolean(process.env.QUEUE_JOURNAL_ENABLED, true),
+    queueResumeInterrupted: parseBoolean(process.env.QUEUE_RESUME_INTERRUPTED, false),
+    queueJournalMaxAgeMinutes: parsePositiveInt(process.env.QUEUE_JOURNAL_MAX_AGE_MINUTES, 60),
+    usageLedgerEnabled: parseBoolean(process.env.USAGE_LEDGER_ENABLED, true),
+    modelPrices: parseModelPrices(process.env.MODEL_PRICES),
+    budgets: parseBudgets(process.env.BUDGETS),
+    budgetDowngradeThreshold: parseFloatClamped(process.env.BUDGET_DOWNGRADE_THRESHOLD, 0.8, 0.1, 1),
+    modelFallbackChains: parseStringList(process.env.MODEL_FALLBACK_CHAINS)
+      .map((chain) => chain.split(">").map((model) => model.trim()).filter(Boolean))
+      .filter((chain) => chain.length > 1),
     claudeOutputDir:
       process.env.CLAUDE_OUTPUT_DIR || path.join(attachmentRootDir, "output"),
     claudeInputDir:
@@ -112,11 +202,31 @@ export function loadConfig(): Config {
     codexTimeout: parsePositiveInt(process.env.CODEX_TIMEOUT, 120) * 1000,
     codexModel: process.env.CODEX_MODEL || "",
     codexEnableSearch: parseBoolean(process.env.CODEX_ENABLE_SEARCH, false),
+    openaiCompatEnabled: parseBoolean(process.env.OPENAI_COMPAT_ENABLED, false),
+    openaiCompatBaseUrl: (
+      process.env.OPENAI_COMPAT_BASE_URL
+      || "http://127.0.0.1:8080/v1"
+    ).trim().replace(/\/+$/, ""),
+    openaiCompatApiKey: (process.env.OPENAI_COMPAT_API_KEY || "").trim(),
+    openaiCompatModel: (process.env.OPENAI_COMPAT_MODEL || "").trim(),
+    openaiCompatTimeout: parsePositiveInt(process.env.OPENAI_COMPAT_TIMEOUT, 300) * 1000,
+    openaiCompatContextWindow: parseOptionalPositiveInt(process.env.OPENAI_COMPAT_CONTEXT_WINDOW),
+    fakeRunnerFixture: parseOptionalString(process.env.FAKE_RUNNER_FIXTURE),
+    scheduleTimezone: parseTimeZone(process.env.SCHEDULE_TIMEZONE),
+    scheduleFailureAlertThreshold: parseOptionalPositiveInt(
+      process.env.SCHEDULE_FAILURE_ALERT_THRESHOLD,
+    ),
     heartbeatEnabled: parseBoolean(process.env.HEARTBEAT_ENABLED, false),
     heartbeatChannelId: process.env.HEARTBEAT_CHANNEL_ID || "",
     heartbeatIntervalMinutes: parsePositiveInt(process.env.HEARTBEAT_INTERVAL_MINUTES, 30),
     heartbeatActiveHoursStart: parsePositiveInt(process.env.HEARTBEAT_ACTIVE_HOURS_START, 0),
     heartbeatActiveHoursEnd: parsePositiveInt(process.env.HEARTBEAT_ACTIVE_HOURS_END, 24),
+    heartbeatDedupWindowHours: parseFloatClamped(process.env.HEARTBEAT_DEDUP_WINDOW_HOURS, 24, 0, 720),
+    heartbeatBusyPolicy: parseHeartbeatBusyPolicy(process.env.HEARTBEAT_BUSY_POLICY),
+    heartbeatBusyRetryMinutes: parsePositiveInt(process.env.HEARTBEAT_BUSY_RETRY_MINUTES, 5),
+    heartbeatBusyGraceMinutes: parsePositiveInt(process.env.HEARTBEAT_BUSY_GRACE_MINUTES, 30),
+    teamPlannerEngine: parseTeamPlannerEngine(process.env.TEAM_PLANNER_ENGINE),
+    teamPlannerModel: (process.env.TEAM_PLANNER_MODEL || "").trim(),
     skillsDir: process.env.SKILLS_DIR || path.join(process.cwd(), "skills"),
     logLevel: process.env.LOG_LEVEL || "info",
     enableLiveUpdates: parseBoolean(process.env.ENABLE_LIVE_UPDATES, true),
@@ -320,6 +430,136 @@ function parseOptionalMaxTurns(value: string | undefined): number | null {
   return parsed;
 }
 
+function parseOptionalPositiveInt(value: string | undefined): number | null {
+  if (!value || !value.trim()) {
+    return null;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  if (Number.isNaN(parsed) || parsed <= 0) {
+    return null;
+  }
+
+  return parsed;
+}
+
+/** Parse `key=limit` pairs (e.g. `claude-opus-4-6=1,gpt-5=2`); invalid pairs are skipped. */
+function parseLimitMap(value: string | undefined): Map<string, number> {
+  const limits = new Map<string, number>();
+  for (const item of parseStringList(value)) {
+    const separator = item.lastIndexOf("=");
+    if (separator <= 0) {
+      continue;
+    }
+    const key = item.slice(0, separator).trim();
+    const limit = parseOptionalPositiveInt(item.slice(separator + 1));
+    if (key && limit !== null) {
+      limits.set(key, limit);
+    }
+  }
+  return limits;
+}
+
+/** `model=input/output[/cacheRead/cacheWrite]` entries, USD per 1M tokens. `*` is the fallback. */
+function parseModelPrices(value: string | undefined): Map<string, ModelPrice> {
+  const prices = new Map<string, ModelPrice>();
+  for (const item of parseStringList(value)) {
+    const separator = item.lastIndexOf("=");
+    if (separator <= 0) {
+      continue;
+    }
+    const key = item.slice(0, separator).trim();
+    const rates = item
+      .slice(separator + 1)
+      .split("/")
+      .map((part) => Number.parseFloat(part.trim()));
+    const [input, output, cacheRead, cacheWrite] = rates;
+    if (
+      !key ||
+      input === undefined ||
+      output === undefined ||
+      rates.some((rate) => !Number.isFinite(rate) || rate < 0)
+    ) {
+      continue;
+    }
+    prices.set(key, {
+      input,
+      output,
+      cacheRead: cacheRead ?? input * 0.1,
+      cacheWrite: cacheWrite ?? input * 1.25,
+    });
+  }
+  return prices;
+}
+
+function parseBudgets(value: string | undefined): BudgetRule[] {
+  const rules: BudgetRule[] = [];
+  for (const item of parseStringList(value)) {
+    const match = item.match(
+      /^(user|channel|schedule|owner)(?::([^=]+))?=(daily|monthly):(\$?)([\d.]+)(k|m|usd)?$/i,
+    );
+    if (!match) {
+      console.warn(`[config] ignoring invalid BUDGETS entry: ${item}`);
+      continue;
+    }
+    const scope = match[1]!.toLowerCase() as BudgetScope;
+    const target = scope === "owner" ? "" : (match[2] || "*").trim();
+    const suffix = (match[6] || "").toLowerCase();
+    const isUsd = match[4] === "$" || suffix === "usd";
+    const amount = Number.parseFloat(match[5]!);
+    const multiplier = suffix === "k" ? 1_000 : suffix === "m" ? 1_000_000 : 1;
+    if (!Number.isFinite(amount) || amount <= 0 || (isUsd && multiplier !== 1)) {
+      console.warn(`[config] ignoring invalid BUDGETS entry: ${item}`);
+      continue;
+    }
+    rules.push({
+      scope,
+      target,
+      period: match[3]!.toLowerCase() as BudgetRule["period"],
+      unit: isUsd ? "usd" : "tokens",
+      limit: isUsd ? amount : amount * multiplier,
+    });
+  }
+  return rules;
+}
+
+function parseTimeZone(value: string | undefined): string {
+  if (!value || !value.trim()) {
+    return DEFAULT_TIME_ZONE;
+  }
+  const timeZone = normalizeTimeZone(value);
+  if (!timeZone) {
+    console.warn(`[config] unknown SCHEDULE_TIMEZONE "${value}", using ${DEFAULT_TIME_ZONE}`);
+    return DEFAULT_TIME_ZONE;
+  }
+  return timeZone;
+}
+
+function parseHeartbeatBusyPolicy(value: string | undefined): HeartbeatBusyPolicy {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) {
+    return "retry";
+  }
+  const policy = HEARTBEAT_BUSY_POLICIES.find((entry) => entry === normalized);
+  if (!policy) {
+    console.warn(`[config] invalid HEARTBEAT_BUSY_POLICY "${value}", using retry`);
+    return "retry";
+  }
+  return policy;
+}
+
+function parseTeamPlannerEngine(value: string | undefined): EngineType {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) {
+    return "claude";
+  }
+  if (!isEngineType(normalized)) {
+    console.warn(`[config] invalid TEAM_PLANNER_ENGINE "${value}", using claude`);
+    return "claude";
+  }
+  return normalized;
+}
+
 function parseOptionalString(value: string | undefined): string | null {
   if (!value || !value.trim()) {
     return null;
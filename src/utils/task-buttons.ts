@@ -0,0 +1,114 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from "discord.js";
+
+const CUSTOM_ID_PREFIX = "task";
+// Discord rejects custom IDs longer than 100 characters.
+const MAX_CUSTOM_ID_LENGTH = 100;
+const USER_CHAT_TASK_KEY_PATTERN = /^(\d+):((?:dm|th|ch)_\d+)$/;
+
+export type TaskButtonAction =
+  | "stop"
+  | "verbose"
+  | "retry"
+  | "continue"
+  | "new"
+  | "engine";
+
+const TASK_BUTTON_ACTIONS: readonly TaskButtonAction[] = [
+  "stop",
+  "verbose",
+  "retry",
+  "continue",
+  "new",
+  "engine",
+];
+
+export interface TaskButtonTarget {
+  action: TaskButtonAction;
+  taskKey: string;
+  userId: string;
+  contextId: string;
+}
+
+/** Buttons only make sense for user conversations (`userId:contextId`), not schedules/heartbeats/team steps. */
+export function isUserChatTaskKey(taskKey: string): boolean {
+  return USER_CHAT_TASK_KEY_PATTERN.test(taskKey);
+}
+
+export function buildTaskButtonId(action: TaskButtonAction, taskKey: string): string {
+  return `${CUSTOM_ID_PREFIX}:${action}:${taskKey}`;
+}
+
+export function parseTaskButtonId(customId: string): TaskButtonTarget | null {
+  const prefix = `${CUSTOM_ID_PREFIX}:`;
+  if (!customId.startsWith(prefix)) {
+    return null;
+  }
+
+  const rest = customId.slice(prefix.length);
+  const separator = rest.indexOf(":");
+  if (separator <= 0) {
+    return null;
+  }
+
+  const action = rest.slice(0, separator) as TaskButtonAction;
+  const taskKey = rest.slice(separator + 1);
+  const match = USER_CHAT_TASK_KEY_PATTERN.exec(taskKey);
+  if (!TASK_BUTTON_ACTIONS.includes(action) || !match) {
+    return null;
+  }
+
+  return { action, taskKey, userId: match[1]!, contextId: match[2]! };
+}
+
+export function buildLiveButtons(taskKey: string): ActionRowBuilder<ButtonBuilder>[] {
+  if (!canEncode(taskKey)) {
+    return [];
+  }
+
+  return [
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(buildTaskButtonId("stop", taskKey))
+        .setLabel("중단")
+        .setStyle(ButtonStyle.Danger),
+      new ButtonBuilder()
+        .setCustomId(buildTaskButtonId("verbose", taskKey))
+        .setLabel("진행 표시 전환")
+        .setStyle(ButtonStyle.Secondary),
+    ),
+  ];
+}
+
+export function buildFinalButtons(taskKey: string): ActionRowBuilder<ButtonBuilder>[] {
+  if (!canEncode(taskKey)) {
+    return [];
+  }
+
+  return [
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(buildTaskButtonId("retry", taskKey))
+        .setLabel("다시 시도")
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId(buildTaskButtonId("continue", taskKey))
+        .setLabel("계속")
+        .setStyle(ButtonStyle.Primary),
+      new ButtonBuilder()
+        .setCustomId(buildTaskButtonId("new", taskKey))
+        .setLabel("새 세션")
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId(buildTaskButtonId("engine", taskKey))
+        .setLabel("엔진 전환")
+        .setStyle(ButtonStyle.Secondary),
+    ),
+  ];
+}
+
+function canEncode(taskKey: string): boolean {
+  return (
+    isUserChatTaskKey(taskKey) &&
+    buildTaskButtonId("continue", taskKey).length <= MAX_CUSTOM_ID_LENGTH
+  );
+}
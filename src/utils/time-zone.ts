@@ -0,0 +1,100 @@
+export const DEFAULT_TIME_ZONE = "Asia/Seoul";
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Canonical IANA name (e.g. `asia/seoul` → `Asia/Seoul`), or null when the zone is unknown. */
+export function normalizeTimeZone(value: string): string | null {
+  const clean = value.trim();
+  if (!clean) {
+    return null;
+  }
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: clean }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wall-clock time of `epochMs` in `timeZone`, encoded as if that wall clock were UTC.
+ * Read it back with the `getUTC*` accessors; seconds are dropped.
+ */
+export function toWallClockMs(epochMs: number, timeZone: string): number {
+  const parts = new Map<string, number>();
+  for (const part of getFormatter(timeZone).formatToParts(new Date(epochMs))) {
+    if (part.type !== "literal") {
+      parts.set(part.type, Number.parseInt(part.value, 10));
+    }
+  }
+
+  const year = parts.get("year");
+  const month = parts.get("month");
+  const day = parts.get("day");
+  const hour = parts.get("hour");
+  const minute = parts.get("minute");
+  if (
+    year === undefined ||
+    month === undefined ||
+    day === undefined ||
+    hour === undefined ||
+    minute === undefined ||
+    [year, month, day, hour, minute].some((value) => !Number.isFinite(value))
+  ) {
+    throw new Error(`failed to read wall clock in timezone ${timeZone}`);
+  }
+  return Date.UTC(year, month - 1, day, hour % 24, minute);
+}
+
+/**
+ * First instant whose wall clock in `timeZone` is `wallMs`. When the wall time falls in a
+ * DST overlap the earlier pass wins; when it falls in a DST gap the end of the gap is returned.
+ */
+export function wallClockToEpoch(wallMs: number, timeZone: string): number {
+  const offsetBefore = wallMs - toWallClockMs(wallMs - DAY_MS, timeZone) - DAY_MS;
+  const offsetAfter = wallMs - toWallClockMs(wallMs + DAY_MS, timeZone) + DAY_MS;
+  const candidates = [wallMs + offsetBefore, wallMs + offsetAfter].sort((a, b) => a - b);
+  for (const candidate of candidates) {
+    if (toWallClockMs(candidate, timeZone) === wallMs) {
+      return candidate;
+    }
+  }
+
+  // Skipped by a forward transition: find the first minute after the jump.
+  let low = candidates[0]!;
+  let high = candidates[1]!;
+  while (high - low > MINUTE_MS) {
+    const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+    if (toWallClockMs(mid, timeZone) > wallMs) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+}
+
+/** `YYYY-MM-DD HH:mm` in `timeZone`. */
+export function formatWallClock(epochMs: number, timeZone: string): string {
+  return new Date(toWallClockMs(epochMs, timeZone)).toISOString().slice(0, 16).replace("T", " ");
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      // `hour12: false` alone renders midnight as "24" on some ICU builds.
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
@@ -0,0 +1,135 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ApprovalManager, isRiskyToolCall, parseApprovalButtonId } from "../src/core/approval-manager.ts";
+
+const workspace = path.resolve("/tmp/rikoclaw-workspace");
+
+test("isRiskyToolCall asks for configured tools and writes outside the workspace", () => {
+  assert.equal(isRiskyToolCall("Bash", { command: "ls" }, [workspace], ["Bash"]), true);
+  assert.equal(isRiskyToolCall("Read", { file_path: "/etc/passwd" }, [workspace], ["Bash"]), false);
+  assert.equal(
+    isRiskyToolCall("Write", { file_path: path.join(workspace, "out.txt") }, [workspace], ["Bash"]),
+    false,
+  );
+  assert.equal(
+    isRiskyToolCall("Edit", { file_path: path.join(workspace, "../escape.txt") }, [workspace], []),
+    true,
+  );
+  assert.equal(isRiskyToolCall("Write", {}, [workspace], []), true);
+  assert.equal(isRiskyToolCall("Write", { file_path: "src/index.ts" }, [workspace], []), true);
+});
+
+test("parseApprovalButtonId only accepts allow/deny approval ids", () => {
+  assert.deepEqual(parseApprovalButtonId("approval:allow:abc123"), {
+    decision: "allow",
+    requestId: "abc123",
+  });
+  assert.equal(parseApprovalButtonId("approval:maybe:abc123"), null);
+  assert.equal(parseApprovalButtonId("task:stop:1:ch_2"), null);
+});
+
+async function startManager(overrides = {}) {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "rikoclaw-approval-"));
+  const manager = new ApprovalManager({
+    ownerId: "1",
+    dataDir,
+    toolApprovalEnabled: true,
+    toolApprovalPort: 0,
+    toolApprovalTimeoutSec: 60,
+    toolApprovalTimeoutDecision: "deny",
+    toolApprovalTools: ["Bash"],
+    ...overrides,
+  });
+  manager.start();
+  await once(manager.server, "listening");
+  const url = `http://127.0.0.1:${manager.server.address().port}/approval`;
+  const ask = async (body) => {
+    const response = await fetch(url, { method: "POST", body: JSON.stringify(body) });
+    return { status: response.status, body: await response.json() };
+  };
+  const readLog = () =>
+    fs.readFileSync(path.join(dataDir, "approval-log.jsonl"), "utf8").trim().split("\n").map((line) => JSON.parse(line));
+  const close = () => {
+    manager.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  };
+  return { manager, ask, readLog, close };
+}
+
+function promptChannel() {
+  const prompts = [];
+  const waiters = [];
+  const channel = {
+    send: async (payload) => {
+      const message = { payload, edits: [], edit: async (update) => message.edits.push(update) };
+      prompts.push(message);
+      waiters.shift()?.(message);
+      return message;
+    },
+  };
+  // Resolves once the manager has stored the posted message, so a click can edit it.
+  const nextPrompt = () =>
+    new Promise((resolve) => waiters.push(resolve)).then(
+      (message) => new Promise((resolve) => setImmediate(() => resolve(message))),
+    );
+  return { channel, prompts, nextPrompt };
+}
+
+test("approval requests are answered over HTTP by policy or from the Discord buttons, and logged", async () => {
+  const { manager, ask, readLog, close } = await startManager();
+  try {
+    const { channel, nextPrompt } = promptChannel();
+    const token = manager.openSession({ taskKey: "42:ch_1", ownerId: "42", channel, workspaceRoots: [workspace] });
+
+    assert.equal((await ask({ token: "nope", toolName: "Bash", input: {} })).status, 401);
+
+    const inside = await ask({ token, toolName: "Write", input: { file_path: path.join(workspace, "a.txt") } });
+    assert.equal(inside.body.behavior, "allow");
+
+    const approved = ask({ token, toolName: "Bash", input: { command: "rm -rf build" } });
+    let prompt = await nextPrompt();
+    const requestId = parseApprovalButtonId(prompt.payload.components[0].components[0].data.custom_id).requestId;
+    assert.equal(manager.resolveFromButton(requestId, "allow", "7"), "forbidden");
+    assert.equal(manager.resolveFromButton(requestId, "allow", "42"), "ok");
+    assert.deepEqual((await approved).body, { behavior: "allow", updatedInput: { command: "rm -rf build" } });
+    assert.equal(manager.resolveFromButton(requestId, "deny", "42"), "not_found");
+
+    const denied = ask({ token, toolName: "Write", input: { file_path: "/etc/hosts" } });
+    prompt = await nextPrompt();
+    const denyId = parseApprovalButtonId(prompt.payload.components[0].components[1].data.custom_id).requestId;
+    assert.equal(manager.resolveFromButton(denyId, "deny", "1"), "ok");
+    assert.equal((await denied).body.behavior, "deny");
+    assert.match((await denied).body.message, /denied by the Discord operator/);
+    assert.match(prompt.edits[0].content, /거부됨/);
+
+    assert.deepEqual(
+      readLog().map((entry) => [entry.taskKey, entry.toolName, entry.decision, entry.decidedBy]),
+      [
+        ["42:ch_1", "Write", "allow", "policy"],
+        ["42:ch_1", "Bash", "allow", "42"],
+        ["42:ch_1", "Write", "deny", "1"],
+      ],
+    );
+  } finally {
+    close();
+  }
+});
+
+test("an unanswered approval prompt falls back to the timeout decision", async () => {
+  const { manager, ask, readLog, close } = await startManager({ toolApprovalTimeoutSec: 0.05 });
+  try {
+    const { channel, prompts } = promptChannel();
+    const token = manager.openSession({ taskKey: "42:ch_1", ownerId: "42", channel, workspaceRoots: [workspace] });
+
+    const response = await ask({ token, toolName: "Bash", input: { command: "ls" } });
+    assert.deepEqual(response.body, { behavior: "deny", message: "Tool call was not approved in time." });
+    assert.equal(prompts.length, 1);
+    assert.deepEqual(readLog().map((entry) => entry.decidedBy), ["timeout"]);
+  } finally {
+    close();
+  }
+});
@@ -0,0 +1,126 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { BudgetManager } from "../src/core/budget-manager.ts";
+import { ModelManager } from "../src/core/model-manager.ts";
+import { UsageLedger } from "../src/core/usage-ledger.ts";
+
+const OWNER = "1";
+const USER = "2";
+
+function withBudgets(budgets, run) {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "rikoclaw-budget-test-"));
+  const config = {
+    dataDir: tempDir,
+    ownerId: OWNER,
+    budgets,
+    budgetDowngradeThreshold: 0.8,
+    modelFallbackChains: [["claude-opus-4-6", "claude-sonnet-4-6", "claude-haiku-4-5"]],
+  };
+  const ledger = new UsageLedger(path.join(tempDir, "sessions.db"));
+  const manager = new BudgetManager(config, ledger, new ModelManager(config));
+  const spend = (userId, costUsd, taskKey = `${userId}:ch_10`, usage = null) =>
+    ledger.record({
+      taskKey,
+      lane: taskKey.startsWith("schedule:") ? "schedule" : "interactive",
+      userId,
+      channelId: "10",
+      engine: "claude",
+      model: "claude-opus-4-6",
+      success: true,
+      durationMs: 10,
+      retryCount: 0,
+      usage,
+      costUsd,
+      createdAt: Date.now(),
+    });
+
+  try {
+    run(manager, spend);
+  } finally {
+    ledger.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+const subject = (userId, taskKey = `${userId}:ch_10`) => ({
+  taskKey,
+  userId,
+  channelId: "10",
+  model: "claude-opus-4-6",
+  engine: "claude",
+});
+
+const userBudget = { scope: "user", target: "*", period: "daily", unit: "usd", limit: 10 };
+
+test("budgets downgrade along the fallback chain and reject when exhausted", () => {
+  withBudgets([userBudget], (manager, spend) => {
+    assert.deepEqual(manager.evaluate(subject(USER)), { action: "allow" });
+
+    spend(USER, 8.2);
+    const near = manager.evaluate(subject(USER));
+    assert.equal(near.action, "downgrade");
+    assert.equal(near.model, "claude-sonnet-4-6");
+
+    spend(USER, 1.2);
+    assert.equal(manager.evaluate(subject(USER)).model, "claude-haiku-4-5");
+
+    spend(USER, 1);
+    const exhausted = manager.evaluate(subject(USER));
+    assert.equal(exhausted.action, "reject");
+    assert.match(exhausted.message, /\$10\.40 \/ \$10\.00/);
+  });
+});
+
+test("the owner is exempt from user budgets but honours an owner cap", () => {
+  withBudgets([userBudget], (manager, spend) => {
+    spend(OWNER, 50);
+    assert.deepEqual(manager.evaluate(subject(OWNER)), { action: "allow" });
+  });
+
+  withBudgets(
+    [userBudget, { scope: "owner", target: "", period: "monthly", unit: "usd", limit: 20 }],
+    (manager, spend) => {
+      spend(OWNER, 25);
+      assert.equal(manager.evaluate(subject(OWNER)).action, "reject");
+      assert.deepEqual(manager.evaluate(subject(USER)), { action: "allow" });
+    },
+  );
+});
+
+test("schedule budgets are tracked per schedule key in tokens", () => {
+  const scheduleBudget = { scope: "schedule", target: "*", period: "daily", unit: "tokens", limit: 1000 };
+  withBudgets([scheduleBudget], (manager, spend) => {
+    spend("schedule:nightly", 0, "schedule:nightly:10", {
+      inputTokens: 900,
+      outputTokens: 200,
+      cacheReadInputTokens: 0,
+      cacheCreationInputTokens: 0,
+      contextWindow: null,
+      totalContextTokens: 900,
+    });
+
+    const nightly = manager.evaluate(subject("schedule:nightly", "schedule:nightly:10"));
+    assert.equal(nightly.action, "reject");
+    assert.match(nightly.message, /스케줄 `nightly`/);
+    assert.deepEqual(
+      manager.evaluate(subject("schedule:weekly", "schedule:weekly:10")),
+      { action: "allow" },
+    );
+    assert.equal(manager.status(subject(USER)).length, 0);
+  });
+});
+
+test("with no model set, the engine default starts at the head of its chain", () => {
+  withBudgets([userBudget], (manager, spend) => {
+    spend(USER, 8.2);
+    const near = manager.evaluate({ ...subject(USER), model: "" });
+    assert.equal(near.action, "downgrade");
+    assert.equal(near.model, "claude-sonnet-4-6");
+    assert.match(near.notice, /`기본 모델` → `claude-sonnet-4-6`/);
+
+    assert.deepEqual(manager.evaluate({ ...subject(USER), model: "", engine: "codex" }), { action: "allow" });
+  });
+});
@@ -0,0 +1,280 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { FakeRunner, FakeScript } from "../src/core/fake-runner.ts";
+import { MechoModeManager } from "../src/core/mecho-mode-manager.ts";
+import { PersonaManager } from "../src/core/persona-manager.ts";
+import { QueueManager } from "../src/core/queue-manager.ts";
+import { RestartManager } from "../src/core/restart-manager.ts";
+import { SessionManager } from "../src/core/session-manager.ts";
+import { UsageLedger } from "../src/core/usage-ledger.ts";
+import { VerboseManager } from "../src/core/verbose-manager.ts";
+import { loadConfig } from "../src/utils/config.ts";
+
+const FIXTURE = path.resolve("test/fixtures/fake-runner/pipeline.json");
+
+function createHarness({ turns, engines = ["claude"], config: overrides = {}, ledger = false } = {}) {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "rikoclaw-fake-"));
+  Object.assign(process.env, {
+    DISCORD_TOKEN: "test-token",
+    OWNER_ID: "1",
+    DATA_DIR: dataDir,
+    MECHO_ENABLED: "false",
+    ENABLE_LIVE_UPDATES: "false",
+    QUEUE_JOURNAL_ENABLED: "false",
+    SESSION_ROTATION_ENABLED: "false",
+    TOOL_APPROVAL_ENABLED: "false",
+  });
+  const config = Object.assign(loadConfig(), overrides);
+  const script = turns ? new FakeScript({ turns }) : FakeScript.fromFile(FIXTURE);
+  const runners = new Map(engines.map((engine) => [engine, new FakeRunner(engine, script)]));
+  const sessions = new SessionManager(config.dbPath);
+  const usageLedger = ledger ? new UsageLedger(config.dbPath) : null;
+  const queue = new QueueManager(
+    runners,
+    sessions,
+    config,
+    new VerboseManager(config),
+    new PersonaManager(config),
+    new MechoModeManager(config),
+    new RestartManager(config),
+    null,
+    null,
+    usageLedger,
+  );
+
+  const sent = [];
+  const message = { edit: async () => message };
+  const channel = {
+    id: "100",
+    send: async (payload) => {
+      sent.push(payload);
+      return message;
+    },
+    sendTyping: async () => {},
+  };
+
+  const submit = (task) =>
+    new Promise((resolve) => {
+      queue.enqueue({
+        sessionId: null,
+        sessionUserId: "42",
+        model: null,
+        taskKey: "42:ch_100",
+        respondTo: { type: "channel", channel },
+        createdAt: Date.now(),
+        engine: "claude",
+        onComplete: resolve,
+        ...task,
+      });
+    });
+  const run = (prompt, sessionId, taskKey) => submit({ prompt, sessionId: sessionId ?? null, ...(taskKey ? { taskKey } : {}) });
+
+  const close = () => {
+    queue.close();
+    usageLedger?.close();
+    sessions.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  };
+
+  return { script, sessions, sent, run, submit, queue, runners, usageLedger, close };
+}
+
+test("fake runner drives the queue pipeline offline with attachments and sessions", async () => {
+  const harness = createHarness();
+  try {
+    const result = await harness.run("hello bot");
+    assert.equal(result.success, true);
+    assert.equal(result.text, "Hi there");
+    assert.equal(harness.sessions.getSession("42", "ch_100", "claude"), "fake-session-1");
+
+    const delivered = harness.sent.flatMap((payload) => payload.files || []);
+    assert.equal(delivered.length, 1);
+    assert.ok(harness.sent.some((payload) => String(payload.content || "").includes("Hi there")));
+    assert.ok(harness.script.calls[0].outputDir);
+  } finally {
+    harness.close();
+  }
+});
+
+test("fake runner failures exercise the queue retry paths", async () => {
+  const harness = createHarness();
+  try {
+    assert.equal((await harness.run("flaky request")).text, "recovered after retry");
+
+    const resumed = await harness.run("resume please", "stale-session");
+    assert.equal(resumed.text, "fresh session");
+    const resumeCalls = harness.script.calls.filter((call) => call.prompt.includes("resume"));
+    assert.deepEqual(
+      resumeCalls.map((call) => call.sessionId),
+      ["stale-session", undefined],
+    );
+
+    assert.equal((await harness.run("long task")).text, "finished without turn cap");
+    const longCalls = harness.script.calls.filter((call) => call.prompt.includes("long task"));
+    assert.equal(longCalls[1].maxTurns, null);
+
+    assert.equal((await harness.run("slow job")).text, "default model answered");
+    const slowCalls = harness.script.calls.filter((call) => call.prompt.includes("slow job"));
+    assert.equal(slowCalls[1].model, "");
+
+    assert.equal((await harness.run("anything else")).text, "fallback reply");
+    // Only the "hello" turn from the first scenario is left unconsumed.
+    assert.equal(harness.script.remaining, 1);
+  } finally {
+    harness.close();
+  }
+});
+
+test("cancelling a task still waiting in the queue settles its onComplete", async () => {
+  const harness = createHarness();
+  try {
+    const first = harness.run("hello bot");
+    const waiting = harness.run("anything else", null, "team:run1:step1");
+    assert.deepEqual(harness.queue.cancel("team:run1:step1"), { cancelledRunning: false, removedPending: 1 });
+
+    const cancelled = await waiting;
+    assert.equal(cancelled.success, false);
+    assert.match(cancelled.error, /중단/);
+    assert.equal((await first).success, true);
+  } finally {
+    harness.close();
+  }
+});
+
+test("a task waits while its engine or model is at its limit and starts once a slot frees", async () => {
+  const harness = createHarness({
+    engines: ["claude", "codex"],
+    turns: [{ delayMs: 50, repeat: true, text: "done" }],
+    config: {
+      maxConcurrentRuns: 4,
+      claudeMaxConcurrentRuns: 1,
+      codexMaxConcurrentRuns: null,
+      modelConcurrencyLimits: new Map([["gpt-5.2", 1]]),
+    },
+  });
+  try {
+    const claudeFirst = harness.submit({ prompt: "a", taskKey: "1:ch_1" });
+    const claudeSecond = harness.submit({ prompt: "b", taskKey: "2:ch_2" });
+    const codexFirst = harness.submit({ prompt: "c", taskKey: "3:ch_3", engine: "codex", model: "gpt-5.2" });
+    const codexSecond = harness.submit({ prompt: "d", taskKey: "4:ch_4", engine: "codex", model: "gpt-5.2" });
+
+    assert.equal(harness.queue.activeRunCount, 2);
+    assert.deepEqual(harness.queue.listPendingTaskKeys().sort(), ["2:ch_2", "4:ch_4"]);
+    assert.deepEqual(
+      harness.queue.getSlotUsage().map((slot) => [slot.key, slot.active, slot.limit]),
+      [["claude", 1, 1], ["codex", 1, null], ["gpt-5.2", 1, 1]],
+    );
+
+    await claudeFirst;
+    assert.equal(harness.queue.getTaskSnapshot("2:ch_2")?.taskKey, "2:ch_2");
+    await codexFirst;
+    assert.equal(harness.queue.getTaskSnapshot("4:ch_4")?.model, "gpt-5.2");
+
+    const results = await Promise.all([claudeSecond, codexSecond]);
+    assert.ok(results.every((result) => result.success));
+    assert.equal(harness.queue.pendingCount, 0);
+  } finally {
+    harness.close();
+  }
+});
+
+test("follow-ups merge into a waiting task and go out as one next turn after a running one", async () => {
+  const harness = createHarness({
+    turns: [
+      { match: "^first", delayMs: 50, text: "first done" },
+      { repeat: true, text: "reply" },
+    ],
+    config: { maxConcurrentRuns: 1, followUpBufferMax: 2 },
+  });
+  try {
+    const followUpSent = [];
+    let followUpDelivered;
+    const delivered = new Promise((resolve) => {
+      followUpDelivered = resolve;
+    });
+    const respondTo = {
+      type: "channel",
+      channel: {
+        id: "100",
+        send: async (payload) => {
+          followUpSent.push(payload);
+          followUpDelivered();
+          return { edit: async () => {} };
+        },
+        sendTyping: async () => {},
+      },
+    };
+    const first = harness.submit({ prompt: "first question", taskKey: "42:ch_100" });
+    const second = harness.submit({ prompt: "second question", taskKey: "42:ch_200" });
+
+    assert.deepEqual(harness.queue.appendFollowUp("42:ch_200", { prompt: "and B?", respondTo }), {
+      accepted: true,
+      reason: "merged",
+      count: 1,
+    });
+    harness.queue.appendFollowUp("42:ch_200", { prompt: "and C?", respondTo });
+    assert.equal(harness.queue.appendFollowUp("42:ch_200", { prompt: "too many", respondTo }).reason, "buffer_full");
+
+    assert.deepEqual(harness.queue.appendFollowUp("42:ch_100", { prompt: "also this", respondTo }), {
+      accepted: true,
+      reason: "buffered",
+      count: 1,
+    });
+    assert.equal(harness.queue.appendFollowUp("42:ch_100", { prompt: "and that", respondTo }).count, 2);
+    assert.equal(harness.queue.appendFollowUp("42:ch_100", { prompt: "too many", respondTo }).reason, "buffer_full");
+    assert.equal(harness.queue.appendFollowUp("42:ch_300", { prompt: "nobody", respondTo }).reason, "not_found");
+
+    assert.equal((await first).text, "first done");
+    assert.equal((await second).success, true);
+    await delivered;
+
+    const prompts = harness.script.calls.map((call) => call.prompt);
+    assert.ok(prompts.some((prompt) => /second question\n\n---\n\nand B\?\n\n---\n\nand C\?/.test(prompt)));
+    const followUpCall = harness.script.calls.find((call) => /also this\n\n---\n\nand that/.test(call.prompt));
+    assert.equal(followUpCall.sessionId, "fake-1");
+    assert.equal(harness.script.calls.length, 3);
+    assert.ok(followUpSent.some((payload) => String(payload.content || "").includes("reply")));
+  } finally {
+    harness.close();
+  }
+});
+
+test("the usage ledger charges the model the last attempt ran on, also for runs that throw", async () => {
+  const harness = createHarness({
+    ledger: true,
+    turns: [
+      { match: "slow", fail: "timeout" },
+      { match: "slow", text: "default model answered" },
+      { match: "crash", fail: "timeout" },
+    ],
+    config: { claudeModel: "claude-sonnet-4-6" },
+  });
+  try {
+    assert.equal((await harness.submit({ prompt: "slow job", model: "claude-opus-4-1" })).success, true);
+
+    const runner = harness.runners.get("claude");
+    const run = runner.run.bind(runner);
+    runner.run = async (options) => {
+      if (options.model === "") {
+        throw new Error("runner crashed");
+      }
+      return run(options);
+    };
+    assert.equal((await harness.submit({ prompt: "crash now", model: "claude-opus-4-1" })).success, false);
+    while (harness.queue.activeRunCount > 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    assert.deepEqual(
+      harness.usageLedger
+        .breakdown({ groupBy: "model", since: null })
+        .map((row) => [row.key, row.runs, row.failures, row.retries]),
+      [["claude-sonnet-4-6", 2, 1, 2]],
+    );
+  } finally {
+    harness.close();
+  }
+});
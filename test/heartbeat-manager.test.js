@@ -0,0 +1,177 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { HeartbeatHistory } from "../src/core/heartbeat-history.ts";
+import { HeartbeatManager } from "../src/core/heartbeat-manager.ts";
+
+const files = {
+  default: "# Heartbeat Checklist\n\n- check the build\n",
+  research: [
+    "---",
+    "channel: 20",
+    "interval: 2h",
+    "active_hours: 0-24",
+    "engine: codex",
+    "model: gpt-5",
+    "---",
+    "# Research",
+    "- scan new papers",
+  ].join("\n"),
+  idle: "# Heartbeat Checklist\n\n<!-- nothing yet -->\n",
+  muted: "---\nenabled: false\nchannel: 30\n---\n- never runs\n",
+};
+
+function tempDbPath() {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "rikoclaw-heartbeat-test-"));
+  return path.join(tempDir, "sessions.db");
+}
+
+function createManager(dbPath = tempDbPath()) {
+  const enqueued = [];
+  const posted = [];
+  const client = {
+    channels: {
+      fetch: async (id) => ({
+        id,
+        isTextBased: () => true,
+        send: async (payload) => {
+          posted.push([id, payload.content]);
+          return { id: `m${posted.length}`, url: `https://discord.com/channels/1/${id}/m${posted.length}` };
+        },
+      }),
+    },
+  };
+  const config = {
+    heartbeatEnabled: true,
+    heartbeatChannelId: "10",
+    heartbeatIntervalMinutes: 30,
+    heartbeatActiveHoursStart: 0,
+    heartbeatActiveHoursEnd: 24,
+    heartbeatDedupWindowHours: 24,
+    heartbeatBusyPolicy: "retry",
+    heartbeatBusyRetryMinutes: 5,
+    heartbeatBusyGraceMinutes: 30,
+  };
+  const personas = {
+    listModeNames: () => Object.keys(files),
+    getHeartbeatContent: (mode) => files[mode] ?? "",
+  };
+  const queue = {
+    isBusy: false,
+    enqueue: (task) => {
+      enqueued.push(task);
+      return { accepted: true, reason: "ok", position: 0 };
+    },
+  };
+  const sessions = { getSession: () => null };
+  const manager = new HeartbeatManager(client, config, personas, queue, sessions, new HeartbeatHistory(dbPath));
+  return { manager, enqueued, posted, dbPath, config, queue };
+}
+
+test("each mode with a heartbeat gets its own settings from front matter", () => {
+  const { manager } = createManager();
+  manager.start();
+  try {
+    const snaps = manager.getSnapshots();
+    assert.deepEqual(
+      snaps.map((snap) => [snap.modeName, snap.channelId, snap.intervalMinutes, snap.engine, snap.model, snap.enabled]),
+      [
+        ["default", "10", 30, "claude", "claude-sonnet-4-6", true],
+        ["muted", "30", 30, "claude", "claude-sonnet-4-6", false],
+        ["research", "20", 120, "codex", "gpt-5", true],
+      ],
+    );
+  } finally {
+    manager.close();
+  }
+});
+
+test("a mode heartbeat runs in its own channel, engine and mode", async () => {
+  const { manager, enqueued, posted } = createManager();
+
+  const pending = manager.triggerNow("research");
+  await new Promise((resolve) => setImmediate(resolve));
+  const [task] = enqueued;
+  assert.equal(task.taskKey, "heartbeat:research:20");
+  assert.equal(task.engine, "codex");
+  assert.equal(task.model, "gpt-5");
+  assert.equal(task.modeName, "research");
+  assert.doesNotMatch(task.prompt, /interval: 2h/);
+  assert.match(task.prompt, /scan new papers/);
+
+  await task.respondTo.channel.send({ content: "New paper on retrieval." });
+  assert.equal((await pending).status, "alert");
+  assert.deepEqual(posted, [["20", "New paper on retrieval."]]);
+
+  assert.equal((await manager.triggerNow("muted")).status, "skipped-disabled");
+  manager.close();
+});
+
+test("heartbeat history and dedup survive a restart", async () => {
+  const runOnce = async (manager, enqueued, reply) => {
+    const pending = manager.triggerNow("default");
+    await new Promise((resolve) => setImmediate(resolve));
+    await enqueued.at(-1).respondTo.channel.send({ content: reply });
+    return await pending;
+  };
+
+  const first = createManager();
+  assert.equal((await runOnce(first.manager, first.enqueued, "Disk is 95% full.")).status, "alert");
+  first.manager.close();
+
+  const second = createManager(first.dbPath);
+  assert.equal((await runOnce(second.manager, second.enqueued, "Disk is  95% full.\n")).status, "skipped-duplicate");
+  assert.deepEqual(second.posted, []);
+
+  const [duplicate, alert] = second.manager.getHistory("default", 5);
+  assert.equal(duplicate.status, "skipped-duplicate");
+  assert.equal(duplicate.runNo, 2);
+  assert.equal(alert.status, "alert");
+  assert.deepEqual(alert.messageIds, ["m1"]);
+  assert.equal(second.manager.getSnapshots()[0].runCount, 2);
+  second.manager.close();
+});
+
+test("a heartbeat the queue rejects is recorded with the rejection reason", async () => {
+  const { manager, queue } = createManager();
+  queue.enqueue = () => ({ accepted: false, reason: "budget_exceeded", position: 0, message: "over budget" });
+  assert.equal((await manager.triggerNow("default")).status, "skipped-budget");
+
+  queue.enqueue = () => ({ accepted: false, reason: "queue_full", position: 5 });
+  assert.equal((await manager.triggerNow("default")).status, "skipped-queue-full");
+  assert.deepEqual(manager.getHistory("default").map((event) => event.status), ["skipped-queue-full", "skipped-budget"]);
+  manager.close();
+});
+
+test("a heartbeat landing on a busy queue is deferred instead of lost", async () => {
+  const { manager, enqueued, config, queue } = createManager();
+  queue.isBusy = true;
+
+  assert.equal((await manager.triggerNow("default")).status, "deferred");
+  const [deferred] = manager.getSnapshots();
+  assert.equal(deferred.deferral.policy, "retry");
+  assert.equal(deferred.deferral.attempts, 1);
+  assert.ok(deferred.deferral.nextAttemptAt - deferred.deferral.since <= 5 * 60 * 1000);
+  assert.equal(enqueued.length, 0);
+
+  queue.isBusy = false;
+  const pending = manager.triggerNow("default");
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(manager.getSnapshots()[0].deferral, null);
+  await enqueued[0].respondTo.channel.send({ content: "HEARTBEAT_OK" });
+  assert.equal((await pending).status, "ok");
+  assert.deepEqual(manager.getHistory("default").map((event) => event.status), ["ok", "deferred"]);
+
+  config.heartbeatBusyPolicy = "queue";
+  queue.isBusy = true;
+  const queued = manager.triggerNow("default");
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(enqueued.length, 2);
+  assert.equal(manager.getSnapshots()[0].deferral.policy, "queue");
+  await enqueued[1].respondTo.channel.send({ content: "HEARTBEAT_OK" });
+  assert.equal((await queued).status, "ok");
+  assert.equal(manager.getSnapshots()[0].deferral, null);
+  manager.close();
+});
@@ -0,0 +1,113 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { OpenAICompatRunner } from "../src/core/openai-compat-runner.ts";
+
+function startServer(handler) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      const parsed = JSON.parse(body);
+      requests.push({ url: req.url, body: parsed });
+      handler(parsed, res);
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address();
+      resolve({ server, requests, baseUrl: `http://127.0.0.1:${port}/v1` });
+    });
+  });
+}
+
+function streamReply(res, pieces, usage) {
+  res.writeHead(200, { "content-type": "text/event-stream" });
+  for (const piece of pieces) {
+    res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: piece } }] })}\n\n`);
+  }
+  res.write(`data: ${JSON.stringify({ choices: [], usage })}\n\n`);
+  res.end("data: [DONE]\n\n");
+}
+
+function makeConfig(baseUrl) {
+  return {
+    dataDir: fs.mkdtempSync(path.join(os.tmpdir(), "rikoclaw-openai-")),
+    openaiCompatBaseUrl: baseUrl,
+    openaiCompatApiKey: "",
+    openaiCompatModel: "local-model",
+    openaiCompatTimeout: 5000,
+    openaiCompatContextWindow: 8192,
+  };
+}
+
+test("OpenAICompatRunner streams deltas, reports usage and resumes local history", async () => {
+  const { server, requests, baseUrl } = await startServer((body, res) => {
+    const turn = body.messages.filter((message) => message.role === "user").length;
+    streamReply(res, [`answer `, `${turn}`], { prompt_tokens: 10 * turn, completion_tokens: 2 });
+  });
+  const config = makeConfig(baseUrl);
+
+  try {
+    const runner = new OpenAICompatRunner(config);
+    const deltas = [];
+    const first = await runner.run({
+      prompt: "hello",
+      systemPrompt: "be brief",
+      onEvent: (event) => {
+        if (event.type === "assistant_delta") {
+          deltas.push(event.text);
+        }
+      },
+    });
+
+    assert.equal(first.success, true);
+    assert.equal(first.text, "answer 1");
+    assert.deepEqual(deltas, ["answer ", "1"]);
+    assert.equal(first.usage.inputTokens, 10);
+    assert.equal(first.usage.outputTokens, 2);
+    assert.equal(first.usage.contextWindow, 8192);
+    assert.ok(first.sessionId);
+    assert.equal(requests[0].url, "/v1/chat/completions");
+    assert.equal(requests[0].body.model, "local-model");
+    assert.equal(requests[0].body.stream, true);
+
+    const second = await runner.run({ prompt: "again", sessionId: first.sessionId, model: "" });
+    assert.equal(second.success, true);
+    assert.equal(requests[1].body.model, "local-model");
+    assert.equal(second.text, "answer 2");
+    assert.equal(second.sessionId, first.sessionId);
+    assert.deepEqual(
+      requests[1].body.messages.map((message) => `${message.role}:${message.content}`),
+      ["user:hello", "assistant:answer 1", "user:again"],
+    );
+  } finally {
+    server.close();
+    fs.rmSync(config.dataDir, { recursive: true, force: true });
+  }
+});
+
+test("OpenAICompatRunner surfaces HTTP errors without saving history", async () => {
+  const { server, baseUrl } = await startServer((_body, res) => {
+    res.writeHead(500, { "content-type": "application/json" });
+    res.end(JSON.stringify({ error: { message: "model not loaded" } }));
+  });
+  const config = makeConfig(baseUrl);
+
+  try {
+    const runner = new OpenAICompatRunner(config);
+    const result = await runner.run({ prompt: "hello" });
+    assert.equal(result.success, false);
+    assert.match(result.error, /HTTP 500.*model not loaded/);
+    assert.deepEqual(fs.readdirSync(path.join(config.dataDir, "openai-sessions")), []);
+  } finally {
+    server.close();
+    fs.rmSync(config.dataDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,148 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { QueueJournal } from "../src/core/queue-journal.ts";
+import { FakeRunner, FakeScript } from "../src/core/fake-runner.ts";
+import { MechoModeManager } from "../src/core/mecho-mode-manager.ts";
+import { PersonaManager } from "../src/core/persona-manager.ts";
+import { QueueManager } from "../src/core/queue-manager.ts";
+import { RestartManager } from "../src/core/restart-manager.ts";
+import { SessionManager } from "../src/core/session-manager.ts";
+import { VerboseManager } from "../src/core/verbose-manager.ts";
+import { loadConfig } from "../src/utils/config.ts";
+
+function withJournal(run) {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "rikoclaw-journal-test-"));
+  const dbPath = path.join(tempDir, "sessions.db");
+  const journal = new QueueJournal(dbPath);
+  try {
+    run(journal);
+  } finally {
+    journal.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+function entry(taskKey, overrides = {}) {
+  return {
+    taskKey,
+    status: "pending",
+    prompt: `prompt for ${taskKey}`,
+    sessionId: null,
+    sessionUserId: "u_1",
+    mechoModeId: null,
+    model: null,
+    engine: "claude",
+    modeName: null,
+    attachments: [],
+    rotateFromSessionId: null,
+    respondType: "message",
+    channelId: "c_1",
+    messageId: "m_1",
+    createdAt: 1_700_000_000_000,
+    startedAt: null,
+    ...overrides,
+  };
+}
+
+test("journal keeps pending and running entries in creation order", () => {
+  withJournal((journal) => {
+    journal.record(entry("u_1:ch_c_1", { createdAt: 2_000 }));
+    journal.record(
+      entry("schedule:daily:c_2", {
+        createdAt: 1_000,
+        respondType: "channel",
+        channelId: "c_2",
+        messageId: null,
+        attachments: [{ url: "https://cdn.example/a.txt", name: "a.txt", size: 3, contentType: null }],
+      }),
+    );
+    journal.markRunning("u_1:ch_c_1", 3_000);
+
+    const entries = journal.list();
+    assert.deepEqual(
+      entries.map((item) => [item.taskKey, item.status, item.startedAt]),
+      [
+        ["schedule:daily:c_2", "pending", null],
+        ["u_1:ch_c_1", "running", 3_000],
+      ],
+    );
+    assert.equal(entries[0].attachments[0].name, "a.txt");
+  });
+});
+
+test("remove drops finished tasks and drain restores each entry once", () => {
+  withJournal((journal) => {
+    journal.record(entry("a"));
+    journal.record(entry("b"));
+    journal.remove("a");
+
+    assert.deepEqual(
+      journal.drain().map((item) => item.taskKey),
+      ["b"],
+    );
+    assert.deepEqual(journal.drain(), []);
+  });
+});
+
+test("schedule runs with history hooks are left to catch-up instead of the journal", async () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "rikoclaw-journal-queue-"));
+  Object.assign(process.env, {
+    DISCORD_TOKEN: "test-token",
+    OWNER_ID: "1",
+    DATA_DIR: dataDir,
+    MECHO_ENABLED: "false",
+    ENABLE_LIVE_UPDATES: "false",
+    SESSION_ROTATION_ENABLED: "false",
+    TOOL_APPROVAL_ENABLED: "false",
+  });
+  const config = loadConfig();
+  const journal = new QueueJournal(config.dbPath);
+  const sessions = new SessionManager(config.dbPath);
+  const script = new FakeScript({ turns: [{ repeat: true, delayMs: 5_000, text: "late" }] });
+  const queue = new QueueManager(
+    new Map([["claude", new FakeRunner("claude", script)]]),
+    sessions,
+    config,
+    new VerboseManager(config),
+    new PersonaManager(config),
+    new MechoModeManager(config),
+    new RestartManager(config),
+    journal,
+  );
+  const channel = { id: "c_1", send: async () => ({ edit: async () => {} }), sendTyping: async () => {} };
+  const task = (taskKey, overrides = {}) => ({
+    prompt: "p",
+    sessionId: null,
+    sessionUserId: "u_1",
+    model: null,
+    taskKey,
+    respondTo: { type: "channel", channel },
+    createdAt: Date.now(),
+    engine: "claude",
+    ...overrides,
+  });
+
+  try {
+    // Occupies the only slot so the next two stay pending.
+    const blocker = new Promise((resolve) => queue.enqueue(task("u_0:ch_c_0", { onComplete: resolve })));
+    assert.equal(queue.enqueue(task("schedule:daily:c_1", { onFinished: () => {} })).accepted, true);
+    assert.equal(queue.enqueue(task("u_1:ch_c_1")).accepted, true);
+    assert.equal(queue.pendingCount, 2);
+    assert.deepEqual(journal.list().map((item) => item.taskKey), ["u_1:ch_c_1"]);
+
+    queue.cancel("schedule:daily:c_1");
+    queue.cancel("u_1:ch_c_1");
+    queue.cancel("u_0:ch_c_0");
+    await blocker;
+    while (queue.activeRunCount > 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  } finally {
+    queue.close();
+    sessions.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+});
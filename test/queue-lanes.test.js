@@ -0,0 +1,37 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  classifyTaskLane,
+  pickNextCandidateIndex,
+  planDispatchOrder,
+} from "../src/core/queue-lanes.ts";
+
+test("classifyTaskLane maps task key prefixes to lanes", () => {
+  assert.equal(classifyTaskLane("123:ch_456"), "interactive");
+  assert.equal(classifyTaskLane("restart-resume:abc"), "interactive");
+  assert.equal(classifyTaskLane("team:run1:step0"), "team");
+  assert.equal(classifyTaskLane("schedule:daily:789"), "schedule");
+  assert.equal(classifyTaskLane("heartbeat:789"), "heartbeat");
+});
+
+test("higher lanes are dispatched before older lower-lane tasks", () => {
+  const candidates = [
+    { lane: "heartbeat", userId: "hb" },
+    { lane: "schedule", userId: "sch" },
+    { lane: "interactive", userId: "u1" },
+  ];
+  assert.equal(pickNextCandidateIndex(candidates, new Map()), 2);
+});
+
+test("users within a lane are served round-robin", () => {
+  const candidates = [
+    { lane: "interactive", userId: "spammer" },
+    { lane: "interactive", userId: "spammer" },
+    { lane: "interactive", userId: "spammer" },
+    { lane: "interactive", userId: "other" },
+    { lane: "schedule", userId: "sch" },
+  ];
+  const served = new Map([["spammer", 5]]);
+
+  assert.deepEqual(planDispatchOrder(candidates, served, 6), [3, 0, 1, 2, 4]);
+});
@@ -0,0 +1,81 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { deliverScheduleResult, parseScheduleOutput } from "../src/core/schedule-delivery.ts";
+
+const ok = (text) => ({ success: true, text, sessionId: null, error: null, durationMs: 1, isTimeout: false, usage: null });
+
+function fakeChannel() {
+  const sent = [];
+  const threads = [];
+  const channel = {
+    id: "10",
+    sent,
+    threads: {
+      cache: { find: (fn) => threads.find(fn) },
+      fetchActive: async () => ({ threads: { find: () => undefined } }),
+      create: async ({ name }) => {
+        const thread = {
+          name,
+          parentId: "10",
+          archived: false,
+          sent: [],
+          send: async (payload) => {
+            thread.sent.push(payload);
+            return { url: `https://discord.com/channels/1/${name}/1` };
+          },
+        };
+        threads.push(thread);
+        return thread;
+      },
+    },
+    send: async (payload) => {
+      sent.push(payload);
+      return { url: "https://discord.com/channels/1/10/1" };
+    },
+  };
+  return { channel, threads };
+}
+
+const input = (channel, output, client = {}) => ({
+  client,
+  channel,
+  scheduleId: "digest",
+  scheduleKey: "digest",
+  timezone: "Asia/Seoul",
+  output: parseScheduleOutput(output),
+});
+
+test("schedule output blocks are validated per target", () => {
+  assert.equal(parseScheduleOutput(undefined), null);
+  assert.deepEqual(parseScheduleOutput({ silentToken: "NOTHING" }), { target: "channel", silentToken: "NOTHING" });
+  assert.throws(() => parseScheduleOutput({ target: "dm" }), /dmUserIds/);
+  assert.throws(() => parseScheduleOutput({ target: "webhook", webhookUrl: "https://example.com/x" }), /webhook URL/);
+  assert.throws(() => parseScheduleOutput({ target: "pager" }), /output.target/);
+  assert.throws(() => parseScheduleOutput({ fileThreshold: 0 }), /fileThreshold/);
+});
+
+test("schedule replies can be silenced, attached as files, threaded or DMed", async () => {
+  const { channel, threads } = fakeChannel();
+
+  assert.equal(await deliverScheduleResult(input(channel, { silentToken: "NOTHING_FOUND" }), ok(" NOTHING_FOUND "), []), null);
+  assert.equal(channel.sent.length, 0);
+
+  await deliverScheduleResult(input(channel, { fileThreshold: 10 }), ok("# Report\nmore than ten characters"), []);
+  assert.equal(channel.sent.length, 1);
+  assert.match(channel.sent[0].content, /파일로 첨부/);
+  assert.match(channel.sent[0].files[0].name, /^digest-\d{4}-\d{2}-\d{2}\.md$/);
+
+  const threaded = input(channel, { target: "thread", threadName: "Daily digest" });
+  await deliverScheduleResult(threaded, ok("first"), []);
+  const url = await deliverScheduleResult(threaded, ok("second"), []);
+  assert.equal(threads.length, 1);
+  assert.match(threads[0].name, /^Daily digest \d{4}-\d{2}-\d{2}$/);
+  assert.deepEqual(threads[0].sent.map((payload) => payload.content), ["first", "second"]);
+  assert.match(url, /Daily digest/);
+
+  const dms = [];
+  const client = { users: { fetch: async (id) => ({ send: async (payload) => dms.push([id, payload.content]) }) } };
+  await deliverScheduleResult(input(channel, { target: "dm", dmUserIds: ["1", "2"] }, client), ok("hello"), []);
+  assert.deepEqual(dms, [["1", "hello"], ["2", "hello"]]);
+  assert.equal(channel.sent.length, 1);
+});
@@ -0,0 +1,283 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ScheduleHistory } from "../src/core/schedule-history.ts";
+import { ScheduleManager } from "../src/core/schedule-manager.ts";
+import { ScheduleStateStore } from "../src/core/schedule-state.ts";
+
+function withSchedules(definitions, run) {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "rikoclaw-schedule-test-"));
+  const schedulePath = path.join(tempDir, "schedules.json");
+  fs.writeFileSync(schedulePath, JSON.stringify(definitions), "utf8");
+
+  const enqueued = [];
+  const dms = [];
+  const client = {
+    channels: { fetch: async (id) => ({ id, isTextBased: () => true }) },
+    users: { fetch: async () => ({ send: async ({ content }) => dms.push(content) }) },
+  };
+  const personas = {
+    getScheduleFilePath: () => schedulePath,
+    listModeNames: () => [],
+    getModeDir: (name) => path.join(tempDir, name),
+    modeExists: () => true,
+  };
+  const queue = {
+    hasTask: () => false,
+    enqueue: (task) => {
+      enqueued.push(task);
+      return { accepted: true };
+    },
+  };
+  const sessions = { getSession: () => null };
+  // A fresh manager over the same database stands in for a bot restart.
+  const boot = () =>
+    new ScheduleManager(
+      client,
+      { scheduleTimezone: "Asia/Seoul", scheduleFailureAlertThreshold: 2, ownerId: "1" },
+      personas,
+      queue,
+      sessions,
+      new ScheduleStateStore(path.join(tempDir, "sessions.db")),
+      new ScheduleHistory(path.join(tempDir, "sessions.db")),
+    );
+  let manager = boot();
+
+  const tickAt = async (iso) => {
+    const before = enqueued.length;
+    await manager.tick(new Date(iso));
+    return enqueued.slice(before).map((task) => task.taskKey);
+  };
+  const restart = () => {
+    manager.close();
+    manager = boot();
+    return manager;
+  };
+
+  const finishLast = (result) => {
+    const task = enqueued[enqueued.length - 1];
+    task.onFinished({
+      result: { sessionId: null, isTimeout: false, usage: null, durationMs: 0, ...result },
+      startedAt: 1_000,
+      finishedAt: 4_000,
+      messageUrl: result.success ? "https://discord.com/channels/1/10/99" : null,
+    });
+  };
+
+  return Promise.resolve(run(manager, tickAt, restart, { finishLast, dms, enqueued })).finally(() => {
+    manager.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+}
+
+const schedule = (id, cron, timezone) => ({
+  id,
+  cron,
+  channelId: "10",
+  prompt: "hi",
+  ...(timezone ? { timezone } : {}),
+});
+
+test("schedules without a timezone keep KST and list their next run", async () => {
+  await withSchedules([schedule("morning", "0 9 * * *")], async (manager, tickAt) => {
+    assert.deepEqual(await tickAt("2026-01-05T00:00:10Z"), ["schedule:morning:10"]);
+    assert.deepEqual(await tickAt("2026-01-05T00:00:50Z"), []);
+    assert.deepEqual(await tickAt("2026-01-05T09:00:00Z"), []);
+
+    const [item] = manager.listSchedules();
+    assert.equal(item.timezone, "Asia/Seoul");
+    assert.ok(item.nextRunAt > Date.now());
+    assert.equal(new Date(item.nextRunAt).getUTCHours(), 0);
+  });
+});
+
+test("DST gaps run fixed-time jobs once after the jump and overlaps do not repeat them", async () => {
+  await withSchedules(
+    [
+      schedule("gap", "30 2 * * *", "America/New_York"),
+      schedule("overlap", "30 1 * * *", "america/new_york"),
+      schedule("half-hourly", "*/30 * * * *", "America/New_York"),
+    ],
+    async (_manager, tickAt) => {
+      // 2026-03-08: 02:00 EST jumps to 03:00 EDT, so 02:30 never exists.
+      assert.deepEqual(await tickAt("2026-03-08T06:59:00Z"), []);
+      assert.deepEqual(await tickAt("2026-03-08T07:00:00Z"), [
+        "schedule:gap:10",
+        "schedule:half-hourly:10",
+      ]);
+
+      // 2026-11-01: 01:00-01:59 happens twice (EDT, then EST).
+      assert.deepEqual(await tickAt("2026-11-01T05:30:00Z"), [
+        "schedule:half-hourly:10",
+        "schedule:overlap:10",
+      ]);
+      assert.deepEqual(await tickAt("2026-11-01T06:30:00Z"), ["schedule:half-hourly:10"]);
+    },
+  );
+});
+
+test("one-shot schedules fire once and disable themselves; intervals follow their anchor", async () => {
+  await withSchedules(
+    [
+      { ...schedule("remind", null), at: "2026-01-05T09:00" },
+      { ...schedule("poll", null), every: "90m", anchor: "2026-01-05T08:00:00Z" },
+    ],
+    async (manager, tickAt) => {
+      // 09:00 KST is 00:00Z; the first tick only looks back one minute.
+      assert.deepEqual(await tickAt("2026-01-05T00:00:20Z"), ["schedule:remind:10"]);
+      assert.deepEqual(await tickAt("2026-01-05T00:01:20Z"), []);
+      const remind = manager.listSchedules().find((item) => item.key === "remind");
+      assert.equal(remind.kind, "at");
+      assert.equal(remind.enabled, false);
+      assert.equal(remind.nextRunAt, null);
+
+      assert.deepEqual(await tickAt("2026-01-05T08:00:30Z"), ["schedule:poll:10"]);
+      assert.deepEqual(await tickAt("2026-01-05T09:29:30Z"), []);
+      assert.deepEqual(await tickAt("2026-01-05T09:30:30Z"), ["schedule:poll:10"]);
+
+      const added = manager.addSchedule({ id: "late", at: "2020-01-01T00:00Z", channelId: "10", prompt: "x" });
+      assert.equal(added.ok, false);
+      assert.match(added.message, /past/);
+      const both = manager.addSchedule({ id: "x", cron: "* * * * *", every: "1h", channelId: "10", prompt: "x" });
+      assert.equal(both.ok, false);
+    },
+  );
+});
+
+test("runs missed during downtime follow each schedule's catchUp policy", async () => {
+  await withSchedules(
+    [
+      schedule("hourly-skip", "0 * * * *"),
+      { ...schedule("hourly-once", "0 * * * *"), catchUp: "once" },
+      { ...schedule("hourly-all", "0 * * * *"), catchUp: "all", catchUpLimit: 3 },
+      { ...schedule("reminder", null), at: "2026-01-05T12:30" },
+    ],
+    async (_manager, tickAt, restart) => {
+      // 09:00 KST (00:00Z): everything hourly fires on time.
+      assert.deepEqual(await tickAt("2026-01-05T00:00:10Z"), [
+        "schedule:hourly-all:10",
+        "schedule:hourly-once:10",
+        "schedule:hourly-skip:10",
+      ]);
+
+      // Down from 09:01 to 14:20 KST: 10:00-14:00 and the 12:30 reminder were missed.
+      restart();
+      assert.deepEqual(await tickAt("2026-01-05T05:20:00Z"), [
+        "schedule:hourly-all:10",
+        "schedule:hourly-once:10",
+        "schedule:reminder:10",
+      ]);
+      // The remaining owed `all` runs drain one per tick, even across another restart.
+      restart();
+      assert.deepEqual(await tickAt("2026-01-05T05:21:00Z"), ["schedule:hourly-all:10"]);
+      assert.deepEqual(await tickAt("2026-01-05T05:22:00Z"), ["schedule:hourly-all:10"]);
+      assert.deepEqual(await tickAt("2026-01-05T05:23:00Z"), []);
+
+      // A stall shorter than the grace period is just a late tick.
+      assert.deepEqual(await tickAt("2026-01-05T06:01:30Z"), [
+        "schedule:hourly-all:10",
+        "schedule:hourly-once:10",
+        "schedule:hourly-skip:10",
+      ]);
+    },
+  );
+});
+
+test("schedule runs are recorded with a failure streak and an owner alert", async () => {
+  await withSchedules([schedule("report", "0 9 * * *")], async (manager, tickAt, restart, { finishLast, dms }) => {
+    await tickAt("2026-01-05T00:00:10Z");
+    finishLast({ success: true, text: "all good", error: null });
+
+    await manager.runScheduleNow("report");
+    finishLast({ success: false, text: "", error: "boom" });
+    await manager.runScheduleNow("report");
+    finishLast({ success: false, text: "", error: "boom again" });
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(dms.length, 1);
+    assert.match(dms[0], /report.*2회 연속 실패/);
+
+    // A run still in flight across a restart is closed out as interrupted.
+    await manager.runScheduleNow("report");
+    manager = restart();
+    const { runs } = manager.getHistory("report");
+    assert.deepEqual(
+      runs.map((run) => [run.trigger, run.success, run.error]),
+      [
+        ["manual", false, "interrupted by restart"],
+        ["manual", false, "boom again"],
+        ["manual", false, "boom"],
+        ["schedule", true, null],
+      ],
+    );
+    assert.equal(runs[3].outputPreview, "all good");
+    assert.equal(runs[3].durationMs, 3000);
+    assert.equal(runs[3].messageUrl, "https://discord.com/channels/1/10/99");
+    assert.equal(manager.listSchedules()[0].failureStreak, 3);
+  });
+});
+
+test("editing a schedule patches its definition in place", async () => {
+  await withSchedules(
+    [schedule("digest", "0 9 * * *", "America/New_York"), schedule("other", "0 8 * * *")],
+    async (manager, tickAt) => {
+      const edited = manager.editSchedule("digest", { cron: "30 9 * * *", prompt: "summarize", timezone: "" });
+      assert.equal(edited.ok, true, edited.message);
+      assert.equal(edited.item.key, "digest");
+      assert.equal(edited.item.spec, "30 9 * * *");
+      assert.equal(edited.item.timezone, "Asia/Seoul");
+      assert.equal(edited.item.prompt, "summarize");
+      assert.equal(edited.item.channelId, "10");
+
+      // 09:30 KST is 00:30Z.
+      assert.deepEqual(await tickAt("2026-01-05T00:30:10Z"), ["schedule:digest:10"]);
+
+      const switched = manager.editSchedule("digest", { every: "2h", anchor: "2026-01-05T10:00" });
+      assert.equal(switched.item.kind, "every");
+      assert.equal(manager.listSchedules().map((item) => item.key).join(","), "digest,other");
+
+      assert.equal(manager.editSchedule("digest", { cron: "* * * * *", at: "2030-01-01T00:00" }).ok, false);
+      assert.equal(manager.editSchedule("other", { anchor: "2026-01-05T10:00" }).ok, false);
+      assert.match(manager.editSchedule("other", {}).message, /Nothing to change/);
+      assert.equal(manager.editSchedule("missing", { prompt: "x" }).error, "not_found");
+    },
+  );
+});
+
+test("after schedules run on upstream completion when their gates pass", async () => {
+  await withSchedules(
+    [
+      schedule("research", "0 9 * * *"),
+      { ...schedule("follow-up", null), after: "research", afterStatus: "success", when: { unless: "NOTHING_FOUND" } },
+      { ...schedule("alert", null), after: "research", when: { match: "/urgent/i" } },
+    ],
+    async (manager, tickAt, _restart, { finishLast, enqueued }) => {
+      const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+      assert.deepEqual(await tickAt("2026-01-05T00:00:10Z"), ["schedule:research:10"]);
+      finishLast({ success: true, text: "NOTHING_FOUND", error: null });
+      await settle();
+      assert.equal(enqueued.length, 1);
+
+      await manager.runScheduleNow("research");
+      finishLast({ success: true, text: "Found 3 URGENT issues", error: null });
+      await settle();
+      assert.deepEqual(
+        enqueued.slice(2).map((task) => task.taskKey),
+        ["schedule:alert:10", "schedule:follow-up:10"],
+      );
+      assert.match(enqueued[3].prompt, /<upstream_result schedule="research">\nFound 3 URGENT issues\n<\/upstream_result>\n\nhi$/);
+
+      await manager.runScheduleNow("research");
+      finishLast({ success: false, text: "", error: "urgent: timeout" });
+      await settle();
+      assert.deepEqual(enqueued.slice(5).map((task) => task.taskKey), ["schedule:alert:10"]);
+      assert.equal(manager.getHistory("alert").runs[0].trigger, "chain");
+
+      const self = manager.addSchedule({ id: "loop", after: "loop", channelId: "10", prompt: "x" });
+      assert.equal(self.ok, false);
+      assert.equal(manager.addSchedule({ id: "orphan", after: "nope", channelId: "10", prompt: "x" }).ok, false);
+    },
+  );
+});
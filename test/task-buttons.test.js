@@ -0,0 +1,73 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { handleTaskButton } from "../src/commands/task-buttons.ts";
+import {
+  buildFinalButtons,
+  buildLiveButtons,
+  buildTaskButtonId,
+  parseTaskButtonId,
+} from "../src/utils/task-buttons.ts";
+
+test("task button ids round-trip the task key", () => {
+  const customId = buildTaskButtonId("retry", "123456:th_987654");
+  assert.deepEqual(parseTaskButtonId(customId), {
+    action: "retry",
+    taskKey: "123456:th_987654",
+    userId: "123456",
+    contextId: "th_987654",
+  });
+});
+
+test("parseTaskButtonId rejects foreign ids and unknown actions", () => {
+  assert.equal(parseTaskButtonId("team:approve:run1"), null);
+  assert.equal(parseTaskButtonId("task:explode:123:ch_456"), null);
+  assert.equal(parseTaskButtonId("task:stop:schedule:daily:456"), null);
+});
+
+test("buttons are only attached to user conversation tasks", () => {
+  assert.equal(buildLiveButtons("123:ch_456").length, 1);
+  assert.equal(buildFinalButtons("123:dm_123").length, 1);
+  assert.deepEqual(buildLiveButtons("heartbeat:456"), []);
+  assert.deepEqual(buildFinalButtons("team:run1:step0"), []);
+});
+
+test("retry and continue keep the mode of the previous turn", async () => {
+  const enqueued = [];
+  const ctx = {
+    config: { ownerId: "1", allowedUserIds: new Set(), allowedChannelIds: new Set(), maxQueueSize: 10 },
+    engines: { getEngine: () => "claude" },
+    runners: new Map([["claude", {}]]),
+    sessions: { getSession: () => "session-1" },
+    models: { getModel: () => null },
+    queue: {
+      getLastPrompt: () => ({
+        prompt: "summarize the logs",
+        engine: "claude",
+        model: null,
+        mechoModeId: "mode-7",
+        modeName: "research",
+      }),
+      enqueue: (task) => {
+        enqueued.push(task);
+        return { accepted: true, reason: "ok", position: 1 };
+      },
+    },
+  };
+  const click = (action) => ({
+    customId: buildTaskButtonId(action, "123:ch_456"),
+    user: { id: "123" },
+    channelId: "456",
+    channel: { id: "456" },
+    reply: async () => {},
+  });
+
+  assert.equal(await handleTaskButton(click("retry"), ctx), true);
+  assert.equal(await handleTaskButton(click("continue"), ctx), true);
+  assert.deepEqual(
+    enqueued.map((task) => [task.prompt, task.mechoModeId, task.modeName]),
+    [
+      ["summarize the logs", "mode-7", "research"],
+      ["계속 진행해줘.", "mode-7", "research"],
+    ],
+  );
+});
@@ -0,0 +1,381 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { TeamManager, buildPlanSystemPrompt, computeStages } from "../src/core/team-manager.ts";
+import { TeamRunStore } from "../src/core/team-run-store.ts";
+
+const ok = (text) => ({ success: true, text, sessionId: null, error: null, durationMs: 1, isTimeout: false, usage: null });
+
+const plan = {
+  steps: [
+    { id: "a", label: "research A", task: "look into A", dependsOn: [] },
+    { id: "b", label: "research B", task: "look into B", dependsOn: [] },
+    { id: "join", label: "compare", task: "compare A and B", dependsOn: ["a", "b"] },
+  ],
+};
+
+function tempDbPath() {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "rikoclaw-team-test-"));
+  return path.join(tempDir, "sessions.db");
+}
+
+function createHarness({
+  planText = JSON.stringify(plan),
+  dbPath = tempDbPath(),
+  resumeInterrupted = false,
+  engines = ["claude"],
+} = {}) {
+  const enqueued = [];
+  const threadMessages = [];
+  const edits = [];
+  const message = { id: "plan-1", edit: async (options) => edits.push(options) };
+  const thread = {
+    id: "thread-1",
+    isThread: () => true,
+    messages: { fetch: async () => message },
+    send: async (payload) => {
+      threadMessages.push(payload);
+      return message;
+    },
+  };
+  const channel = {
+    id: "10",
+    send: async () => null,
+    threads: { create: async () => thread },
+  };
+  const client = {
+    channels: {
+      cache: { get: (id) => (id === "10" ? channel : undefined) },
+      fetch: async (id) => (id === "thread-1" ? thread : null),
+    },
+  };
+  // Like QueueManager: a started task is aborted later, a queued one is dropped and settled right away.
+  const started = new Set();
+  const settled = new Set();
+  const queue = {
+    enqueue: (task) => {
+      const onComplete = task.onComplete;
+      task.onComplete = (result) => {
+        settled.add(task);
+        onComplete(result);
+      };
+      enqueued.push(task);
+      return { accepted: true, reason: "ok", position: 0 };
+    },
+    cancel: (taskKey) => {
+      if (started.has(taskKey)) {
+        return { cancelledRunning: true, removedPending: 0 };
+      }
+      const pending = enqueued.filter((task) => task.taskKey === taskKey && !settled.has(task));
+      for (const task of pending) {
+        task.onComplete({ ...ok(""), success: false, error: "요청이 중단되었습니다." });
+      }
+      return { cancelledRunning: false, removedPending: pending.length };
+    },
+  };
+  const plannerCalls = [];
+  const ctx = {
+    config: {
+      queueResumeInterrupted: resumeInterrupted,
+      dataDir: path.dirname(dbPath),
+      teamPlannerEngine: "claude",
+      teamPlannerModel: "",
+      claudeModel: "claude-sonnet-4-6",
+      codexModel: "",
+    },
+    runners: new Map(
+      engines.map((engine) => [
+        engine,
+        {
+          run: async (options) => {
+            plannerCalls.push({ engine, ...options });
+            return ok(planText);
+          },
+        },
+      ]),
+    ),
+  };
+  const team = new TeamManager(client, queue, new TeamRunStore(dbPath, path.dirname(dbPath)));
+  return { team, ctx, channel, enqueued, started, threadMessages, edits, dbPath, plannerCalls };
+}
+
+test("planner dependsOn edges become step indices, and plans without them stay sequential", () => {
+  const { team } = createHarness();
+  const steps = team.parseSteps(JSON.stringify(plan));
+  assert.deepEqual(steps.map((step) => step.dependsOn), [[], [], [0, 1]]);
+  assert.deepEqual(computeStages(steps), [0, 0, 1]);
+
+  const legacy = team.parseSteps(JSON.stringify({ steps: [{ task: "one" }, { task: "two" }, { task: "three" }] }));
+  assert.deepEqual(legacy.map((step) => step.dependsOn), [[], [0], [1]]);
+
+  const cyclic = { steps: [{ id: "x", dependsOn: ["y"] }, { id: "y", dependsOn: ["x"] }] };
+  assert.throws(() => team.parseSteps(JSON.stringify(cyclic)), /순환/);
+});
+
+test("independent steps run concurrently and the join step receives every handoff", async () => {
+  const { team, ctx, channel, enqueued } = createHarness();
+  const run = await team.startPlanning(channel, "user-1", "compare A and B", ctx);
+  await team.handleApproval("10", "user-1", ctx);
+
+  assert.deepEqual(enqueued.map((task) => task.taskKey), [`team:${run.id}:step0`, `team:${run.id}:step1`]);
+  assert.deepEqual(run.stepStates.map((state) => state.status), ["running", "running", "pending"]);
+
+  enqueued[1].onComplete(ok("B done <handoff>B is fast</handoff>"));
+  assert.equal(enqueued.length, 2);
+  enqueued[0].onComplete(ok("A done <handoff>A is cheap</handoff>"));
+
+  assert.equal(enqueued.length, 3);
+  assert.match(enqueued[2].prompt, /<previous_handoff step="1" label="research A">\nA is cheap/);
+  assert.match(enqueued[2].prompt, /<previous_handoff step="2" label="research B">\nB is fast/);
+
+  enqueued[2].onComplete(ok("<handoff>A for cost, B for speed</handoff>"));
+  assert.equal(run.status, "done");
+  assert.deepEqual(run.stepStates.map((state) => state.status), ["done", "done", "done"]);
+});
+
+test("a failed branch cancels its dependents and fails the run", async () => {
+  const { team, ctx, channel, enqueued, started, edits } = createHarness();
+  const run = await team.startPlanning(channel, "user-1", "compare A and B", ctx);
+  await team.handleApproval("10", "user-1", ctx);
+  started.add(enqueued[1].taskKey);
+
+  enqueued[0].onComplete({ ...ok(""), success: false, error: "boom" });
+  assert.equal(run.status, "failed");
+  assert.deepEqual(run.stepStates.map((state) => state.status), ["failed", "running", "cancelled"]);
+
+  enqueued[1].onComplete(ok("<handoff>late</handoff>"));
+  assert.equal(enqueued.length, 2);
+  assert.equal(run.stepStates[1].status, "done");
+  assert.ok(edits.length > 0);
+});
+
+test("a run cut off by a restart is restored as failed and resumes from the interrupted step", async () => {
+  const first = createHarness();
+  const run = await first.team.startPlanning(first.channel, "user-1", "compare A and B", first.ctx);
+  await first.team.handleApproval("10", "user-1", first.ctx);
+  first.enqueued[0].onComplete(ok("<handoff>A is cheap</handoff>"));
+  first.team.close();
+
+  // Step 2 was still in the queue when the process died.
+  const second = createHarness({ dbPath: first.dbPath });
+  await second.team.restoreRuns(second.ctx);
+  const [restored] = second.team.listRuns();
+  assert.equal(restored.id, run.id);
+  assert.equal(restored.status, "failed");
+  assert.deepEqual(restored.stepStates.map((state) => state.status), ["done", "failed", "cancelled"]);
+  assert.match(second.threadMessages.at(-1), new RegExp(`/team resume run_id:${run.id}`));
+  assert.equal(second.enqueued.length, 0);
+
+  await second.team.resumeRun(run.id, second.ctx);
+  assert.deepEqual(second.enqueued.map((task) => task.taskKey), [`team:${run.id}:step1`]);
+  second.enqueued[0].onComplete(ok("<handoff>B is fast</handoff>"));
+  assert.match(second.enqueued[1].prompt, /A is cheap[\s\S]*B is fast/);
+  second.enqueued[1].onComplete(ok("<handoff>done</handoff>"));
+
+  const [finished] = second.team.listRuns();
+  assert.equal(finished.status, "done");
+  assert.ok(finished.finishedAt);
+  await assert.rejects(second.team.resumeRun(run.id, second.ctx), /이미 완료/);
+  second.team.close();
+});
+
+test("with QUEUE_RESUME_INTERRUPTED a restored run re-runs the interrupted steps on its own", async () => {
+  const first = createHarness();
+  const run = await first.team.startPlanning(first.channel, "user-1", "compare A and B", first.ctx);
+  await first.team.handleApproval("10", "user-1", first.ctx);
+  first.team.close();
+
+  const second = createHarness({ dbPath: first.dbPath, resumeInterrupted: true });
+  await second.team.restoreRuns(second.ctx);
+  assert.deepEqual(second.enqueued.map((task) => task.taskKey), [`team:${run.id}:step0`, `team:${run.id}:step1`]);
+  assert.equal(second.team.getActiveRun("10", "user-1").id, run.id);
+  second.team.close();
+});
+
+test("steps inserted or removed during review are reindexed with their dependencies", async () => {
+  const { team, ctx, channel } = createHarness();
+  const run = await team.startPlanning(channel, "user-1", "compare A and B", ctx);
+
+  team.insertStep(run.id, 0, { label: "verify A", task: "double-check A" });
+  assert.deepEqual(run.steps.map((step) => step.label), ["research A", "verify A", "research B", "compare"]);
+  assert.deepEqual(run.steps.map((step) => step.dependsOn), [[], [0], [], [2, 1]]);
+  assert.equal(run.stepStates.length, 4);
+
+  team.removeStep(run.id, 0);
+  assert.deepEqual(run.steps.map((step) => [step.index, step.dependsOn]), [[0, []], [1, []], [2, [1, 0]]]);
+
+  team.editStep(run.id, 1, { model: "gpt-5.2", engine: "codex" });
+  assert.equal(run.steps[1].model, "gpt-5.2");
+  assert.equal(run.steps[1].task, "look into B");
+  assert.equal(team.getRun(run.id).steps[1].engine, "codex");
+
+  await team.approveRun(run.id, ctx);
+  assert.throws(() => team.removeStep(run.id, 0), /승인 대기/);
+});
+
+test("the step form can clear the model, and an engine switch drops the other engine's model", async () => {
+  const { team, ctx, channel } = createHarness();
+  const run = await team.startPlanning(channel, "user-1", "compare A and B", ctx);
+
+  team.editStep(run.id, 0, { model: "claude-opus-4-1" });
+  team.editStep(run.id, 0, { model: "" });
+  assert.equal(run.steps[0].model, "");
+
+  team.editStep(run.id, 1, { model: "claude-opus-4-1" });
+  team.editStep(run.id, 1, { model: "claude-opus-4-1", engine: "codex" });
+  assert.equal(run.steps[1].engine, "codex");
+  assert.equal(run.steps[1].model, "");
+
+  assert.throws(() => team.editStep(run.id, 1, { model: "claude-sonnet-4-6" }), /codex 엔진에서 쓸 수 없습니다/);
+  assert.throws(() => team.insertStep(run.id, 0, { label: "x", task: "x", model: "gpt-5.2" }), /claude 엔진에서 쓸 수 없습니다/);
+  assert.equal(run.steps[1].model, "");
+  assert.equal(run.steps.length, 3);
+});
+
+test("a failed step can be retried after an edit, or skipped so its dependents still run", async () => {
+  const { team, ctx, channel, enqueued, threadMessages } = createHarness();
+  const run = await team.startPlanning(channel, "user-1", "compare A and B", ctx);
+  await team.handleApproval("10", "user-1", ctx);
+
+  enqueued[1].onComplete(ok("<handoff>B is fast</handoff>"));
+  enqueued[0].onComplete({ ...ok(""), success: false, error: "boom" });
+  assert.equal(threadMessages.at(-1).components.length, 1);
+
+  team.editStep(run.id, 0, { task: "look into A, briefly" });
+  await team.resumeRun(run.id, ctx);
+  assert.equal(enqueued.length, 3);
+  assert.match(enqueued[2].prompt, /look into A, briefly/);
+
+  enqueued[2].onComplete({ ...ok(""), success: false, error: "boom again" });
+  await team.skipStep(run.id, 0, ctx);
+  assert.deepEqual(run.stepStates.map((state) => state.status), ["skipped", "done", "running"]);
+  assert.match(enqueued[3].prompt, /건너뜀[\s\S]*B is fast/);
+
+  enqueued[3].onComplete(ok("<handoff>B only</handoff>"));
+  assert.equal(run.status, "done");
+});
+
+test("the planner sees the registered engines and their /model presets, and steps keep their engine", async () => {
+  const prompt = buildPlanSystemPrompt(["claude", "codex"], { claudeModel: "", codexModel: "gpt-5.2" });
+  assert.match(prompt, /- claude: claude-opus-4-6, claude-sonnet-4-6/);
+  assert.match(prompt, /- codex: gpt-5\.3-codex, gpt-5\.2 \(기본: gpt-5\.2\)/);
+  assert.doesNotMatch(prompt, /claude-sonnet-4-5-20250929/);
+  assert.doesNotMatch(buildPlanSystemPrompt(["claude"], {}), /codex:/);
+
+  const mixed = {
+    steps: [
+      { id: "spec", label: "write spec", task: "spec it", dependsOn: [] },
+      { id: "impl", label: "implement", engine: "codex", task: "build it", dependsOn: ["spec"] },
+      { id: "review", label: "review", model: "gpt-5.2", task: "review it", dependsOn: ["impl"] },
+    ],
+  };
+  const { team, ctx, channel, enqueued, plannerCalls } = createHarness({
+    planText: JSON.stringify(mixed),
+    engines: ["claude", "codex"],
+  });
+  ctx.config.teamPlannerEngine = "codex";
+  ctx.config.teamPlannerModel = "gpt-5.3-codex";
+  const run = await team.startPlanning(channel, "user-1", "spec, build and review", ctx);
+  assert.equal(plannerCalls[0].engine, "codex");
+  assert.equal(plannerCalls[0].model, "gpt-5.3-codex");
+  assert.deepEqual(run.steps.map((step) => step.engine ?? "claude"), ["claude", "codex", "codex"]);
+
+  await team.approveRun(run.id, ctx);
+  assert.equal(enqueued[0].engine, "claude");
+  assert.equal(enqueued[0].model, null);
+  enqueued[0].onComplete(ok("<handoff>spec</handoff>"));
+  assert.equal(enqueued[1].engine, "codex");
+
+  const claudeOnly = createHarness({ planText: JSON.stringify(mixed) });
+  await assert.rejects(
+    claudeOnly.team.startPlanning(claudeOnly.channel, "user-1", "spec, build and review", claudeOnly.ctx),
+    /Step 2의 엔진\(codex\)/,
+  );
+});
+
+test("steps share an artifact directory, get its manifest, and can hand off structured JSON", async () => {
+  const { team, ctx, channel, enqueued, threadMessages } = createHarness();
+  const run = await team.startPlanning(channel, "user-1", "compare A and B", ctx);
+  await team.approveRun(run.id, ctx);
+
+  const [artifactDir] = enqueued[0].extraDirs;
+  assert.deepEqual(enqueued[1].extraDirs, [artifactDir]);
+  assert.match(enqueued[0].prompt, new RegExp(`공유 아티팩트 디렉토리\\]\\n"${artifactDir.replace(/[\\^$.*+?()[\]{}|]/g, "\\$&")}"`));
+
+  fs.writeFileSync(path.join(artifactDir, "a.md"), "# A\n");
+  enqueued[0].onComplete(
+    ok('<handoff format="json">{"summary": "A is cheap", "artifacts": ["./a.md"], "data": {"cost": 1}}</handoff>'),
+  );
+  assert.match(threadMessages.at(-1), /> A is cheap\n📎 a\.md/);
+
+  fs.mkdirSync(path.join(artifactDir, "b"));
+  fs.writeFileSync(path.join(artifactDir, "b", "notes.txt"), "fast");
+  enqueued[1].onComplete(ok('<handoff format="json">{"summary": 42}</handoff>'));
+
+  const joinPrompt = enqueued[2].prompt;
+  assert.match(joinPrompt, /<previous_handoff step="1" label="research A" format="json">\n\{\n  "summary": "A is cheap"/);
+  assert.match(joinPrompt, /"cost": 1/);
+  assert.match(joinPrompt, /<previous_handoff step="2" label="research B">\n\{"summary": 42\}/);
+  assert.match(joinPrompt, /- a\.md \(4B, Step 1\)\n- b\/notes\.txt \(4B, Step 2\)/);
+
+  enqueued[2].onComplete(ok("<handoff>A for cost, B for speed</handoff>"));
+  const summary = threadMessages.at(-1);
+  assert.match(summary.content, /아티팩트\*\* \(2개\)/);
+  assert.deepEqual(summary.files.map((file) => file.name).sort(), ["a.md", "b_notes.txt"]);
+  assert.deepEqual(team.listRuns()[0].artifacts.map((artifact) => [artifact.path, artifact.stepIndex]), [
+    ["a.md", 0],
+    ["b/notes.txt", 1],
+  ]);
+});
+
+test("a sibling still waiting in the queue is cancelled with the failed branch and runs again on retry", async () => {
+  const { team, ctx, channel, enqueued } = createHarness();
+  const run = await team.startPlanning(channel, "user-1", "compare A and B", ctx);
+  await team.approveRun(run.id, ctx);
+
+  // Step 2 never started (one run slot), so the queue drops it when step 1 fails.
+  enqueued[0].onComplete({ ...ok(""), success: false, error: "boom" });
+  assert.deepEqual(run.stepStates.map((state) => state.status), ["failed", "cancelled", "cancelled"]);
+
+  await team.resumeRun(run.id, ctx);
+  assert.deepEqual(enqueued.slice(2).map((task) => task.taskKey), [`team:${run.id}:step0`, `team:${run.id}:step1`]);
+  assert.deepEqual(run.stepStates.map((state) => state.status), ["running", "running", "pending"]);
+
+  team.cancelRun(run.id);
+  assert.deepEqual(run.stepStates.map((state) => state.status), ["cancelled", "cancelled", "cancelled"]);
+  await team.resumeRun(run.id, ctx);
+  assert.equal(enqueued.length, 6);
+});
+
+test("pruned runs take their artifact directories with them", () => {
+  const dbPath = tempDbPath();
+  const dataDir = path.dirname(dbPath);
+  const store = new TeamRunStore(dbPath, dataDir);
+  const finished = (n) => ({
+    id: `run${n}`,
+    channelId: "10",
+    threadId: null,
+    userId: "user-1",
+    steps: [],
+    stepStates: [],
+    status: "done",
+    handoffs: [],
+    artifacts: [],
+    originalPrompt: "p",
+    startedAt: n,
+    finishedAt: n,
+    planMessageId: null,
+  });
+
+  for (let n = 0; n <= 200; n++) {
+    fs.mkdirSync(path.join(dataDir, "team-runs", `run${n}`, "artifacts"), { recursive: true });
+    store.save(finished(n));
+  }
+  assert.equal(store.get("run0"), null);
+  assert.equal(fs.existsSync(path.join(dataDir, "team-runs", "run0")), false);
+  assert.ok(store.get("run1"));
+  assert.equal(fs.existsSync(path.join(dataDir, "team-runs", "run1", "artifacts")), true);
+  store.close();
+});
@@ -0,0 +1,92 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { UsageLedger, estimateCost } from "../src/core/usage-ledger.ts";
+
+function usage(inputTokens, outputTokens, cacheReadInputTokens = 0) {
+  return {
+    inputTokens,
+    outputTokens,
+    cacheReadInputTokens,
+    cacheCreationInputTokens: 0,
+    contextWindow: null,
+    totalContextTokens: inputTokens,
+  };
+}
+
+function withLedger(run) {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "rikoclaw-usage-test-"));
+  const ledger = new UsageLedger(path.join(tempDir, "sessions.db"));
+  try {
+    run(ledger);
+  } finally {
+    ledger.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+function entry(overrides) {
+  return {
+    taskKey: "1:ch_10",
+    lane: "interactive",
+    userId: "1",
+    channelId: "10",
+    engine: "claude",
+    model: "claude-sonnet-4-6",
+    success: true,
+    durationMs: 1000,
+    retryCount: 0,
+    usage: usage(1000, 100),
+    costUsd: 0.01,
+    createdAt: Date.now(),
+    ...overrides,
+  };
+}
+
+test("estimateCost applies per-million prices, cache rates and the * fallback", () => {
+  const prices = new Map([
+    ["claude-sonnet-4-6", { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 }],
+  ]);
+  assert.equal(estimateCost(usage(1_000_000, 100_000, 1_000_000), "claude-sonnet-4-6", prices), 4.8);
+  assert.equal(estimateCost(usage(1000, 10), "unknown-model", prices), null);
+  assert.equal(estimateCost(null, "claude-sonnet-4-6", prices), 0);
+
+  prices.set("*", { input: 1, output: 1, cacheRead: 0, cacheWrite: 0 });
+  assert.equal(estimateCost(usage(500_000, 500_000), "unknown-model", prices), 1);
+});
+
+test("UsageLedger aggregates runs by lane, model and user with filters", () => {
+  withLedger((ledger) => {
+    const old = Date.now() - 10 * 24 * 60 * 60 * 1000;
+    ledger.record(entry({}));
+    ledger.record(entry({ success: false, retryCount: 2, costUsd: 0.02 }));
+    ledger.record(
+      entry({ taskKey: "schedule:daily:10", lane: "schedule", userId: "schedule:10", costUsd: 0.5 }),
+    );
+    ledger.record(entry({ model: "", engine: "codex", costUsd: null, userId: "2" }));
+    ledger.record(entry({ createdAt: old, costUsd: 9 }));
+
+    const since = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    const totals = ledger.totals({ since });
+    assert.equal(totals.runs, 4);
+    assert.equal(totals.failures, 1);
+    assert.equal(totals.retries, 2);
+    assert.equal(totals.unpricedRuns, 1);
+    assert.ok(Math.abs(totals.costUsd - 0.53) < 1e-9);
+
+    const byLane = ledger.breakdown({ groupBy: "lane", since });
+    assert.deepEqual(
+      byLane.map((row) => [row.key, row.runs]),
+      [["schedule", 1], ["interactive", 3]],
+    );
+
+    const byModel = ledger.breakdown({ groupBy: "model", since });
+    assert.ok(byModel.some((row) => row.key === "codex:(default)" && row.unpricedRuns === 1));
+
+    const mine = ledger.totals({ since, userId: "1" });
+    assert.equal(mine.runs, 2);
+    assert.equal(ledger.totals({ since: null, userId: "1" }).runs, 3);
+  });
+});